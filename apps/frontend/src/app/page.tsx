@@ -7,6 +7,16 @@ import axios from 'axios';
 
 const GATEWAY_URL = process.env.NEXT_PUBLIC_GATEWAY_URL || 'http://localhost:3001/api/v1';
 
+// One factor of the gateway's score breakdown (risk-core FactorBreakdown)
+type FactorBreakdown = {
+  value: number | null;
+  direction: 'above' | 'below';
+  band: { threshold: number; points: number } | null;
+  weightedPoints: number;
+  nextBand: { threshold: number; points: number } | null;
+  distanceToNext: number | null;
+};
+
 export default function Home() {
   const [asset, setAsset] = useState('WETH');
   const [loading, setLoading] = useState(false);
@@ -218,6 +228,25 @@ export default function Home() {
                             <p className="text-sm font-mono text-white">${(result.liquidityUsd / 1e6).toFixed(2)}M</p>
                           </div>
                         </div>
+
+                        {result.receipt?.result?.breakdown && (
+                          <div className="bg-[#0a0c10] p-4 rounded-xl border border-slate-800/60">
+                            <p className="text-[9px] font-bold text-slate-500 uppercase tracking-widest mb-3">Score Breakdown</p>
+                            <div className="space-y-2">
+                              {Object.entries(result.receipt.result.breakdown as Record<string, FactorBreakdown>).map(([factor, f]) => (
+                                <div key={factor} className="grid grid-cols-12 gap-2 items-center text-[10px] font-mono">
+                                  <span className="col-span-3 text-slate-400 uppercase tracking-wider">{factor}</span>
+                                  <span className="col-span-3 text-white">{f.value === null ? '—' : f.value.toLocaleString()}</span>
+                                  <span className="col-span-2 text-slate-500">{f.band ? `${f.direction === 'below' ? '<' : '>'} ${f.band.threshold.toLocaleString()}` : 'no band'}</span>
+                                  <span className={`col-span-1 text-right font-bold ${f.weightedPoints > 0 ? 'text-yellow-400' : 'text-slate-600'}`}>+{f.weightedPoints}</span>
+                                  <span className="col-span-3 text-right text-slate-500">
+                                    {f.nextBand && f.distanceToNext !== null ? `${f.distanceToNext.toLocaleString()} to +${f.nextBand.points}` : 'top band'}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                       </div>
                       
                       <div className="bg-blue-500/5 border border-blue-500/10 rounded-xl p-5 flex flex-col justify-center">
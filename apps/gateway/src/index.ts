@@ -5,7 +5,14 @@ import rateLimit from '@fastify/rate-limit';
 import swagger from '@fastify/swagger';
 import swaggerUi from '@fastify/swagger-ui';
 import * as dotenv from 'dotenv';
-import { riskRoutes } from './routes/risk';
+import { riskRoutes } from './routes/risk.js';
+import { facilitatorRoutes } from './routes/facilitator.js';
+import { mcpRoutes } from './routes/mcp.js';
+import { a2aRoutes } from './routes/a2a.js';
+import { adminRoutes } from './routes/admin.js';
+import { jwksRoutes } from './routes/jwks.js';
+import { rateLimitBucket } from './lib/apiAuth.js';
+import { flushApiKeyUsage } from './lib/apiKeys.js';
 
 dotenv.config();
 
@@ -42,13 +49,16 @@ const start = async () => {
 
     await fastify.register(cors, {
       origin: process.env.ALLOWED_ORIGINS?.split(',') || '*',
-      methods: ['GET', 'POST', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
+      methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-API-KEY', 'X-PAYMENT', 'X-Payment-Tx', 'Mcp-Session-Id', 'MCP-Protocol-Version'],
+      exposedHeaders: ['X-PAYMENT-RESPONSE', 'X-Payment-Required', 'Mcp-Session-Id', 'X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-Quota-Remaining', 'Retry-After'],
     });
 
     await fastify.register(rateLimit, {
       max: 100,
       timeWindow: '1 minute',
+      // Coarse flood guard; callers with a live key get their own bucket (per-key limits live in lib/apiKeys.ts)
+      keyGenerator: rateLimitBucket,
       errorResponseBuilder: (request, context) => ({
         statusCode: 429,
         error: 'Too Many Requests',
@@ -86,6 +96,11 @@ const start = async () => {
 
     // Routes
     await fastify.register(riskRoutes, { prefix: '/api/v1' });
+    await fastify.register(adminRoutes, { prefix: '/api/v1/admin' });
+    await fastify.register(facilitatorRoutes, { prefix: '/facilitator' });
+    await fastify.register(mcpRoutes);
+    await fastify.register(a2aRoutes);
+    await fastify.register(jwksRoutes);
 
     // Health Check
     fastify.get('/health', {
@@ -127,6 +142,14 @@ const start = async () => {
       });
     });
 
+    // Graceful shutdown: batched key usage would otherwise be lost (no 'exit' event on signals)
+    fastify.addHook('onClose', async () => flushApiKeyUsage());
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.once(signal, () => {
+        fastify.close().then(() => process.exit(0), () => process.exit(1));
+      });
+    }
+
     const port = Number(process.env.PORT) || 3001;
     await fastify.listen({ port, host: '0.0.0.0' });
     console.log(`\n🚀 Reality Firewall v3 Gateway running at http://localhost:${port}`);
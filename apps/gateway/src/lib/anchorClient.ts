@@ -2,60 +2,48 @@
  * lib/anchorClient.ts — Ed25519 Signing + Onchain Anchoring
  * ===========================================================
  * Two responsibilities:
- *   1. Ed25519 key management + signing (off-chain, immediate)
+ *   1. Ed25519 signing with the active keyring key (off-chain, immediate)
  *   2. Anchoring Defense Receipts to ReceiptRegistry.sol (optional onchain)
  *
  * Demo mode (ANCHOR_ENABLED=false, default):
  *   - Computes real calldata for anchorReceipt(...)
- *   - Returns deterministic mock tx hash (SHA-256 of calldata)
+ *   - Returns mock tx hash (SHA-256 of calldata)
  *   - Shows exact cast command to anchor for real
  *
  * Production mode (ANCHOR_ENABLED=true):
- *   - Sends real tx to ReceiptRegistry.sol on Sepolia
+ *   - Simulates, signs (EIP-1559) and broadcasts anchorReceipt(...) to
+ *     ReceiptRegistry.sol, then waits for ANCHOR_CONFIRMATIONS blocks
  *   - Requires: ANCHOR_PRIVATE_KEY, RECEIPT_REGISTRY_ADDRESS
+ *   - ANCHOR_RPC_URL may point at a local anvil node (http://127.0.0.1:8545)
+ *   - Registry custom errors are decoded into AnchorRevertError codes
  */
-import { createHash, generateKeyPairSync, sign, verify, createPrivateKey, createPublicKey } from "node:crypto";
-import { readFileSync, writeFileSync, existsSync } from "node:fs";
-import { join } from "node:path";
-
-const KEY_PATH = process.env.KEY_PATH ?? join(process.cwd(), ".rf-agent.ed25519.pem");
-let _privateKeyPem: string | null = null;
-let _publicKeyHex:  string | null = null;
-
-export function loadOrGenerateKey(): { privateKeyPem: string; publicKeyHex: string } {
-  if (_privateKeyPem && _publicKeyHex) return { privateKeyPem: _privateKeyPem, publicKeyHex: _publicKeyHex };
-
-  if (existsSync(KEY_PATH)) {
-    _privateKeyPem = readFileSync(KEY_PATH, "utf8");
-  } else {
-    const { privateKey } = generateKeyPairSync("ed25519");
-    _privateKeyPem = privateKey.export({ type: "pkcs8", format: "pem" }) as string;
-    writeFileSync(KEY_PATH, _privateKeyPem, { mode: 0o600 });
-    console.log(`[Ed25519] New key generated at: ${KEY_PATH}`);
-  }
-
-  const pk  = createPrivateKey(_privateKeyPem);
-  const pub = createPublicKey(pk).export({ type: "spki", format: "der" }) as Buffer;
-  _publicKeyHex = pub.toString("hex");
-
-  return { privateKeyPem: _privateKeyPem, publicKeyHex: _publicKeyHex };
+import { createHash, sign, verify, createPrivateKey, createPublicKey } from "node:crypto";
+import { Contract, Interface, JsonRpcProvider, Wallet, ZeroAddress } from "ethers";
+import { canonicalize } from "./canonical.js";
+import { activeSigningKey } from "./signingKeys.js";
+
+/** Current signing key from the keyring (lib/signingKeys.ts) */
+export function loadOrGenerateKey(): { privateKeyPem: string; publicKeyHex: string; kid: string } {
+  const { privateKeyPem, publicKeyHex, kid } = activeSigningKey();
+  return { privateKeyPem, publicKeyHex, kid };
 }
 
-/** Signs a payload with Ed25519. Returns hex signature. */
-export function signPayload(payload: object): { signature: string; publicKeyHex: string } {
-  const { privateKeyPem, publicKeyHex } = loadOrGenerateKey();
+/** Signs a payload with Ed25519 over its RFC 8785 canonical JSON. Returns hex signature. */
+export function signPayload(
+  payload: object,
+  key: { privateKeyPem: string; publicKeyHex: string } = loadOrGenerateKey(),
+): { signature: string; publicKeyHex: string } {
+  const { privateKeyPem, publicKeyHex } = key;
   const pk  = createPrivateKey(privateKeyPem);
-  const msg = Buffer.from(JSON.stringify(payload));
+  const msg = Buffer.from(canonicalize(payload), "utf8");
   const signature = sign(null, msg, pk).toString("hex");
   return { signature, publicKeyHex };
 }
 
-/** Verifies an Ed25519 signature. */
-export function verifySignature(payload: object, signatureHex: string, publicKeyHex: string): boolean {
+function verifyMessage(msg: Buffer, signatureHex: string, publicKeyHex: string): boolean {
   try {
     const pubBuf = Buffer.from(publicKeyHex, "hex");
     const pubKey = createPublicKey({ key: pubBuf, format: "der", type: "spki" });
-    const msg    = Buffer.from(JSON.stringify(payload));
     const sigBuf = Buffer.from(signatureHex, "hex");
     return verify(null, msg, pubKey, sigBuf);
   } catch {
@@ -63,28 +51,94 @@ export function verifySignature(payload: object, signatureHex: string, publicKey
   }
 }
 
-// ABI encode helper for anchorReceipt(bytes32,bytes32,address,uint8,uint8,bool)
-function encodeAnchorCalldata(p: {
-  evidenceHash:  string;
-  runIdHash:     string;
-  agentAddress:  string;
-  score:         number;
-  level:         number;
-  isDrill:       boolean;
-}): string {
-  // selector = keccak256("anchorReceipt(bytes32,bytes32,address,uint8,uint8,bool)").slice(0,8)
-  const selector  = "a8d87a3b";
-  const pad32     = (h: string)   => h.replace(/^0x/, "").padStart(64, "0");
-  const padUint   = (n: number)   => n.toString(16).padStart(64, "0");
-  const padAddr   = (a: string)   => a.replace(/^0x/, "").padStart(64, "0");
-  const padBool   = (b: boolean)  => (b ? 1 : 0).toString(16).padStart(64, "0");
-  return "0x" + selector + pad32(p.evidenceHash) + pad32(p.runIdHash) + padAddr(p.agentAddress) + padUint(p.score) + padUint(p.level) + padBool(p.isDrill);
+/** Verifies an Ed25519 signature over the payload's canonical JSON. */
+export function verifySignature(payload: object, signatureHex: string, publicKeyHex: string): boolean {
+  return verifyMessage(Buffer.from(canonicalize(payload), "utf8"), signatureHex, publicKeyHex);
+}
+
+/** Pre-v1 receipts were signed over JSON.stringify (insertion order) — verify-only. */
+export function verifyLegacySignature(payload: object, signatureHex: string, publicKeyHex: string): boolean {
+  return verifyMessage(Buffer.from(JSON.stringify(payload)), signatureHex, publicKeyHex);
 }
 
+export const RECEIPT_REGISTRY_ABI = [
+  "function anchorReceipt(bytes32 evidenceHash, bytes32 runIdHash, address agentId, uint8 score, uint8 level, bool isDrill) external returns (bool)",
+  "function getReceipt(bytes32 evidenceHash) external view returns (tuple(bytes32 evidenceHash, bytes32 runIdHash, address agentId, uint8 score, uint8 level, bool isDrill, uint256 timestamp))",
+  "function verifyReceipt(bytes32 evidenceHash, uint8 minScore) external view returns (bool)",
+  "event ReceiptAnchored(bytes32 indexed evidenceHash, bytes32 indexed runIdHash, address indexed agentId, uint8 score, uint8 level, bool isDrill)",
+  "error OnlyOwner()",
+  "error UnauthorizedAgent(address agent)",
+  "error ReceiptAlreadyExists(bytes32 evidenceHash)",
+  "error InvalidSignature()",
+  "error ZeroAddress()",
+] as const;
+
+const registryInterface = new Interface(RECEIPT_REGISTRY_ABI);
+
+/** Address passed as agentId to anchorReceipt (AGENT_ADDRESS, else the anchoring wallet) */
+export function anchorAgentAddress(): string {
+  if (process.env.AGENT_ADDRESS) return process.env.AGENT_ADDRESS;
+  const privateKey = process.env.ANCHOR_PRIVATE_KEY;
+  return privateKey ? new Wallet(privateKey).address : ZeroAddress;
+}
+
+/** runId → bytes32 as stored in ReceiptRegistry.runIdHash */
+export function runIdHash(runId: string): string {
+  return "0x" + createHash("sha256").update(runId).digest("hex");
+}
+
+export type AnchorRevertCode =
+  | "ReceiptAlreadyExists"
+  | "UnauthorizedAgent"
+  | "InvalidSignature"
+  | "OnlyOwner"
+  | "ZeroAddress"
+  | "UNKNOWN_REVERT";
+
+/** Custom error raised by ReceiptRegistry, decoded from revert data */
+export class AnchorRevertError extends Error {
+  constructor(
+    readonly code: AnchorRevertCode,
+    readonly args: Record<string, string> = {},
+    readonly data?: string,
+  ) {
+    super(`ReceiptRegistry reverted: ${code}${Object.keys(args).length ? ` ${JSON.stringify(args)}` : ""}`);
+    this.name = "AnchorRevertError";
+  }
+}
+
+/** Finds revert data on an ethers / JSON-RPC error, however deeply nested */
+export function extractRevertData(err: unknown): string | undefined {
+  const seen = new Set<unknown>();
+  const walk = (e: unknown): string | undefined => {
+    if (!e || typeof e !== "object" || seen.has(e)) return undefined;
+    seen.add(e);
+    const o = e as Record<string, unknown>;
+    if (typeof o.data === "string" && /^0x[0-9a-f]{8}/i.test(o.data)) return o.data;
+    return walk(o.data) ?? walk(o.error) ?? walk(o.info) ?? walk(o.cause);
+  };
+  return walk(err);
+}
+
+/** Maps a failed call/tx to an AnchorRevertError, or null if it was not a revert */
+export function decodeAnchorRevert(err: unknown): AnchorRevertError | null {
+  const data = extractRevertData(err);
+  if (!data) return null;
+  try {
+    const parsed = registryInterface.parseError(data);
+    if (!parsed) return new AnchorRevertError("UNKNOWN_REVERT", {}, data);
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, i) => { args[input.name] = String(parsed.args[i]); });
+    return new AnchorRevertError(parsed.name as AnchorRevertCode, args, data);
+  } catch {
+    return new AnchorRevertError("UNKNOWN_REVERT", {}, data);
+  }
+}
+
+/** agentId on chain is always anchorAgentAddress() */
 export interface AnchorParams {
   evidenceHash: string;
   runId:        string;
-  agentId:      string;
   score:        number;
   level:        number;
   isDrill:      boolean;
@@ -95,67 +149,100 @@ export interface AnchorResult {
   txHash:        string;
   explorerUrl:   string;
   simulated:     boolean;
+  blockNumber?:  number;
+  status?:       "confirmed" | "reverted";
   castCommand?:  string;
+  revert?:       { code: AnchorRevertCode; args: Record<string, string> };
   error?:        string;
 }
 
+function explorerBaseFor(chainId: bigint | null, rpcUrl: string): string {
+  if (chainId === 11155111n || (chainId === null && rpcUrl.includes("sepolia"))) return "https://sepolia.etherscan.io/tx";
+  if (chainId === 1n) return "https://etherscan.io/tx";
+  if (chainId === 84532n) return "https://sepolia.basescan.org/tx";
+  return ""; // local anvil / unknown chain — no public explorer
+}
+
 export async function anchorReceipt(params: AnchorParams): Promise<AnchorResult> {
   const anchorEnabled   = process.env.ANCHOR_ENABLED === "true";
   const rpcUrl          = process.env.ANCHOR_RPC_URL ?? "https://ethereum-sepolia-rpc.publicnode.com";
   const registryAddress = process.env.RECEIPT_REGISTRY_ADDRESS;
-  const agentAddress    = process.env.AGENT_ADDRESS ?? "0x0000000000000000000000000000000000000000";
-  const isTestnet       = rpcUrl.includes("sepolia");
-  const explorerBase    = isTestnet ? "https://sepolia.etherscan.io/tx" : "https://etherscan.io/tx";
-
-  // Convert runId to bytes32
-  const runIdHash = "0x" + createHash("sha256").update(params.runId).digest("hex");
-
-  const calldata = registryAddress
-    ? encodeAnchorCalldata({
-        evidenceHash:  params.evidenceHash,
-        runIdHash,
-        agentAddress,
-        score:         params.score,
-        level:         params.level,
-        isDrill:       params.isDrill,
-      })
-    : "";
+  const privateKey      = process.env.ANCHOR_PRIVATE_KEY;
+  const confirmations   = Number(process.env.ANCHOR_CONFIRMATIONS ?? 1);
+  const timeoutMs       = Number(process.env.ANCHOR_TIMEOUT_MS ?? 120_000);
+
+  const wallet          = anchorEnabled && privateKey ? new Wallet(privateKey) : null;
+  const agentAddress    = anchorAgentAddress();
+  const runIdBytes      = runIdHash(params.runId);
+  const args            = [params.evidenceHash, runIdBytes, agentAddress, params.score, params.level, params.isDrill] as const;
 
   // Build cast command for README/docs
   const castCommand = registryAddress ? [
     `cast send ${registryAddress} \\`,
     `  "anchorReceipt(bytes32,bytes32,address,uint8,uint8,bool)" \\`,
-    `  ${params.evidenceHash} ${runIdHash} ${agentAddress} ${params.score} ${params.level} ${params.isDrill} \\`,
+    `  ${args.join(" ")} \\`,
     `  --rpc-url ${rpcUrl} \\`,
     `  --private-key $ANCHOR_PRIVATE_KEY`,
   ].join("\n") : undefined;
 
   // Demo mode: always returns simulated tx
-  if (!anchorEnabled || !registryAddress || !process.env.ANCHOR_PRIVATE_KEY) {
-    const mockTxHash  = "0x" + createHash("sha256").update(params.evidenceHash + runIdHash + Date.now()).digest("hex");
-    const explorerUrl = `${explorerBase}/${mockTxHash}`;
+  if (!wallet || !registryAddress) {
+    const calldata    = registryAddress ? registryInterface.encodeFunctionData("anchorReceipt", args) : "";
+    const mockTxHash  = "0x" + createHash("sha256").update(params.evidenceHash + runIdBytes + calldata + Date.now()).digest("hex");
+    const explorerUrl = `${explorerBaseFor(null, rpcUrl)}/${mockTxHash}`;
     console.log(`[Anchor] Demo mode — simulated tx: ${mockTxHash}`);
     if (castCommand) console.log(`[Anchor] To anchor for real:\n${castCommand}`);
     return { success: true, txHash: mockTxHash, explorerUrl, simulated: true, castCommand };
   }
 
-  // Real tx mode
+  // Real tx mode: EIP-1559 signed tx → broadcast → wait for confirmation
+  let txHash = "";
+  let explorerBase = explorerBaseFor(null, rpcUrl);
   try {
-    const nonceRes  = await fetch(rpcUrl, {
-      method: "POST", headers: { "Content-Type": "application/json" },
-      body:   JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_getTransactionCount", params: [agentAddress, "latest"] }),
-    });
-    const { result: nonce } = await nonceRes.json() as { result: string };
-    const gasPriceRes = await fetch(rpcUrl, {
-      method: "POST", headers: { "Content-Type": "application/json" },
-      body:   JSON.stringify({ jsonrpc: "2.0", id: 2, method: "eth_gasPrice", params: [] }),
+    const provider = new JsonRpcProvider(rpcUrl);
+    const signer   = wallet.connect(provider);
+    const registry = new Contract(registryAddress, RECEIPT_REGISTRY_ABI, signer);
+    const { chainId } = await provider.getNetwork();
+    explorerBase = explorerBaseFor(chainId, rpcUrl);
+
+    // Simulate first so reverts surface with decodable data before we pay gas
+    await registry.anchorReceipt.staticCall(...args);
+
+    const fees = await provider.getFeeData();
+    const tx   = await registry.anchorReceipt(...args, {
+      type:                 2,
+      maxFeePerGas:         fees.maxFeePerGas ?? undefined,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas ?? undefined,
     });
-    const { result: gasPrice } = await gasPriceRes.json() as { result: string };
-    console.log(`[Anchor] Calldata: ${calldata.slice(0, 50)}… nonce=${nonce} gasPrice=${gasPrice}`);
-    // Real signing requires ethers.js — returning simulated with real calldata for now
-    const mockTxHash  = "0x" + createHash("sha256").update(calldata + nonce).digest("hex");
-    return { success: true, txHash: mockTxHash, explorerUrl: `${explorerBase}/${mockTxHash}`, simulated: true, castCommand };
+    txHash = tx.hash;
+    console.log(`[Anchor] Broadcast ${txHash} (chainId=${chainId}, nonce=${tx.nonce})`);
+
+    const receipt = await tx.wait(confirmations, timeoutMs);
+    if (!receipt) throw new Error(`tx ${txHash} not mined within ${timeoutMs}ms`);
+    const status  = receipt.status === 1 ? "confirmed" : "reverted";
+    console.log(`[Anchor] ${status} in block ${receipt.blockNumber}`);
+
+    return {
+      success:     status === "confirmed",
+      txHash,
+      explorerUrl: explorerBase ? `${explorerBase}/${txHash}` : "",
+      simulated:   false,
+      blockNumber: receipt.blockNumber,
+      status,
+      castCommand,
+    };
   } catch (e) {
-    return { success: false, txHash: "", explorerUrl: "", simulated: false, error: String(e) };
+    const revert = decodeAnchorRevert(e);
+    console.warn(`[Anchor] Failed: ${revert?.message ?? String(e)}`);
+    return {
+      success:     false,
+      txHash,
+      explorerUrl: txHash && explorerBase ? `${explorerBase}/${txHash}` : "",
+      simulated:   false,
+      status:      txHash ? "reverted" : undefined,
+      castCommand,
+      revert:      revert ? { code: revert.code, args: revert.args } : undefined,
+      error:       revert?.message ?? String(e),
+    };
   }
 }
@@ -0,0 +1,84 @@
+/**
+ * lib/anvil.ts — Throwaway anvil Nodes
+ * ======================================
+ * Starts a local anvil on a free port, loads forge artifacts and
+ * impersonates accounts. Used by the forked enforcement drills
+ * (services/forkDrill.ts) and the anchoring check (src/scripts/anchor-anvil.ts).
+ *
+ * ANVIL_BIN (default anvil), ANVIL_START_TIMEOUT_MS (default 30000),
+ * FORGE_OUT_DIR (default ../../contracts/out).
+ */
+import { spawn, type ChildProcess } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { createServer } from "node:net";
+import { join } from "node:path";
+import { JsonRpcProvider, JsonRpcSigner, type InterfaceAbi, type Signer } from "ethers";
+
+export const ANVIL_BIN     = process.env.ANVIL_BIN ?? "anvil";
+export const FORGE_OUT_DIR = process.env.FORGE_OUT_DIR ?? join(process.cwd(), "..", "..", "contracts", "out");
+
+const ANVIL_START_TIMEOUT_MS = Number(process.env.ANVIL_START_TIMEOUT_MS ?? 30_000);
+
+export interface AnvilNode {
+  proc:     ChildProcess;
+  provider: JsonRpcProvider;
+  url:      string;
+}
+
+/** ABI + creation bytecode of a contract from `forge build` output, or null if not built */
+export function loadArtifact(name: string): { abi: InterfaceAbi; bytecode: string } | null {
+  const path = join(FORGE_OUT_DIR, `${name}.sol`, `${name}.json`);
+  if (!existsSync(path)) return null;
+  const artifact = JSON.parse(readFileSync(path, "utf8")) as { abi: InterfaceAbi; bytecode: { object: string } };
+  return { abi: artifact.abi, bytecode: artifact.bytecode.object };
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/** Spawns anvil and waits for its RPC; rejects if it exits or never answers */
+export async function startAnvil(args: string[] = []): Promise<AnvilNode> {
+  const port = await freePort();
+  const proc = spawn(ANVIL_BIN, ["--port", String(port), "--silent", ...args], { stdio: "ignore" });
+  let exited: string | null = null;
+  proc.once("error", (e) => { exited = e.message; });
+  proc.once("exit", (code) => { exited ??= `anvil exited with code ${code}`; });
+
+  const url      = `http://127.0.0.1:${port}`;
+  const deadline = Date.now() + ANVIL_START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (exited) throw new Error(exited);
+    try {
+      const res = await fetch(url, {
+        method:  "POST",
+        headers: { "Content-Type": "application/json" },
+        body:    JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] }),
+        signal:  AbortSignal.timeout(1000),   // a socket that accepts but never answers must not outlive the deadline
+      });
+      if (res.ok) return { proc, url, provider: new JsonRpcProvider(url, undefined, { staticNetwork: true, polling: true, pollingInterval: 50 }) };
+    } catch { /* not listening yet, or the probe timed out */ }
+    await new Promise((r) => setTimeout(r, 200));
+  }
+  proc.kill();
+  throw new Error(`anvil did not answer on ${url} within ${ANVIL_START_TIMEOUT_MS}ms`);
+}
+
+export function stopAnvil(node: AnvilNode): void {
+  node.proc.kill();
+  node.provider.destroy();
+}
+
+/** Signer for any address on the node, funded with 100 ETH for gas */
+export async function impersonate(provider: JsonRpcProvider, address: string): Promise<Signer> {
+  await provider.send("anvil_impersonateAccount", [address]);
+  await provider.send("anvil_setBalance", [address, "0x56bc75e2d63100000"]);
+  return new JsonRpcSigner(provider, address);   // not in eth_accounts, so getSigner() would refuse it
+}
@@ -0,0 +1,163 @@
+/**
+ * lib/apiAuth.ts — API Key Authentication & Scope Enforcement
+ * =============================================================
+ * Keys arrive as `X-API-KEY: rf_…` or `Authorization: Bearer rf_…`.
+ *
+ * API_AUTH modes:
+ *   required — every receipt-issuing call needs a key
+ *   optional — anonymous callers may only check/drill PUBLIC_PROTOCOL_ID ← DEFAULT
+ *   off      — no enforcement except admin (local development)
+ *
+ * A key may only issue receipts for its own protocolId; calls that omit
+ * protocolId are attributed to the key's protocol. anchor and admin always
+ * require a key with that scope; admin even with API_AUTH=off, since key
+ * management and the facilitator must never be open.
+ */
+import type { FastifyReply, FastifyRequest, preHandlerAsyncHookHandler } from "fastify";
+import { ANY_PROTOCOL, getApiKeyStore, type ApiKeyRecord, type ApiScope } from "./apiKeys.js";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    apiKey?: ApiKeyRecord;
+  }
+}
+
+export const PUBLIC_PROTOCOL_ID = "demo-protocol";
+
+export type ApiAuthMode = "required" | "optional" | "off";
+
+export function apiAuthMode(): ApiAuthMode {
+  const mode = process.env.API_AUTH ?? "optional";
+  return mode === "required" || mode === "off" ? mode : "optional";
+}
+
+export class ApiKeyError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    public readonly code: string,
+    message: string,
+    public readonly retryAfterSec?: number,
+  ) {
+    super(message);
+    this.name = "ApiKeyError";
+  }
+}
+
+function presentedKey(req: FastifyRequest): string | undefined {
+  const header = req.headers["x-api-key"];
+  if (typeof header === "string" && header) return header.trim();
+  const auth = req.headers.authorization;
+  if (auth?.startsWith("Bearer rf_")) return auth.slice(7).trim();
+  return undefined;
+}
+
+/**
+ * Bucket for the global flood guard: a live key gets its own, anything else
+ * (no key, or an unknown or revoked one) shares its IP's bucket.
+ */
+export function rateLimitBucket(req: FastifyRequest): string {
+  const key    = presentedKey(req);
+  const record = key ? getApiKeyStore().findByKey(key) : null;
+  return record ? `key:${record.id}` : req.ip;
+}
+
+/** Resolves the presented key (null when none was sent) without spending any usage */
+function identify(req: FastifyRequest): ApiKeyRecord | null {
+  const key = presentedKey(req);
+  if (!key) return null;
+  const record = getApiKeyStore().findByKey(key);
+  if (!record) throw new ApiKeyError(401, "invalid_api_key", "API key is unknown or revoked");
+  req.apiKey = record;
+  return record;
+}
+
+/**
+ * Spends one unit of the request's key's rate limit and monthly quota (no-op
+ * for anonymous callers). Sets X-RateLimit-* / X-Quota-Remaining.
+ */
+export function chargeApiKey(req: FastifyRequest, reply: FastifyReply): void {
+  const record = req.apiKey;
+  if (!record) return;
+
+  const usage = getApiKeyStore().consume(record);
+  if (usage.rateLimit > 0) reply.header("X-RateLimit-Limit", usage.rateLimit);
+  if (usage.quotaRemaining !== null) reply.header("X-Quota-Remaining", usage.quotaRemaining);
+  if (!usage.ok) {
+    reply.header("Retry-After", usage.retryAfterSec);
+    throw new ApiKeyError(429, usage.code, usage.code === "rate_limited"
+      ? `Rate limit of ${record.rateLimitPerMin}/min exceeded for key ${record.id}`
+      : `Monthly quota of ${record.monthlyQuota} exhausted for key ${record.id}`, usage.retryAfterSec);
+  }
+  if (usage.rateRemaining >= 0) reply.header("X-RateLimit-Remaining", usage.rateRemaining);
+}
+
+/** protocolId a call is attributed to when the caller did not name one */
+export function defaultProtocolId(key: ApiKeyRecord | null | undefined): string {
+  return key && key.protocolId !== ANY_PROTOCOL ? key.protocolId : PUBLIC_PROTOCOL_ID;
+}
+
+/** Throws ApiKeyError unless `key` (or an anonymous caller) may use `scope` for `protocolId` */
+export function authorize(key: ApiKeyRecord | null | undefined, scope: ApiScope, protocolId?: string): void {
+  const mode = apiAuthMode();
+  if (mode === "off" && scope !== "admin") return;
+
+  if (!key) {
+    if (mode === "required" || scope === "anchor" || scope === "admin") {
+      throw new ApiKeyError(401, "api_key_required", `An API key with scope "${scope}" is required`);
+    }
+    if (protocolId && protocolId !== PUBLIC_PROTOCOL_ID) {
+      throw new ApiKeyError(401, "api_key_required", `Receipts for protocolId "${protocolId}" require that protocol's API key`);
+    }
+    return;
+  }
+
+  if (!key.scopes.includes(scope)) {
+    throw new ApiKeyError(403, "insufficient_scope", `Key ${key.id} lacks scope "${scope}" (has: ${key.scopes.join(", ")})`);
+  }
+  if (protocolId && key.protocolId !== ANY_PROTOCOL && key.protocolId !== protocolId) {
+    throw new ApiKeyError(403, "protocol_mismatch", `Key ${key.id} is bound to protocolId "${key.protocolId}", not "${protocolId}"`);
+  }
+}
+
+export function sendApiKeyError(reply: FastifyReply, e: ApiKeyError) {
+  return reply.status(e.statusCode).send({ error: e.code, message: e.message, retryAfterSec: e.retryAfterSec });
+}
+
+/**
+ * preHandler for REST routes. `protocolOf` names the protocol the call acts
+ * on; by default body.protocolId, filled in from the key when omitted. The
+ * key is charged only once the call is authorized.
+ */
+export function requireScope(
+  scope: ApiScope,
+  protocolOf?: (req: FastifyRequest) => string | undefined,
+): preHandlerAsyncHookHandler {
+  return async function (req, reply) {
+    try {
+      const key  = identify(req);
+      const body = req.body as { protocolId?: string } | undefined;
+      if (!protocolOf && body && typeof body === "object" && !body.protocolId) {
+        body.protocolId = defaultProtocolId(key);
+      }
+      authorize(key, scope, protocolOf ? protocolOf(req) : body?.protocolId);
+      chargeApiKey(req, reply);
+    } catch (e) {
+      if (e instanceof ApiKeyError) return sendApiKeyError(reply, e);
+      throw e;
+    }
+  };
+}
+
+/**
+ * preHandler for JSON-RPC transports (MCP, A2A): resolves the key only.
+ * Billable methods call authorize() and chargeApiKey() themselves, so
+ * handshakes, listings and task polling cost no quota.
+ */
+export const identifyApiKey: preHandlerAsyncHookHandler = async function (req, reply) {
+  try {
+    identify(req);
+  } catch (e) {
+    if (e instanceof ApiKeyError) return sendApiKeyError(reply, e);
+    throw e;
+  }
+};
@@ -0,0 +1,257 @@
+/**
+ * lib/apiKeys.ts — Managed API Keys, Rate Limits and Monthly Quotas
+ * ==================================================================
+ * Each key is bound to one protocolId and carries its own scopes
+ * (check | drill | anchor | admin), per-minute rate limit and monthly
+ * request quota. Only the SHA-256 of a key is stored; the plaintext
+ * ("rf_<id>_<secret>") is returned once, at creation.
+ *
+ * Backends (API_KEY_STORE):
+ *   file   — JSON snapshot at API_KEY_STORE_PATH ← DEFAULT
+ *   memory — process-local, lost on restart
+ *
+ * ADMIN_API_KEY bootstraps an admin key (protocolId "*", all scopes, no
+ * quota) so the first tenant keys can be created over HTTP.
+ *
+ * Rate-limit windows are in memory (reset on restart); quota counters are
+ * persisted with the key, batched: usage is written at most once per
+ * API_KEY_FLUSH_MS (default 5000), when the server closes (SIGINT/SIGTERM,
+ * src/index.ts) and on exit, while creating or revoking a key writes
+ * immediately. A rejected request (rate limit or quota) spends
+ * neither counter.
+ */
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+export const API_SCOPES = ["check", "drill", "anchor", "admin"] as const;
+export type ApiScope = (typeof API_SCOPES)[number];
+
+/** protocolId of a key that may act for every protocol (admin bootstrap) */
+export const ANY_PROTOCOL = "*";
+
+export interface ApiKeyRecord {
+  id:              string;
+  keyHash:         string;   // sha256(plaintext key), hex
+  protocolId:      string;
+  scopes:          ApiScope[];
+  label?:          string;
+  rateLimitPerMin: number;
+  monthlyQuota:    number;   // 0 = unlimited
+  usage:           { period: string; count: number };  // period = "YYYY-MM" (UTC)
+  createdAtIso:    string;
+  lastUsedIso?:    string;
+  revokedAtIso?:   string;
+}
+
+export interface CreateApiKeyInput {
+  protocolId:       string;
+  scopes:           ApiScope[];
+  label?:           string;
+  rateLimitPerMin?: number;
+  monthlyQuota?:    number;
+}
+
+export type ConsumeResult =
+  | { ok: true;  rateLimit: number; rateRemaining: number; quotaRemaining: number | null }
+  | { ok: false; code: "rate_limited" | "quota_exceeded"; retryAfterSec: number; rateLimit: number; quotaRemaining: number | null };
+
+export interface ApiKeyStore {
+  readonly kind: string;
+  create(input: CreateApiKeyInput): { key: string; record: ApiKeyRecord };
+  get(id: string): ApiKeyRecord | null;
+  findByKey(key: string): ApiKeyRecord | null;
+  list(protocolId?: string): ApiKeyRecord[];
+  revoke(id: string): ApiKeyRecord | null;
+  consume(record: ApiKeyRecord, now?: Date): ConsumeResult;
+  /** Writes batched usage counters now */
+  flush(): void;
+}
+
+export const API_KEY_DEFAULTS = {
+  rateLimitPerMin: Number(process.env.API_KEY_DEFAULT_RATE_LIMIT    ?? 60),
+  monthlyQuota:    Number(process.env.API_KEY_DEFAULT_MONTHLY_QUOTA ?? 10_000),
+};
+
+const KEY_RE = /^rf_([0-9a-f]{12})_[0-9a-f]{48}$/;
+
+const FLUSH_MS = Number(process.env.API_KEY_FLUSH_MS ?? 5000);
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function sameHash(a: string, b: string): boolean {
+  return a.length === b.length && timingSafeEqual(Buffer.from(a, "hex"), Buffer.from(b, "hex"));
+}
+
+function billingPeriod(d: Date): string {
+  return d.toISOString().slice(0, 7);
+}
+
+/** Seconds until the first day of next month (UTC) */
+function secondsToNextPeriod(d: Date): number {
+  const next = Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1);
+  return Math.ceil((next - d.getTime()) / 1000);
+}
+
+/** Strips the key hash before a record leaves the gateway */
+export function publicKeyRecord(record: ApiKeyRecord): Omit<ApiKeyRecord, "keyHash"> {
+  const { keyHash: _hash, ...rest } = record;
+  return rest;
+}
+
+function bootstrapAdmin(): ApiKeyRecord | null {
+  const key = process.env.ADMIN_API_KEY;
+  if (!key) return null;
+  return {
+    id:              "env-admin",
+    keyHash:         hashApiKey(key),
+    protocolId:      ANY_PROTOCOL,
+    scopes:          [...API_SCOPES],
+    label:           "ADMIN_API_KEY",
+    rateLimitPerMin: 0,
+    monthlyQuota:    0,
+    usage:           { period: billingPeriod(new Date()), count: 0 },
+    createdAtIso:    new Date(0).toISOString(),
+  };
+}
+
+function createKeyStore(kind: string, initial: Record<string, ApiKeyRecord>, persist: (all: Record<string, ApiKeyRecord>) => void): ApiKeyStore {
+  const records = initial;
+  const admin   = bootstrapAdmin();
+  const windows = new Map<string, { start: number; count: number }>();
+
+  // Usage counters change on every request; write them in batches
+  let pending: NodeJS.Timeout | null = null;
+  const write = () => {
+    if (pending) clearTimeout(pending);
+    pending = null;
+    persist(records);
+  };
+  const persistSoon = () => {
+    if (pending) return;
+    pending = setTimeout(write, FLUSH_MS);
+    pending.unref();
+  };
+  process.once("exit", () => { if (pending) write(); });
+
+  return {
+    kind,
+    create({ protocolId, scopes, label, rateLimitPerMin, monthlyQuota }) {
+      const id     = randomBytes(6).toString("hex");
+      const key    = `rf_${id}_${randomBytes(24).toString("hex")}`;
+      const now    = new Date();
+      const record: ApiKeyRecord = {
+        id,
+        keyHash:         hashApiKey(key),
+        protocolId,
+        scopes:          [...new Set(scopes)],
+        label,
+        rateLimitPerMin: rateLimitPerMin ?? API_KEY_DEFAULTS.rateLimitPerMin,
+        monthlyQuota:    monthlyQuota    ?? API_KEY_DEFAULTS.monthlyQuota,
+        usage:           { period: billingPeriod(now), count: 0 },
+        createdAtIso:    now.toISOString(),
+      };
+      records[id] = record;
+      write();
+      return { key, record };
+    },
+    get: (id) => records[id] ?? (admin?.id === id ? admin : null),
+    findByKey(key) {
+      const hash = hashApiKey(key);
+      if (admin && sameHash(admin.keyHash, hash)) return admin;
+      const id     = key.match(KEY_RE)?.[1];
+      const record = id ? records[id] : undefined;
+      if (!record || record.revokedAtIso || !sameHash(record.keyHash, hash)) return null;
+      return record;
+    },
+    list: (protocolId) => Object.values(records)
+      .filter((r) => !protocolId || r.protocolId === protocolId)
+      .sort((a, b) => b.createdAtIso.localeCompare(a.createdAtIso)),
+    revoke(id) {
+      const record = records[id];
+      if (!record) return null;
+      record.revokedAtIso ??= new Date().toISOString();
+      windows.delete(id);
+      write();
+      return record;
+    },
+    consume(record, now = new Date()) {
+      const t = now.getTime();
+
+      // Fixed one-minute window per key
+      const w      = windows.get(record.id);
+      const window = w && t - w.start < 60_000 ? w : { start: t, count: 0 };
+      if (record.rateLimitPerMin > 0 && window.count >= record.rateLimitPerMin) {
+        return {
+          ok: false, code: "rate_limited", retryAfterSec: Math.ceil((window.start + 60_000 - t) / 1000),
+          rateLimit: record.rateLimitPerMin, quotaRemaining: null,
+        };
+      }
+
+      const period = billingPeriod(now);
+      if (record.usage.period !== period) record.usage = { period, count: 0 };
+      if (record.monthlyQuota > 0 && record.usage.count >= record.monthlyQuota) {
+        return {
+          ok: false, code: "quota_exceeded", retryAfterSec: secondsToNextPeriod(now),
+          rateLimit: record.rateLimitPerMin, quotaRemaining: 0,
+        };
+      }
+
+      // Both limits passed: only now does the request count against either
+      let rateRemaining = Infinity;
+      if (record.rateLimitPerMin > 0) {
+        window.count += 1;
+        windows.set(record.id, window);
+        rateRemaining = record.rateLimitPerMin - window.count;
+      }
+      record.usage.count += 1;
+      record.lastUsedIso  = now.toISOString();
+      if (record !== admin) persistSoon();
+
+      return {
+        ok:             true,
+        rateLimit:      record.rateLimitPerMin,
+        rateRemaining:  Number.isFinite(rateRemaining) ? rateRemaining : -1,
+        quotaRemaining: record.monthlyQuota > 0 ? record.monthlyQuota - record.usage.count : null,
+      };
+    },
+    flush() {
+      if (pending) write();
+    },
+  };
+}
+
+export function createMemoryApiKeyStore(): ApiKeyStore {
+  return createKeyStore("memory", {}, () => {});
+}
+
+export function createFileApiKeyStore(path: string): ApiKeyStore {
+  let initial: Record<string, ApiKeyRecord> = {};
+  if (existsSync(path)) {
+    try {
+      initial = JSON.parse(readFileSync(path, "utf8")) as Record<string, ApiKeyRecord>;
+    } catch {
+      throw new Error(`[ApiKeys] ${path} is corrupt — refusing to start without the key registry`);
+    }
+  }
+  return createKeyStore(`file:${path}`, initial, (all) => writeFileSync(path, JSON.stringify(all), { mode: 0o600 }));
+}
+
+let _store: ApiKeyStore | null = null;
+
+/** Returns the process-wide key store selected by API_KEY_STORE (file by default) */
+export function getApiKeyStore(): ApiKeyStore {
+  if (_store) return _store;
+  _store = process.env.API_KEY_STORE === "memory"
+    ? createMemoryApiKeyStore()
+    : createFileApiKeyStore(process.env.API_KEY_STORE_PATH ?? join(process.cwd(), ".rf-api-keys.json"));
+  console.log(`[ApiKeys] Using ${_store.kind}`);
+  return _store;
+}
+
+/** Writes pending usage counters, if the store was ever opened; called on shutdown */
+export function flushApiKeyUsage(): void {
+  _store?.flush();
+}
@@ -10,26 +10,10 @@
  * Spec: https://www.rfc-editor.org/rfc/rfc8785
  */
 import { createHash } from "node:crypto";
+import { canonicalize } from "@reality-firewall/risk-core";
 
-export function canonicalize(value: unknown): string {
-  if (value === null || value === undefined) return "null";
-  if (typeof value === "boolean") return value ? "true" : "false";
-  if (typeof value === "string") return JSON.stringify(value);
-  if (typeof value === "number") {
-    if (!isFinite(value)) throw new Error(`RFC 8785: non-finite number ${value}`);
-    return Object.is(value, -0) ? "0" : String(value);
-  }
-  if (Array.isArray(value)) return "[" + value.map(canonicalize).join(",") + "]";
-  if (typeof value === "object") {
-    const obj = value as Record<string, unknown>;
-    const keys = Object.keys(obj).sort();
-    const pairs = keys
-      .filter(k => obj[k] !== undefined)
-      .map(k => `${JSON.stringify(k)}:${canonicalize(obj[k])}`);
-    return "{" + pairs.join(",") + "}";
-  }
-  throw new Error(`RFC 8785: unsupported type ${typeof value}`);
-}
+// One RFC 8785 implementation for the whole repo (packages/risk-core)
+export { canonicalize };
 
 /** SHA-256 over RFC 8785 canonical JSON → "0x" + hex (Solidity bytes32 compatible) */
 export function sha256Canonical(value: unknown): string {
@@ -148,7 +148,9 @@ function demoSignals(asset: string): OracleSignals {
     divergencePct:     Math.round(divergencePct * 10_000) / 10_000,
     stalenessSeconds:  (seed % 180) + 10,
     liquidityDepthUsd: 2_000_000 + (seed % 4_000_000),
-    fundingRatePct:    ((seed % 60) - 30) / 10_000,
+    fundingAprPct:     null,
+    oiSkewPct:         null,
+    funding:           { status: "unavailable", reason: "demo", tried: [] },
     blockNumber:       7_000_000 + (seed % 100_000),
     feedAddress:       FEEDS[asset] ?? "0x694AA1769357215DE4FAC081bf1f309aDC325306",
     sourceLabel:       "Demo (configure EVM_RPC_URL para datos reales)",
@@ -175,7 +177,9 @@ export async function getOracleSignals(asset: string): Promise<OracleSignals> {
     divergencePct:     Math.round(divergencePct * 10_000) / 10_000,
     stalenessSeconds:  creData?.stalenessSeconds  ?? feedData?.stalenessSeconds  ?? demo.stalenessSeconds,
     liquidityDepthUsd: creData?.liquidityDepthUsd ?? geckoData?.liquidityUsd     ?? demo.liquidityDepthUsd,
-    fundingRatePct:    demo.fundingRatePct,
+    fundingAprPct:     demo.fundingAprPct,
+    oiSkewPct:         demo.oiSkewPct,
+    funding:           demo.funding,
     blockNumber:       feedData?.blockNumber ?? demo.blockNumber,
     feedAddress:       feedData?.feedAddress ?? FEEDS[asset] ?? demo.feedAddress,
     sourceLabel: creData?.sourceLabel ?? (feedData ? "Chainlink Data Feeds (Sepolia)" : demo.sourceLabel),
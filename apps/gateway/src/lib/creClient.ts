@@ -8,6 +8,27 @@
  *  3. Chainlink Data Feeds Sepolia (JSON-RPC público) ← DEFAULT sin config
  *  4. Demo determinista   — siempre funciona, variación realista por tiempo
  *
+ * DEX side: when the asset has a Uniswap V3 pool (lib/uniswapV3.ts), its
+ * slot0 spot replaces the aggregator price and the TWAPs ride along as
+ * `dexPool`, so divergence is measured against the manipulable venue.
+ *
+ * PRICE_SOURCE_MODE:
+ *   aggregate — query every source in parallel; oracle = median of oracle
+ *               quotes, DEX = the Uniswap pool when it answered (never
+ *               filtered), else the median of market quotes that survive
+ *               MAD outlier rejection (lib/priceAggregate.ts) ← DEFAULT
+ *   cascade   — first source in the order above that answers
+ * Either way `signals.sources` carries the full per-source matrix.
+ *
+ * Funding and open-interest skew come from lib/fundingSources.ts, never
+ * from the price sources; `signals.funding` says "unavailable" when no
+ * perp venue answered.
+ *
+ * Liquidity depth comes from the asset's AMM state (lib/liquidityDepth.ts):
+ * when a Uniswap V3 pool or V2 pair is readable, its cost-to-move curve
+ * replaces the sources' volume-based liquidityDepthUsd; otherwise the
+ * estimate is carried as a linear curve so drills can price shocks either way.
+ *
  * Data Feed addresses (Sepolia testnet, AggregatorV3Interface, 8 decimales):
  *   ETH/USD  0x694AA1769357215DE4FAC081bf1f309aDC325306
  *   BTC/USD  0x1b44F3514812d835EB1BDB0acB33d3fA3351Ee43
@@ -17,7 +38,22 @@
  * Docs: https://docs.chain.link/data-feeds/price-feeds/addresses?network=ethereum&page=1#sepolia-testnet
  */
 import { createHmac, createHash } from "node:crypto";
-import type { OracleSignals } from "./types.js";
+import { VOLUME_DEPTH_FACTOR } from "@reality-firewall/risk-core";
+import { fundingFields, getFunding } from "./fundingSources.js";
+import { fetchDepthCurve, withDepth } from "./liquidityDepth.js";
+import { aggregatePrices, marketPrice, medianOf, type SourceQuote } from "./priceAggregate.js";
+import { fetchPoolPrice } from "./uniswapV3.js";
+import type { OracleSignals, PoolPrice } from "./types.js";
+
+/** What a source adapter returns: partial signals plus the raw quotes behind them */
+type SourceResult = Partial<Omit<OracleSignals, "funding">> & { quotes: SourceQuote[] };
+
+/** Placeholder until getSignals attaches the funding source's reading */
+function noFunding(): Pick<OracleSignals, "fundingAprPct" | "oiSkewPct" | "funding"> {
+  return { fundingAprPct: null, oiSkewPct: null, funding: { status: "unavailable", reason: "not fetched", tried: [] } };
+}
+
+const PRICE_SOURCE_MODE = process.env.PRICE_SOURCE_MODE === "cascade" ? "cascade" : "aggregate";
 
 const FEEDS: Record<string, { address: string; coingeckoId: string; basePrice: number }> = {
   WETH: { address: "0x694AA1769357215DE4FAC081bf1f309aDC325306", coingeckoId: "ethereum",  basePrice: 2820  },
@@ -28,7 +64,7 @@ const FEEDS: Record<string, { address: string; coingeckoId: string; basePrice: n
 };
 
 // ── Level 1: CRE DON Workflow via HTTP trigger ─────────────────────────────────
-async function fromCREWorkflow(asset: string): Promise<Partial<OracleSignals> | null> {
+async function fromCREWorkflow(asset: string): Promise<SourceResult | null> {
   const url = process.env.CRE_WORKFLOW_URL;
   if (!url) return null;
   try {
@@ -40,16 +76,21 @@ async function fromCREWorkflow(asset: string): Promise<Partial<OracleSignals> |
     });
     if (!res.ok) throw new Error(`CRE HTTP ${res.status}`);
     const d = await res.json() as Record<string, unknown>;
+    const feedAddress = String(d.feedAddress ?? FEEDS[asset]?.address ?? "");
     return {
       oraclePrice:       Number(d.oraclePrice),
       dexPrice:          Number(d.dexPrice),
       divergencePct:     Number(d.divergencePct),
       stalenessSeconds:  Number(d.staleness ?? d.stalenessSeconds ?? 15),
       liquidityDepthUsd: Number(d.liquidityUsd ?? d.liquidityDepthUsd ?? 4_000_000),
-      feedAddress:       String(d.feedAddress ?? FEEDS[asset]?.address ?? ""),
+      feedAddress,
       creWorkflowId:     String(d.workflowId ?? ""),
       creEvidenceHash:   String(d.evidenceHash ?? ""),
       sourceLabel:       "Chainlink CRE DON (BFT consensus)",
+      quotes: [
+        { source: "cre-don",     kind: "oracle", price: Number(d.oraclePrice), detail: feedAddress },
+        { source: "cre-don:dex", kind: "market", price: Number(d.dexPrice) },
+      ],
     };
   } catch (e) {
     console.warn("[CRE DON] Failed:", String(e));
@@ -58,7 +99,7 @@ async function fromCREWorkflow(asset: string): Promise<Partial<OracleSignals> |
 }
 
 // ── Level 2: Chainlink Data Streams API ───────────────────────────────────────
-async function fromDataStreams(asset: string): Promise<Partial<OracleSignals> | null> {
+async function fromDataStreams(asset: string): Promise<SourceResult | null> {
   const apiKey    = process.env.CHAINLINK_STREAMS_API_KEY;
   const apiSecret = process.env.CHAINLINK_STREAMS_API_SECRET;
   const base      = process.env.CHAINLINK_STREAMS_URL ?? "https://api.testnet-dataengine.chain.link";
@@ -91,9 +132,12 @@ async function fromDataStreams(asset: string): Promise<Partial<OracleSignals> |
       divergencePct:     Math.abs(price - bid) / price * 100,
       stalenessSeconds:  staleness,
       liquidityDepthUsd: 5_000_000,
-      fundingRatePct:    0,
       sourceLabel:       "Chainlink Data Streams API",
       creEvidenceHash:   "0x" + rHash,
+      quotes: [
+        { source: "chainlink-data-streams",     kind: "oracle", price, detail: feedId },
+        { source: "chainlink-data-streams:bid", kind: "market", price: bid, detail: feedId },
+      ],
     };
   } catch (e) {
     console.warn("[Data Streams] Failed:", String(e));
@@ -101,8 +145,27 @@ async function fromDataStreams(asset: string): Promise<Partial<OracleSignals> |
   }
 }
 
+// ── Market: CoinGecko public API (no key needed) ──────────────────────────────
+async function fromCoinGecko(asset: string): Promise<{ price: number; liquidityDepthUsd: number } | null> {
+  const feed = FEEDS[asset];
+  if (!feed) return null;
+  try {
+    const gr = await fetch(
+      `https://api.coingecko.com/api/v3/simple/price?ids=${feed.coingeckoId}&vs_currencies=usd&include_24hr_vol=true`,
+      { signal: AbortSignal.timeout(4000) }
+    );
+    if (!gr.ok) return null;
+    const gd = await gr.json() as Record<string, { usd?: number; usd_24h_vol?: number }>;
+    const price = gd[feed.coingeckoId]?.usd;
+    if (price === undefined) return null;
+    return { price, liquidityDepthUsd: (gd[feed.coingeckoId]?.usd_24h_vol ?? 30_000_000) * VOLUME_DEPTH_FACTOR };
+  } catch {
+    return null;
+  }
+}
+
 // ── Level 3: Chainlink Data Feeds Sepolia via public JSON-RPC ─────────────────
-async function fromDataFeeds(asset: string): Promise<Partial<OracleSignals> | null> {
+async function fromDataFeeds(asset: string, market = fromCoinGecko(asset)): Promise<SourceResult | null> {
   const feed = FEEDS[asset];
   if (!feed) return null;
   const rpc = process.env.EVM_RPC_URL ?? "https://ethereum-sepolia-rpc.publicnode.com";
@@ -128,20 +191,10 @@ async function fromDataFeeds(asset: string): Promise<Partial<OracleSignals> | nu
     const price     = Number(answer) / 1e8;
     const staleness = Math.floor(Date.now() / 1000) - updatedAt;
 
-    // Fetch DEX price from CoinGecko public API (no key needed)
-    let dexPrice = price;
-    let liquidityDepthUsd = 4_000_000;
-    try {
-      const gr = await fetch(
-        `https://api.coingecko.com/api/v3/simple/price?ids=${feed.coingeckoId}&vs_currencies=usd&include_24hr_vol=true`,
-        { signal: AbortSignal.timeout(4000) }
-      );
-      if (gr.ok) {
-        const gd = await gr.json() as Record<string, { usd?: number; usd_24h_vol?: number }>;
-        dexPrice          = gd[feed.coingeckoId]?.usd ?? price;
-        liquidityDepthUsd = (gd[feed.coingeckoId]?.usd_24h_vol ?? 30_000_000) * 0.12;
-      }
-    } catch { /* use oracle price as DEX fallback */ }
+    // DEX price from CoinGecko (oracle price as DEX fallback)
+    const gecko             = await market;
+    const dexPrice          = gecko?.price ?? price;
+    const liquidityDepthUsd = gecko?.liquidityDepthUsd ?? 4_000_000;
 
     // Get current block number
     let blockNumber = 0;
@@ -161,10 +214,13 @@ async function fromDataFeeds(asset: string): Promise<Partial<OracleSignals> | nu
       divergencePct:     Math.abs(price - dexPrice) / price * 100,
       stalenessSeconds:  Math.max(0, staleness),
       liquidityDepthUsd: Math.round(liquidityDepthUsd),
-      fundingRatePct:    ((updatedAt % 1000) - 500) / 1_000_000,
       blockNumber,
       feedAddress:       feed.address,
       sourceLabel:       `Chainlink Data Feeds Sepolia (${feed.address.slice(0, 10)}…)`,
+      quotes: [
+        { source: "chainlink-data-feeds", kind: "oracle", price, detail: feed.address },
+        ...(gecko ? [{ source: "coingecko", kind: "market" as const, price: gecko.price, detail: feed.coingeckoId }] : []),
+      ],
     };
   } catch (e) {
     console.warn("[Data Feeds] Failed:", String(e));
@@ -191,7 +247,7 @@ function demoSignals(asset: string, drillMode = false): OracleSignals {
     divergencePct:     Math.abs(divPct * 100),
     stalenessSeconds:  staleness,
     liquidityDepthUsd: liquidity,
-    fundingRatePct:    ((seed % 30) - 15) / 10_000,
+    ...noFunding(),
     blockNumber:       7_100_000 + (seed % 100_000),
     feedAddress:       feed.address,
     sourceLabel:       "Demo Mode (set EVM_RPC_URL for real Chainlink data)",
@@ -199,11 +255,16 @@ function demoSignals(asset: string, drillMode = false): OracleSignals {
   };
 }
 
-/** Main export: returns signals from best available source */
-export async function getSignals(asset: string, drillMode = false): Promise<OracleSignals> {
-  const partial = await fromCREWorkflow(asset)
-    ?? await fromDataStreams(asset)
-    ?? await fromDataFeeds(asset);
+function poolQuote(pool: PoolPrice | null): SourceQuote[] {
+  return pool ? [{ source: "uniswap-v3", kind: "market", price: pool.spot, detail: pool.pool, onchain: true }] : [];
+}
+
+/** First source in the cascade that answers, merged with demo values for missing fields */
+async function cascadeSignals(asset: string, drillMode: boolean): Promise<OracleSignals> {
+  const [partial, pool] = await Promise.all([
+    (async () => await fromCREWorkflow(asset) ?? await fromDataStreams(asset) ?? await fromDataFeeds(asset))(),
+    fetchPoolPrice(asset),
+  ]);
 
   const demo = demoSignals(asset, drillMode);
 
@@ -213,20 +274,75 @@ export async function getSignals(asset: string, drillMode = false): Promise<Orac
   const merged: OracleSignals = {
     asset,
     oraclePrice:       partial.oraclePrice       ?? demo.oraclePrice,
-    dexPrice:          partial.dexPrice           ?? demo.dexPrice,
-    divergencePct:     partial.divergencePct      ?? Math.abs((partial.oraclePrice ?? demo.oraclePrice) - (partial.dexPrice ?? demo.dexPrice)) / (partial.oraclePrice ?? demo.oraclePrice) * 100,
+    dexPrice:          pool?.spot ?? partial.dexPrice ?? demo.dexPrice,
+    divergencePct:     0,
     stalenessSeconds:  partial.stalenessSeconds   ?? demo.stalenessSeconds,
     liquidityDepthUsd: partial.liquidityDepthUsd  ?? demo.liquidityDepthUsd,
-    fundingRatePct:    partial.fundingRatePct     ?? demo.fundingRatePct,
+    ...noFunding(),
     blockNumber:       partial.blockNumber        ?? demo.blockNumber,
     feedAddress:       partial.feedAddress        ?? demo.feedAddress,
-    sourceLabel:       partial.sourceLabel        ?? demo.sourceLabel,
+    sourceLabel:       (partial.sourceLabel ?? demo.sourceLabel) + (pool ? ` + Uniswap V3 ${pool.pool.slice(0, 10)}…` : ""),
+    sources:           aggregatePrices([...partial.quotes, ...poolQuote(pool)], "cascade") ?? undefined,
+    dexPool:           pool ?? undefined,
     creWorkflowId:     partial.creWorkflowId,
     creEvidenceHash:   partial.creEvidenceHash,
     timestamp:         Math.floor(Date.now() / 1000),
   };
 
-  merged.divergencePct = Math.round(Math.abs(merged.oraclePrice - merged.dexPrice) / merged.oraclePrice * 10_000) / 10_000;
+  merged.divergencePct = Math.round(Math.abs(merged.oraclePrice - merged.dexPrice) / merged.oraclePrice * 100 * 10_000) / 10_000;
 
   return merged;
 }
+
+/** Every source in parallel; median oracle vs the pool, or the median of the market quotes that survive MAD rejection */
+async function aggregateSignals(asset: string, drillMode: boolean): Promise<OracleSignals> {
+  const market = fromCoinGecko(asset);
+  const [cre, streams, feeds, gecko, pool] = await Promise.all([
+    fromCREWorkflow(asset), fromDataStreams(asset), fromDataFeeds(asset, market), market, fetchPoolPrice(asset),
+  ]);
+
+  const demo     = demoSignals(asset, drillMode);
+  const partials = [cre, streams, feeds].filter((p): p is SourceResult => p !== null);
+  const quotes   = new Map<string, SourceQuote>();
+  for (const q of [...partials.flatMap((p) => p.quotes), ...poolQuote(pool)]) quotes.set(q.source, q);
+  if (gecko && !quotes.has("coingecko")) {
+    quotes.set("coingecko", { source: "coingecko", kind: "market", price: gecko.price, detail: FEEDS[asset]?.coingeckoId });
+  }
+
+  const sources     = aggregatePrices([...quotes.values()]);
+  const oraclePrice = sources && medianOf(sources.sources, "oracle");
+  if (!sources || oraclePrice === null) return demo;
+
+  // Non-price fields come from the highest-priority source that has them
+  const pick = <K extends keyof SourceResult>(k: K): SourceResult[K] | undefined =>
+    partials.find((p) => p[k] !== undefined)?.[k];
+
+  const dexPrice = marketPrice(sources.sources, oraclePrice) ?? sources.referencePrice;
+  return {
+    asset,
+    oraclePrice,
+    dexPrice,
+    divergencePct:     Math.round(Math.abs(oraclePrice - dexPrice) / oraclePrice * 100 * 10_000) / 10_000,
+    stalenessSeconds:  pick("stalenessSeconds")  ?? demo.stalenessSeconds,
+    liquidityDepthUsd: pick("liquidityDepthUsd") ?? (gecko ? Math.round(gecko.liquidityDepthUsd) : demo.liquidityDepthUsd),
+    ...noFunding(),
+    blockNumber:       pick("blockNumber")       ?? demo.blockNumber,
+    feedAddress:       pick("feedAddress")       ?? demo.feedAddress,
+    sourceLabel:       `Median of ${sources.sources.length} sources (${sources.rejected} rejected)`,
+    sources,
+    dexPool:           pool ?? undefined,
+    creWorkflowId:     cre?.creWorkflowId,
+    creEvidenceHash:   cre?.creEvidenceHash ?? streams?.creEvidenceHash,
+    timestamp:         Math.floor(Date.now() / 1000),
+  };
+}
+
+/** Main export: signals from every source (aggregate) or the best available one (cascade), plus funding and depth */
+export async function getSignals(asset: string, drillMode = false): Promise<OracleSignals> {
+  const [signals, funding, curve] = await Promise.all([
+    PRICE_SOURCE_MODE === "cascade" ? cascadeSignals(asset, drillMode) : aggregateSignals(asset, drillMode),
+    getFunding(asset),
+    fetchDepthCurve(asset),
+  ]);
+  return withDepth({ ...signals, ...fundingFields(funding), funding }, curve);
+}
@@ -39,9 +39,9 @@ export function buildAgentCard(gatewayUrl = "https://reality-firewall.io"): Agen
     name:        "Reality Firewall Risk Agent v3",
     description: "Autonomous DeFi oracle risk monitoring agent. Detects oracle divergence attacks, stale feeds, and thin liquidity exploits. Issues cryptographically signed Defense Receipts verified via Chainlink CRE. Accepts x402 micropayments (USDC/Base Sepolia). ERC-8004 compliant identity and reputation.",
     services:    [
-      { name: "A2A",    endpoint: `${gatewayUrl}/.well-known/agent.json`,  version: "0.3.0"      },
-      { name: "MCP",    endpoint: `${gatewayUrl}/mcp`,                     version: "2025-06-18"  },
-      { name: "OpenAPI",endpoint: `${gatewayUrl}/docs`,                    version: "3.0"         },
+      { name: "A2A",    endpoint: `${gatewayUrl}/.well-known/agent-card.json`, version: "0.3.0"       },
+      { name: "MCP",    endpoint: `${gatewayUrl}/mcp`,                         version: "2025-06-18"  },
+      { name: "OpenAPI",endpoint: `${gatewayUrl}/docs`,                        version: "3.0"         },
     ],
     capabilities:   ["oracle-risk-analysis", "cre-workflow-execution", "x402-payments", "defi-circuit-breaker", "defense-receipts", "onchain-anchoring"],
     supportedTrust: ["reputation", "crypto-economic", "erc-8004"],
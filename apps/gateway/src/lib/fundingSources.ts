@@ -0,0 +1,205 @@
+/**
+ * lib/fundingSources.ts — Perpetual Funding & Open-Interest Sources
+ * ===================================================================
+ * Funding and open-interest skew feed the funding factors of the score.
+ * Sources are pluggable; FUNDING_SOURCES lists them in the order tried
+ * (default "binance,hyperliquid"):
+ *
+ *   binance     — fapi premiumIndex (8h funding), openInterest, top-trader
+ *                 long/short position ratio (skew)
+ *   hyperliquid — info metaAndAssetCtxs (hourly funding, open interest; no skew)
+ *   fixture     — FUNDING_FIXTURE_PATH (default config/funding-fixture.json),
+ *                 a local stand-in for offline development and demos
+ *
+ * Funding is annualised: APR % = rate per interval × (24 / intervalHours) × 365.
+ * OI skew % = (long OI − short OI) / total OI × 100.
+ *
+ * When no source answers the signal is { status: "unavailable" } and the
+ * scored fields are null — the funding factors then score 0 rather than a
+ * made-up value. Readings are cached for FUNDING_CACHE_SEC (default 60).
+ */
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+export interface FundingReading {
+  symbol:          string;
+  fundingRatePct:  number;          // per funding interval
+  intervalHours:   number;
+  openInterestUsd: number | null;
+  oiSkewPct:       number | null;
+  observedAt:      number;          // unix seconds
+}
+
+export type FundingSignal =
+  | ({ status: "available"; source: string; fundingAprPct: number } & FundingReading)
+  | { status: "unavailable"; reason: string; tried: string[] };
+
+export interface FundingSource {
+  readonly name: string;
+  /** null when the venue does not list the asset; throws on transport errors */
+  fetch(asset: string): Promise<FundingReading | null>;
+}
+
+/** Perp symbol per collateral asset (stablecoins have no perp) */
+const PERP_SYMBOLS: Record<string, string> = { WETH: "ETH", WBTC: "BTC", LINK: "LINK", ARB: "ARB" };
+
+const CACHE_SEC = Number(process.env.FUNDING_CACHE_SEC ?? 60);
+
+function round(n: number, dp: number): number {
+  const f = 10 ** dp;
+  return Math.round(n * f) / f;
+}
+
+export function annualisedPct(fundingRatePct: number, intervalHours: number): number {
+  return round(fundingRatePct * (24 / intervalHours) * 365, 4);
+}
+
+export function skewPct(longOi: number, shortOi: number): number | null {
+  const total = longOi + shortOi;
+  return total > 0 ? round((longOi - shortOi) / total * 100, 4) : null;
+}
+
+async function getJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { ...init, signal: AbortSignal.timeout(4000) });
+  if (!res.ok) throw new Error(`HTTP ${res.status} from ${url}`);
+  return await res.json() as T;
+}
+
+export function createBinanceFundingSource(base = process.env.BINANCE_FAPI_URL ?? "https://fapi.binance.com"): FundingSource {
+  return {
+    name: "binance",
+    async fetch(asset) {
+      const perp = PERP_SYMBOLS[asset.toUpperCase()];
+      if (!perp) return null;
+      const symbol = `${perp}USDT`;
+      const [premium, oi, ratio] = await Promise.all([
+        getJson<{ lastFundingRate: string; markPrice: string; time: number }>(`${base}/fapi/v1/premiumIndex?symbol=${symbol}`),
+        getJson<{ openInterest: string }>(`${base}/fapi/v1/openInterest?symbol=${symbol}`).catch(() => null),
+        getJson<Array<{ longAccount: string; shortAccount: string }>>(`${base}/futures/data/topLongShortPositionRatio?symbol=${symbol}&period=5m&limit=1`).catch(() => null),
+      ]);
+      const mark = Number(premium.markPrice);
+      return {
+        symbol,
+        fundingRatePct:  round(Number(premium.lastFundingRate) * 100, 6),
+        intervalHours:   8,
+        openInterestUsd: oi ? Math.round(Number(oi.openInterest) * mark) : null,
+        oiSkewPct:       ratio?.[0] ? skewPct(Number(ratio[0].longAccount), Number(ratio[0].shortAccount)) : null,
+        observedAt:      Math.floor(premium.time / 1000),
+      };
+    },
+  };
+}
+
+export function createHyperliquidFundingSource(url = process.env.HYPERLIQUID_INFO_URL ?? "https://api.hyperliquid.xyz/info"): FundingSource {
+  return {
+    name: "hyperliquid",
+    async fetch(asset) {
+      const perp = PERP_SYMBOLS[asset.toUpperCase()];
+      if (!perp) return null;
+      const [meta, ctxs] = await getJson<[{ universe: Array<{ name: string }> }, Array<{ funding: string; openInterest: string; markPx: string }>]>(url, {
+        method:  "POST",
+        headers: { "Content-Type": "application/json" },
+        body:    JSON.stringify({ type: "metaAndAssetCtxs" }),
+      });
+      const i = meta.universe.findIndex((u) => u.name === perp);
+      if (i < 0 || !ctxs[i]) return null;
+      return {
+        symbol:          perp,
+        fundingRatePct:  round(Number(ctxs[i].funding) * 100, 6),
+        intervalHours:   1,
+        openInterestUsd: Math.round(Number(ctxs[i].openInterest) * Number(ctxs[i].markPx)),
+        oiSkewPct:       null,
+        observedAt:      Math.floor(Date.now() / 1000),
+      };
+    },
+  };
+}
+
+interface FixtureEntry { fundingRatePct: number; intervalHours?: number; longOiUsd?: number; shortOiUsd?: number; }
+
+export function createFixtureFundingSource(path = process.env.FUNDING_FIXTURE_PATH ?? join(process.cwd(), "config/funding-fixture.json")): FundingSource {
+  return {
+    name: "fixture",
+    async fetch(asset) {
+      if (!existsSync(path)) return null;
+      const entry = (JSON.parse(readFileSync(path, "utf8")) as Record<string, FixtureEntry>)[asset.toUpperCase()];
+      if (!entry) return null;
+      const long  = entry.longOiUsd  ?? 0;
+      const short = entry.shortOiUsd ?? 0;
+      return {
+        symbol:          `${asset.toUpperCase()}-FIXTURE`,
+        fundingRatePct:  entry.fundingRatePct,
+        intervalHours:   entry.intervalHours ?? 8,
+        openInterestUsd: long + short || null,
+        oiSkewPct:       skewPct(long, short),
+        observedAt:      Math.floor(Date.now() / 1000),
+      };
+    },
+  };
+}
+
+const FACTORIES: Record<string, () => FundingSource> = {
+  binance:     () => createBinanceFundingSource(),
+  hyperliquid: () => createHyperliquidFundingSource(),
+  fixture:     () => createFixtureFundingSource(),
+};
+
+function configuredSources(): FundingSource[] {
+  const names = (process.env.FUNDING_SOURCES ?? "binance,hyperliquid").split(",").map((n) => n.trim()).filter(Boolean);
+  return names.flatMap((n) => {
+    if (n === "none") return [];
+    if (!FACTORIES[n]) {
+      console.warn(`[Funding] Unknown source "${n}" in FUNDING_SOURCES — ignored`);
+      return [];
+    }
+    return [FACTORIES[n]()];
+  });
+}
+
+let _sources: FundingSource[] | null = null;
+const _cache = new Map<string, { at: number; signal: FundingSignal }>();
+
+/** Replaces the configured chain (e.g. a custom venue adapter) */
+export function setFundingSources(sources: FundingSource[]): void {
+  _sources = sources;
+  _cache.clear();
+}
+
+/** First source in the chain that has the asset, annualised; "unavailable" when none does */
+export async function getFunding(asset: string): Promise<FundingSignal> {
+  const key    = asset.toUpperCase();
+  const now    = Date.now();
+  const cached = _cache.get(key);
+  if (cached && now - cached.at < CACHE_SEC * 1000) return cached.signal;
+
+  const sources = (_sources ??= configuredSources());
+  const tried: string[] = [];
+  const failed: string[] = [];
+  let signal: FundingSignal | null = null;
+  for (const source of sources) {
+    tried.push(source.name);
+    try {
+      const reading = await source.fetch(key);
+      if (!reading || !Number.isFinite(reading.fundingRatePct)) continue;
+      signal = { status: "available", source: source.name, fundingAprPct: annualisedPct(reading.fundingRatePct, reading.intervalHours), ...reading };
+      break;
+    } catch (e) {
+      failed.push(source.name);
+      console.warn(`[Funding] ${source.name} failed for ${key}:`, String(e));
+    }
+  }
+  signal ??= {
+    status: "unavailable",
+    reason: !sources.length ? "no funding source configured"
+          : failed.length   ? `source error: ${failed.join(", ")}`
+          : `no funding source lists ${key}`,
+    tried,
+  };
+  _cache.set(key, { at: now, signal });
+  return signal;
+}
+
+/** The scored fields for a funding signal — null when unavailable */
+export function fundingFields(f: FundingSignal): { fundingAprPct: number | null; oiSkewPct: number | null } {
+  return f.status === "available" ? { fundingAprPct: f.fundingAprPct, oiSkewPct: f.oiSkewPct } : { fundingAprPct: null, oiSkewPct: null };
+}
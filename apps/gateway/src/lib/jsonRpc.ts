@@ -0,0 +1,67 @@
+/**
+ * lib/jsonRpc.ts — JSON-RPC 2.0 envelope helpers
+ * ================================================
+ * Shared by the MCP server (/mcp) and the A2A handler. Spec:
+ * https://www.jsonrpc.org/specification
+ */
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?:     JsonRpcId;
+  method:  string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcError { code: number; message: string; data?: unknown; }
+
+export type JsonRpcResponse =
+  | { jsonrpc: "2.0"; id: JsonRpcId; result: unknown }
+  | { jsonrpc: "2.0"; id: JsonRpcId; error: JsonRpcError };
+
+export const RPC_ERRORS = {
+  PARSE_ERROR:      -32700,
+  INVALID_REQUEST:  -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS:   -32602,
+  INTERNAL_ERROR:   -32603,
+} as const;
+
+/** Error thrown by method handlers; carries a JSON-RPC code */
+export class JsonRpcMethodError extends Error {
+  constructor(readonly code: number, message: string, readonly data?: unknown) {
+    super(message);
+    this.name = "JsonRpcMethodError";
+  }
+}
+
+export function isJsonRpcRequest(body: unknown): body is JsonRpcRequest {
+  const b = body as JsonRpcRequest | null;
+  return !!b && typeof b === "object" && b.jsonrpc === "2.0" && typeof b.method === "string";
+}
+
+export function rpcResult(id: JsonRpcId, result: unknown): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, result };
+}
+
+export function rpcError(id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, error: { code, message, ...(data !== undefined ? { data } : {}) } };
+}
+
+/** Runs a handler and maps thrown errors (incl. zod validation) to JSON-RPC errors */
+export async function dispatch(
+  req: JsonRpcRequest,
+  handler: (method: string, params: Record<string, unknown>) => Promise<unknown>,
+): Promise<JsonRpcResponse> {
+  const id = req.id ?? null;
+  try {
+    return rpcResult(id, await handler(req.method, req.params ?? {}));
+  } catch (e) {
+    if (e instanceof JsonRpcMethodError) return rpcError(id, e.code, e.message, e.data);
+    if ((e as { name?: string })?.name === "ZodError") {
+      return rpcError(id, RPC_ERRORS.INVALID_PARAMS, "Invalid params", (e as { issues?: unknown }).issues);
+    }
+    return rpcError(id, RPC_ERRORS.INTERNAL_ERROR, String(e));
+  }
+}
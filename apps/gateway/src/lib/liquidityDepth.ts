@@ -0,0 +1,147 @@
+/**
+ * lib/liquidityDepth.ts — Price-impact Depth from AMM State
+ * ===========================================================
+ * Builds a "cost to move the price by X%" curve for an asset (risk-core
+ * depth.ts) from, in order of preference:
+ *
+ *   1. its Uniswap V3 pool — slot0, liquidity(), tickSpacing(), the
+ *      tickBitmap words covering the largest move and ticks() of every
+ *      initialized tick in them, read in JSON-RPC batches
+ *   2. its Uniswap V2 pair — getReserves()
+ *   3. null — callers fall back to estimatedDepthCurve(liquidityDepthUsd)
+ *
+ * Config:
+ *   UNISWAP_V2_PAIRS  JSON { "WETH": { address, chainId, token0Decimals,
+ *                     token1Decimals, baseIsToken0, quote }, … } merged over the defaults
+ *   DEPTH_MAX_TICKS   initialized ticks read per pool (default 400, nearest first)
+ *   DEPTH_DEADLINE_MS budget for every read of one asset (default 4000); when
+ *                     it runs out the curve is null and callers use the estimate
+ *   DEPTH_CACHE_SEC   curve cache per asset (default 30)
+ *
+ * Drills scale the curve by the drained share of liquidity and price their
+ * shock against it (drillDepth).
+ */
+import {
+  DEFAULT_DEPTH_MOVES_PCT, DEFAULT_UNISWAP_V2_PAIRS, GET_RESERVES_SELECTOR, LIQUIDITY_SELECTOR, SLOT0_SELECTOR,
+  TICK_SPACING_SELECTOR, costToMove, decodeInt, decodeReserves, decodeSlot0, decodeTickLiquidityNet, decodeUint,
+  encodeTickBitmap, encodeTicks, estimatedDepthCurve, initializedTicks, scaleDepthCurve, tickWordPosition,
+  v2DepthCurve, v3DepthCurve,
+  type DepthCurve, type UniswapV2Pair, type UniswapV3Pool,
+} from "@reality-firewall/risk-core";
+import { ethCall, ethCallBatch, poolFor } from "./uniswapV3.js";
+import type { OracleSignals } from "./types.js";
+
+/** A depth curve plus what a drill did to it */
+export interface LiquidityDepth extends DepthCurve {
+  drainedPct?: number;                            // drill liquidityDropPct applied to every point
+  shock?:      { movePct: number; costUsd: number };  // capital to push the drill's shock through the pool
+}
+
+const MAX_TICKS   = Number(process.env.DEPTH_MAX_TICKS ?? 400);
+const DEADLINE_MS = Number(process.env.DEPTH_DEADLINE_MS ?? 4000);
+const CACHE_SEC = Number(process.env.DEPTH_CACHE_SEC ?? 30);
+
+function configuredPairs(): Record<string, UniswapV2Pair> {
+  const raw = process.env.UNISWAP_V2_PAIRS;
+  if (!raw) return DEFAULT_UNISWAP_V2_PAIRS;
+  try {
+    return { ...DEFAULT_UNISWAP_V2_PAIRS, ...(JSON.parse(raw) as Record<string, UniswapV2Pair>) };
+  } catch {
+    console.warn("[Depth] UNISWAP_V2_PAIRS is not valid JSON — using default pairs");
+    return DEFAULT_UNISWAP_V2_PAIRS;
+  }
+}
+
+const PAIRS  = configuredPairs();
+const _cache = new Map<string, { at: number; curve: DepthCurve | null }>();
+
+/** Ticks either side of the current one that the largest move can reach */
+function tickRange(): number {
+  const maxMove = Math.max(...DEFAULT_DEPTH_MOVES_PCT) / 100;
+  return Math.ceil(Math.log(1 / (1 - maxMove)) / Math.log(1.0001));
+}
+
+async function readV3Depth(pool: UniswapV3Pool, deadline: AbortSignal): Promise<DepthCurve> {
+  const [slot0Hex, liquidityHex, spacingHex] = await ethCallBatch([
+    { to: pool.address, data: SLOT0_SELECTOR },
+    { to: pool.address, data: LIQUIDITY_SELECTOR },
+    { to: pool.address, data: TICK_SPACING_SELECTOR },
+  ], undefined, deadline);
+  if (!slot0Hex || !liquidityHex || !spacingHex) throw new Error("slot0/liquidity/tickSpacing read failed");
+  const slot0   = decodeSlot0(slot0Hex);
+  const spacing = Number(decodeInt(spacingHex));
+
+  const range = tickRange();
+  const words: number[] = [];
+  for (let w = tickWordPosition(slot0.tick - range, spacing); w <= tickWordPosition(slot0.tick + range, spacing); w++) words.push(w);
+  const bitmaps = await ethCallBatch(words.map((w) => ({ to: pool.address, data: encodeTickBitmap(w) })), undefined, deadline);
+
+  const candidates = words
+    .flatMap((w, i) => bitmaps[i] ? initializedTicks(w, decodeUint(bitmaps[i]!), spacing) : [])
+    .filter((t) => Math.abs(t - slot0.tick) <= range)
+    .sort((a, b) => Math.abs(a - slot0.tick) - Math.abs(b - slot0.tick))
+    .slice(0, MAX_TICKS);
+  const nets = await ethCallBatch(candidates.map((t) => ({ to: pool.address, data: encodeTicks(t) })), undefined, deadline);
+
+  return v3DepthCurve(pool, {
+    sqrtPriceX96: slot0.sqrtPriceX96,
+    tick:         slot0.tick,
+    liquidity:    decodeUint(liquidityHex),
+    ticks:        candidates.flatMap((tick, i) => nets[i] ? [{ tick, liquidityNet: decodeTickLiquidityNet(nets[i]!) }] : []),
+  });
+}
+
+async function readV2Depth(pair: UniswapV2Pair, deadline: AbortSignal): Promise<DepthCurve> {
+  return v2DepthCurve(pair, decodeReserves(await ethCall(pair.address, GET_RESERVES_SELECTOR, undefined, deadline)));
+}
+
+/** On-chain depth curve for the asset, or null when it has no readable pool/pair */
+export async function fetchDepthCurve(asset: string): Promise<DepthCurve | null> {
+  const key    = asset.toUpperCase();
+  const cached = _cache.get(key);
+  if (cached && Date.now() - cached.at < CACHE_SEC * 1000) return cached.curve;
+
+  // One budget for the pool and the pair together: a slow RPC costs the
+  // estimated curve, not a stalled receipt
+  const deadline = AbortSignal.timeout(DEADLINE_MS);
+  let curve: DepthCurve | null = null;
+  const pool = poolFor(key);
+  if (pool) {
+    try {
+      curve = await readV3Depth(pool, deadline);
+    } catch (e) {
+      console.warn(`[Depth] V3 ${key} ${pool.address} unavailable:`, String(e));
+    }
+  }
+  const pair = PAIRS[key];
+  if (!curve && pair) {
+    try {
+      curve = await readV2Depth(pair, deadline);
+    } catch (e) {
+      console.warn(`[Depth] V2 ${key} ${pair.address} unavailable:`, String(e));
+    }
+  }
+  _cache.set(key, { at: Date.now(), curve });
+  return curve;
+}
+
+/** Attaches the asset's curve; on-chain depth replaces the source's liquidityDepthUsd */
+export function withDepth(signals: OracleSignals, curve: DepthCurve | null): OracleSignals {
+  const depth = curve ?? estimatedDepthCurve(signals.liquidityDepthUsd);
+  return { ...signals, liquidityDepthUsd: depth.depthUsd, depth };
+}
+
+/**
+ * Drill view of the depth: every cost × (1 − liquidityDropPct/100), the
+ * scored liquidity taken from the drained curve, and the capital needed to
+ * push the drill's shock through what is left.
+ */
+export function drillDepth(signals: OracleSignals, opts: { liquidityDropPct?: number; shockPct?: number }): OracleSignals {
+  const base = signals.depth ?? estimatedDepthCurve(signals.liquidityDepthUsd);
+  const drop = opts.liquidityDropPct ?? 0;
+  const depth: LiquidityDepth = drop > 0 ? { ...scaleDepthCurve(base, 1 - drop / 100), drainedPct: drop } : { ...base };
+  if (opts.shockPct) {
+    depth.shock = { movePct: opts.shockPct, costUsd: costToMove(depth, opts.shockPct) };
+  }
+  return { ...signals, liquidityDepthUsd: depth.depthUsd, depth };
+}
@@ -0,0 +1,125 @@
+/**
+ * lib/paymentLedger.ts — Consumed x402 Payment Ledger
+ * =====================================================
+ * Replay protection for /drill: each verified payment buys
+ * floor(amount / priceAtomic) drill units, and each drill redeems one.
+ * Once a payment's units are spent, the same paymentTxHash is rejected.
+ * Settlement tx hashes of x402 "exact" payments are indexed too, so the
+ * transfer the gateway submitted cannot be redeemed a second time as a
+ * paymentTxHash. A payment redeemed by an API key stays bound to that key.
+ *
+ * Backends (PAYMENT_LEDGER):
+ *   file   — JSON snapshot at PAYMENT_LEDGER_PATH ← DEFAULT
+ *   memory — process-local, lost on restart
+ *
+ * Redemption is synchronous so two concurrent drills that verified the
+ * same payment cannot both spend its last unit. A drill that fails before
+ * its receipt is issued refunds the unit it redeemed.
+ */
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+export interface PaymentEntry {
+  paymentId:     string;   // lowercased tx hash (or authorization nonce)
+  payer:         string;
+  amount:        string;
+  unitsTotal:    number;
+  unitsUsed:     number;
+  settlementTx?: string;   // set when the gateway settled the payment itself (x402 "exact")
+  apiKeyId?:     string;   // key that first redeemed it; later units need the same key
+  runIds:        string[];
+  firstSeenIso:  string;
+  lastUsedIso:   string;
+}
+
+export type RedeemResult =
+  | { ok: true;  entry: PaymentEntry; remainingUnits: number }
+  | { ok: false; reason: string; entry?: PaymentEntry };
+
+export interface PaymentLedger {
+  readonly kind: string;
+  get(paymentId: string): PaymentEntry | null;
+  /** The "exact" payment a gateway-submitted settlement tx belongs to */
+  getBySettlementTx(txHash: string): PaymentEntry | null;
+  redeem(p: { paymentId: string; payer: string; amount: string; units: number; settlementTx?: string; apiKeyId?: string }): RedeemResult;
+  refund(paymentId: string): void;
+  attachRun(paymentId: string, runId: string): void;
+}
+
+function createLedger(kind: string, initial: Record<string, PaymentEntry>, persist: (all: Record<string, PaymentEntry>) => void): PaymentLedger {
+  const entries      = initial;
+  const bySettlement = new Map<string, string>();   // settlement tx hash → paymentId
+  for (const e of Object.values(entries)) if (e.settlementTx) bySettlement.set(e.settlementTx.toLowerCase(), e.paymentId);
+
+  return {
+    kind,
+    get: (id) => entries[id.toLowerCase()] ?? null,
+    getBySettlementTx(txHash) {
+      const id = bySettlement.get(txHash.toLowerCase());
+      return id ? entries[id] ?? null : null;
+    },
+    redeem({ paymentId, payer, amount, units, settlementTx, apiKeyId }) {
+      const id  = paymentId.toLowerCase();
+      const now = new Date().toISOString();
+      const existing = entries[id];
+      if (existing && existing.payer.toLowerCase() !== payer.toLowerCase()) {
+        return { ok: false, reason: "payer_mismatch", entry: existing };
+      }
+      if (existing?.apiKeyId && existing.apiKeyId !== apiKeyId) {
+        return { ok: false, reason: "api_key_mismatch", entry: existing };
+      }
+      const entry: PaymentEntry = existing ?? {
+        paymentId: id, payer, amount, unitsTotal: units, unitsUsed: 0, settlementTx, apiKeyId, runIds: [], firstSeenIso: now, lastUsedIso: now,
+      };
+      if (settlementTx) bySettlement.set(settlementTx.toLowerCase(), id);
+      if (entry.unitsUsed >= entry.unitsTotal) {
+        return { ok: false, reason: `payment_already_consumed:${entry.unitsUsed}/${entry.unitsTotal}`, entry };
+      }
+      entry.unitsUsed  += 1;
+      entry.lastUsedIso = now;
+      entries[id] = entry;
+      persist(entries);
+      return { ok: true, entry, remainingUnits: entry.unitsTotal - entry.unitsUsed };
+    },
+    refund(paymentId) {
+      const entry = entries[paymentId.toLowerCase()];
+      if (!entry || entry.unitsUsed === 0) return;
+      entry.unitsUsed -= 1;
+      persist(entries);
+    },
+    attachRun(paymentId, runId) {
+      const entry = entries[paymentId.toLowerCase()];
+      if (!entry) return;
+      entry.runIds.push(runId);
+      persist(entries);
+    },
+  };
+}
+
+export function createMemoryPaymentLedger(): PaymentLedger {
+  return createLedger("memory", {}, () => {});
+}
+
+export function createFilePaymentLedger(path: string): PaymentLedger {
+  let initial: Record<string, PaymentEntry> = {};
+  if (existsSync(path)) {
+    try {
+      initial = JSON.parse(readFileSync(path, "utf8")) as Record<string, PaymentEntry>;
+    } catch {
+      throw new Error(`[PaymentLedger] ${path} is corrupt — refusing to start with an empty ledger (replay risk)`);
+    }
+  }
+  return createLedger(`file:${path}`, initial, (all) => writeFileSync(path, JSON.stringify(all), { mode: 0o600 }));
+}
+
+let _ledger: PaymentLedger | null = null;
+
+/** Returns the process-wide ledger selected by PAYMENT_LEDGER (file by default) */
+export function getPaymentLedger(): PaymentLedger {
+  if (_ledger) return _ledger;
+  _ledger = process.env.PAYMENT_LEDGER === "memory"
+    ? createMemoryPaymentLedger()
+    : createFilePaymentLedger(process.env.PAYMENT_LEDGER_PATH ?? join(process.cwd(), ".rf-payments.json"));
+  console.log(`[PaymentLedger] Using ${_ledger.kind}`);
+  return _ledger;
+}
@@ -0,0 +1,113 @@
+/**
+ * lib/priceAggregate.ts — Multi-source Price Aggregation
+ * ========================================================
+ * Combines quotes from every source that answered into one reference price:
+ *
+ *   reference = median(all quotes)
+ *   MAD       = median(|pᵢ − reference|)
+ *   robust z  = 0.6745 · |pᵢ − reference| / MAD      (Iglewicz–Hoaglin)
+ *   outlier   = robust z > PRICE_OUTLIER_Z            (default 3.5)
+ *
+ * The reference is then re-taken over the accepted quotes. Outliers need at
+ * least three quotes to be called, and MAD is floored at PRICE_MAD_FLOOR_PCT
+ * of the reference (default 0.05%) so a handful of identical quotes does not
+ * turn a one-cent difference into an outlier.
+ *
+ * Oracle quotes are what the protocol consumes, so the oracle side of the
+ * divergence is never filtered: an outlying oracle is flagged in the matrix
+ * and still scored. The same holds for on-chain venues (an AMM pool the
+ * attacker can move): a manipulated pool is exactly what the MAD would
+ * reject, so the market side is the on-chain quote furthest from the
+ * oracle when one answered, and the median of accepted quotes otherwise.
+ */
+
+export type PriceSourceKind = "oracle" | "market";
+
+export interface SourceQuote {
+  source: string;          // e.g. "chainlink-data-feeds", "uniswap-v3", "coingecko"
+  kind:   PriceSourceKind;
+  price:  number;
+  detail?: string;         // feed / pool address, stream id …
+  onchain?: boolean;       // manipulable venue: flagged like any quote, never dropped from scoring
+}
+
+export interface SourceReading extends SourceQuote {
+  deviationPct: number;    // signed, vs the final reference
+  robustZ:      number;
+  outlier:      boolean;
+}
+
+export interface PriceAggregate {
+  mode:            "aggregate" | "cascade";
+  referencePrice:  number;
+  madPct:          number;   // MAD as % of the reference, after flooring
+  sources:         SourceReading[];
+  accepted:        number;
+  rejected:        number;
+  agreementPct:    number;   // share of sources accepted
+  maxDeviationPct: number;   // largest |deviation| among accepted sources
+}
+
+const OUTLIER_Z     = Number(process.env.PRICE_OUTLIER_Z     ?? 3.5);
+const MAD_FLOOR_PCT = Number(process.env.PRICE_MAD_FLOOR_PCT ?? 0.05);
+const MIN_FOR_OUTLIERS = 3;
+
+function round(n: number, dp: number): number {
+  const f = 10 ** dp;
+  return Math.round(n * f) / f;
+}
+
+export function median(values: number[]): number {
+  const s = [...values].sort((a, b) => a - b);
+  const m = Math.floor(s.length / 2);
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+}
+
+/** Median of the given kind's quotes, or null when there are none */
+export function medianOf(readings: SourceReading[], kind: PriceSourceKind, acceptedOnly = false): number | null {
+  const prices = readings.filter((r) => r.kind === kind && (!acceptedOnly || !r.outlier)).map((r) => r.price);
+  return prices.length ? median(prices) : null;
+}
+
+/**
+ * Price the divergence is scored against: the on-chain market quote furthest
+ * from `oraclePrice`, else the median of accepted market quotes (null if none)
+ */
+export function marketPrice(readings: SourceReading[], oraclePrice: number): number | null {
+  const onchain = readings.filter((r) => r.kind === "market" && r.onchain);
+  if (!onchain.length) return medianOf(readings, "market", true);
+  return onchain.reduce((worst, r) => Math.abs(r.price - oraclePrice) > Math.abs(worst.price - oraclePrice) ? r : worst).price;
+}
+
+/** Reference price, MAD outlier flags and per-source deviation; null for no usable quotes */
+export function aggregatePrices(quotes: SourceQuote[], mode: PriceAggregate["mode"] = "aggregate"): PriceAggregate | null {
+  const usable = quotes.filter((q) => Number.isFinite(q.price) && q.price > 0);
+  if (!usable.length) return null;
+
+  const first = median(usable.map((q) => q.price));
+  const mad   = Math.max(median(usable.map((q) => Math.abs(q.price - first))), first * MAD_FLOOR_PCT / 100);
+  const z     = (p: number) => 0.6745 * Math.abs(p - first) / mad;
+  const flag  = (p: number) => usable.length >= MIN_FOR_OUTLIERS && z(p) > OUTLIER_Z;
+
+  const kept      = usable.filter((q) => !flag(q.price));
+  const reference = median(kept.map((q) => q.price));
+
+  const sources: SourceReading[] = usable.map((q) => ({
+    ...q,
+    deviationPct: round((q.price - reference) / reference * 100, 4),
+    robustZ:      round(z(q.price), 2),
+    outlier:      flag(q.price),
+  }));
+  const accepted = sources.filter((s) => !s.outlier);
+
+  return {
+    mode,
+    referencePrice:  round(reference, 6),
+    madPct:          round(mad / reference * 100, 4),
+    sources,
+    accepted:        accepted.length,
+    rejected:        sources.length - accepted.length,
+    agreementPct:    round(accepted.length / sources.length * 100, 2),
+    maxDeviationPct: round(Math.max(...accepted.map((s) => Math.abs(s.deviationPct))), 4),
+  };
+}
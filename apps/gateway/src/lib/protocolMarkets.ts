@@ -0,0 +1,76 @@
+/**
+ * lib/protocolMarkets.ts — Lending-Market Config per Protocol
+ * =============================================================
+ * The market parameters attack economics (risk-core attackEconomics.ts)
+ * needs, from PROTOCOL_MARKETS_PATH (default config/protocol-markets.json):
+ *
+ *   { "markets": [
+ *       { "protocolId": "demo-protocol", "asset": "WETH", "borrowableUsd": 25000000, "ltvPct": 80 },
+ *       { "asset": "LINK", "borrowableUsd": 4000000, "ltvPct": 65, "swapFeePct": 0.3 }
+ *   ] }
+ *
+ * An entry without `protocolId` applies to every protocol listing the asset;
+ * protocol + asset wins over asset alone. With no entry the receipt carries
+ * no attack breakdown. The file is watched; an invalid edit is logged and
+ * the previous markets stay active.
+ */
+import { existsSync, readFileSync, watchFile } from "node:fs";
+import { join } from "node:path";
+import { z } from "zod";
+
+const PROTOCOL_MARKETS_PATH = process.env.PROTOCOL_MARKETS_PATH ?? join(process.cwd(), "config", "protocol-markets.json");
+
+const marketSchema = z.object({
+  protocolId:    z.string().min(1).optional(),
+  asset:         z.string().toUpperCase(),
+  borrowableUsd: z.number().min(0),
+  ltvPct:        z.number().gt(0).max(100),
+  swapFeePct:    z.number().min(0).max(10).optional(),   // manipulated venue's fee, % (default 0.3)
+  guardMarket:   z.string().regex(/^0x[0-9a-fA-F]{40}$/).optional(),   // PolicyGuard market address (forked drills)
+});
+
+const marketFileSchema = z.object({
+  markets: z.array(marketSchema),
+});
+
+export type ProtocolMarket = z.infer<typeof marketSchema>;
+
+let _markets: ProtocolMarket[] | null = null;
+
+function parseMarketFile(raw: string): ProtocolMarket[] {
+  return marketFileSchema.parse(JSON.parse(raw)).markets;
+}
+
+function loadMarkets(): ProtocolMarket[] {
+  if (_markets) return _markets;
+  if (!existsSync(PROTOCOL_MARKETS_PATH)) {
+    _markets = [];
+    return _markets;
+  }
+  try {
+    _markets = parseMarketFile(readFileSync(PROTOCOL_MARKETS_PATH, "utf8"));
+  } catch (e) {
+    console.error(`[Markets] ${PROTOCOL_MARKETS_PATH} is invalid — attack economics disabled: ${String(e)}`);
+    _markets = [];
+  }
+
+  watchFile(PROTOCOL_MARKETS_PATH, { interval: 2000, persistent: false }, (curr, prev) => {
+    if (curr.mtimeMs === prev.mtimeMs) return;
+    try {
+      _markets = parseMarketFile(readFileSync(PROTOCOL_MARKETS_PATH, "utf8"));
+      console.log(`[Markets] Reloaded ${_markets.length} markets from ${PROTOCOL_MARKETS_PATH}`);
+    } catch (e) {
+      console.error(`[Markets] Reload rejected, keeping previous markets: ${String(e)}`);
+    }
+  });
+  return _markets;
+}
+
+/** The market `protocolId` runs for `asset`, or null when none is configured */
+export function marketFor(asset: string, protocolId?: string): ProtocolMarket | null {
+  const a = asset.toUpperCase();
+  const markets = loadMarkets().filter((m) => m.asset === a);
+  return markets.find((m) => protocolId && m.protocolId === protocolId)
+      ?? markets.find((m) => !m.protocolId)
+      ?? null;
+}
@@ -0,0 +1,112 @@
+/**
+ * lib/receiptSignature.ts — Versioned Defense Receipt Signatures
+ * ================================================================
+ * Receipts are signed over RFC 8785 canonical JSON, so any JSON tool can
+ * re-serialize a receipt without breaking verification. The signature is
+ * an envelope that names everything a verifier needs:
+ *
+ *   signature: { v: 1, alg: "Ed25519", kid, canonicalization: "RFC8785", sig }
+ *
+ *   signing input = canonicalize({ protected: { v, alg, kid, canonicalization },
+ *                                  payload:   receipt − signature − anchor* })
+ *
+ * `kid` is the RFC 7638 JWK thumbprint of the agent's Ed25519 key. Anchoring
+ * metadata (anchorTxHash, anchorNetwork, anchorExplorer) is attached after
+ * issuance and therefore excluded from the signed payload.
+ *
+ * Legacy receipts (signature = hex string over JSON.stringify) still verify.
+ *
+ * Verification resolves `kid` in the keyring (lib/signingKeys.ts) so receipts
+ * signed by a since-rotated key still verify, and ones claiming issuance
+ * after their key was retired or revoked do not. An envelope whose kid this
+ * gateway never held is invalid ("unknown_kid"); only legacy receipts, which
+ * carry no kid, are checked against their embedded agentPublicKey and
+ * reported with keyStatus "unknown".
+ */
+import { signPayload, verifyLegacySignature, verifySignature } from "./anchorClient.js";
+import { findSigningKey, keyId, keyStatus, keyValidAt, type SigningKeyStatus } from "./signingKeys.js";
+import type { DefenseReceipt, ReceiptSignature } from "./types.js";
+
+export const RECEIPT_SIGNATURE_VERSION = 1;
+
+/** Added to a receipt after it is signed */
+const UNSIGNED_FIELDS = ["signature", "anchorTxHash", "anchorNetwork", "anchorExplorer"] as const;
+
+export type UnsignedReceipt = Omit<DefenseReceipt, (typeof UNSIGNED_FIELDS)[number]>;
+
+export interface ReceiptVerification {
+  valid:             boolean;
+  format:            "envelope-v1" | "legacy";
+  alg:               "Ed25519";
+  kid?:              string;
+  canonicalization?: "RFC8785" | "none";
+  keyStatus:         SigningKeyStatus | "unknown";
+  reason?:           string;
+}
+
+/** The fields covered by the signature */
+export function signedView(receipt: UnsignedReceipt | DefenseReceipt): UnsignedReceipt {
+  const view = { ...receipt } as Record<string, unknown>;
+  for (const f of UNSIGNED_FIELDS) delete view[f];
+  return view as UnsignedReceipt;
+}
+
+function envelopeHeader(kid: string): Omit<ReceiptSignature, "sig"> {
+  return { v: RECEIPT_SIGNATURE_VERSION, alg: "Ed25519", kid, canonicalization: "RFC8785" };
+}
+
+/** Signs a receipt with the keyring key matching receipt.agentPublicKey and returns the v1 envelope */
+export function signReceipt(receipt: UnsignedReceipt): ReceiptSignature {
+  const kid = keyId(receipt.agentPublicKey);
+  const key = findSigningKey(kid);
+  if (!key) throw new Error(`[ReceiptSignature] agentPublicKey ${kid} is not in the keyring`);
+  const header = envelopeHeader(kid);
+  const { signature } = signPayload({ protected: header, payload: signedView(receipt) }, key);
+  return { ...header, sig: signature };
+}
+
+/** Keyring public key for `kid`, checked against issuance date; falls back to the embedded key (status "unknown") */
+function resolveKey(receipt: DefenseReceipt, kid: string): { publicKeyHex: string; status: SigningKeyStatus | "unknown"; reason?: string } {
+  const key = findSigningKey(kid);
+  if (!key) return { publicKeyHex: receipt.agentPublicKey, status: "unknown" };
+  const status = keyStatus(key);
+  if (key.publicKeyHex !== receipt.agentPublicKey.toLowerCase()) return { publicKeyHex: key.publicKeyHex, status, reason: "agent_key_mismatch" };
+  if (!keyValidAt(key, receipt.createdAtIso)) {
+    return { publicKeyHex: key.publicKeyHex, status, reason: key.revokedAtIso ? "key_revoked" : "issued_after_key_retired" };
+  }
+  return { publicKeyHex: key.publicKeyHex, status };
+}
+
+/** Verifies either signature format; key status comes from the keyring */
+export function verifyReceipt(receipt: DefenseReceipt): ReceiptVerification {
+  const { signature, agentPublicKey } = receipt;
+
+  if (typeof signature === "string") {
+    // Legacy: JSON.stringify in issuance order; anchor fields were appended later
+    const resolved = resolveKey(receipt, keyId(agentPublicKey));
+    const { signature: _sig, ...unsigned } = receipt;
+    const valid = !resolved.reason && (
+      verifyLegacySignature(unsigned, signature, resolved.publicKeyHex)
+      || verifyLegacySignature(signedView(receipt), signature, resolved.publicKeyHex));
+    return { valid, format: "legacy", alg: "Ed25519", canonicalization: "none", keyStatus: resolved.status, reason: resolved.reason };
+  }
+
+  const fail = (reason: string, status: SigningKeyStatus | "unknown" = "unknown"): ReceiptVerification => ({
+    valid: false, format: "envelope-v1", alg: "Ed25519", kid: signature?.kid, canonicalization: signature?.canonicalization, keyStatus: status, reason,
+  });
+  if (!signature || typeof signature !== "object")         return fail("malformed_signature");
+  if (signature.v !== RECEIPT_SIGNATURE_VERSION)            return fail(`unsupported_version:${signature.v}`);
+  if (signature.alg !== "Ed25519")                          return fail(`unsupported_alg:${signature.alg}`);
+  if (signature.canonicalization !== "RFC8785")             return fail(`unsupported_canonicalization:${signature.canonicalization}`);
+  if (signature.kid !== keyId(agentPublicKey))              return fail("kid_mismatch");
+
+  const resolved = resolveKey(receipt, signature.kid);
+  if (resolved.status === "unknown") return fail("unknown_kid");
+  if (resolved.reason) return fail(resolved.reason, resolved.status);
+
+  const header = envelopeHeader(signature.kid);
+  const valid  = verifySignature({ protected: header, payload: signedView(receipt) }, signature.sig, resolved.publicKeyHex);
+  return valid
+    ? { valid, format: "envelope-v1", alg: "Ed25519", kid: signature.kid, canonicalization: "RFC8785", keyStatus: resolved.status }
+    : fail("bad_signature", resolved.status);
+}
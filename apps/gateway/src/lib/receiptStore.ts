@@ -0,0 +1,171 @@
+/**
+ * lib/receiptStore.ts — Persistent Defense Receipt Store
+ * ========================================================
+ * Every receipt issued by /check and /drill is kept here so auditors can
+ * pull it weeks later by evidenceHash or runId without the original HTTP
+ * response.
+ *
+ * Backends (RECEIPT_STORE):
+ *   file   — append-only JSONL at RECEIPT_STORE_PATH ← DEFAULT
+ *   memory — process-local, lost on restart (tests / demos)
+ *
+ * The file backend replays the log on first access; later writes for the
+ * same evidenceHash (e.g. anchoring metadata) supersede earlier lines.
+ */
+import { appendFileSync, existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { DefenseReceipt, RiskLevel } from "./types.js";
+
+export interface ReceiptQuery {
+  protocolId?: string;
+  asset?:      string;
+  mode?:       DefenseReceipt["mode"];
+  level?:      RiskLevel;
+  limit?:      number;
+  offset?:     number;
+}
+
+export interface ReceiptPage {
+  items:  DefenseReceipt[];
+  total:  number;
+  limit:  number;
+  offset: number;
+}
+
+export interface ReceiptStore {
+  readonly kind: string;
+  put(receipt: DefenseReceipt): void;
+  getByEvidenceHash(evidenceHash: string): DefenseReceipt | null;
+  getByRunId(runId: string): DefenseReceipt | null;
+  update(evidenceHash: string, patch: Partial<DefenseReceipt>): DefenseReceipt | null;
+  list(query?: ReceiptQuery): ReceiptPage;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT     = 100;
+
+function matches(r: DefenseReceipt, q: ReceiptQuery): boolean {
+  if (q.protocolId && r.protocolId !== q.protocolId)                        return false;
+  if (q.asset && r.result.asset.toUpperCase() !== q.asset.toUpperCase())    return false;
+  if (q.mode && r.mode !== q.mode)                                          return false;
+  if (q.level !== undefined && r.result.level !== q.level)                  return false;
+  return true;
+}
+
+/** In-memory index shared by both backends — newest receipts first in listings */
+function createIndex() {
+  const byHash  = new Map<string, DefenseReceipt>();
+  const byRunId = new Map<string, string>();
+
+  return {
+    set(receipt: DefenseReceipt) {
+      const key = receipt.result.evidenceHash.toLowerCase();
+      byHash.delete(key); // re-insert so Map order tracks last write
+      byHash.set(key, receipt);
+      byRunId.set(receipt.runId, key);
+    },
+    getByEvidenceHash(evidenceHash: string) {
+      return byHash.get(evidenceHash.toLowerCase()) ?? null;
+    },
+    getByRunId(runId: string) {
+      const key = byRunId.get(runId);
+      return key ? byHash.get(key) ?? null : null;
+    },
+    list(query: ReceiptQuery = {}): ReceiptPage {
+      const limit  = Math.min(MAX_LIMIT, Math.max(1, query.limit ?? DEFAULT_LIMIT));
+      const offset = Math.max(0, query.offset ?? 0);
+      const all    = [...byHash.values()]
+        .filter((r) => matches(r, query))
+        .sort((a, b) => b.createdAtIso.localeCompare(a.createdAtIso));
+      return { items: all.slice(offset, offset + limit), total: all.length, limit, offset };
+    },
+  };
+}
+
+export function createMemoryReceiptStore(): ReceiptStore {
+  const index = createIndex();
+  return {
+    kind: "memory",
+    put: (receipt) => index.set(receipt),
+    getByEvidenceHash: (h) => index.getByEvidenceHash(h),
+    getByRunId: (id) => index.getByRunId(id),
+    update(evidenceHash, patch) {
+      const current = index.getByEvidenceHash(evidenceHash);
+      if (!current) return null;
+      const next = { ...current, ...patch };
+      index.set(next);
+      return next;
+    },
+    list: (q) => index.list(q),
+  };
+}
+
+export function createFileReceiptStore(path: string): ReceiptStore {
+  const index = createIndex();
+  let loaded  = false;
+
+  const load = () => {
+    if (loaded) return;
+    loaded = true;
+    if (!existsSync(path)) return;
+    for (const line of readFileSync(path, "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        index.set(JSON.parse(line) as DefenseReceipt);
+      } catch {
+        console.warn(`[ReceiptStore] Skipping corrupt line in ${path}`);
+      }
+    }
+  };
+
+  const append = (receipt: DefenseReceipt) => {
+    appendFileSync(path, JSON.stringify(receipt) + "\n", { mode: 0o600 });
+    index.set(receipt);
+  };
+
+  return {
+    kind: `file:${path}`,
+    put(receipt) {
+      load();
+      append(receipt);
+    },
+    getByEvidenceHash(h) {
+      load();
+      return index.getByEvidenceHash(h);
+    },
+    getByRunId(id) {
+      load();
+      return index.getByRunId(id);
+    },
+    update(evidenceHash, patch) {
+      load();
+      const current = index.getByEvidenceHash(evidenceHash);
+      if (!current) return null;
+      const next = { ...current, ...patch };
+      append(next);
+      return next;
+    },
+    list(q) {
+      load();
+      return index.list(q);
+    },
+  };
+}
+
+let _store: ReceiptStore | null = null;
+
+/** Returns the process-wide store selected by RECEIPT_STORE (file by default) */
+export function getReceiptStore(): ReceiptStore {
+  if (_store) return _store;
+  const backend = process.env.RECEIPT_STORE ?? "file";
+  _store = backend === "memory"
+    ? createMemoryReceiptStore()
+    : createFileReceiptStore(process.env.RECEIPT_STORE_PATH ?? join(process.cwd(), ".rf-receipts.jsonl"));
+  console.log(`[ReceiptStore] Using ${_store.kind}`);
+  return _store;
+}
+
+/** Replaces the process-wide store (custom backends, e.g. SQLite or Postgres) */
+export function setReceiptStore(store: ReceiptStore): void {
+  _store = store;
+}
@@ -0,0 +1,108 @@
+/**
+ * lib/reconcile.ts — Off-chain ↔ On-chain Receipt Reconciliation
+ * ================================================================
+ * Reads ReceiptRegistry.getReceipt(bytes32) via eth_call and compares the
+ * immutable on-chain record with a Defense Receipt's contents.
+ *
+ *   anchored      — record exists and every field matches
+ *   not_anchored  — no record for this evidenceHash (timestamp == 0)
+ *   mismatch      — record exists but at least one field differs
+ *
+ * Requires: RECEIPT_REGISTRY_ADDRESS (+ ANCHOR_RPC_URL, defaults to Sepolia)
+ */
+import { Contract, JsonRpcProvider, getAddress, isAddress } from "ethers";
+import { RECEIPT_REGISTRY_ABI, anchorAgentAddress, runIdHash } from "./anchorClient.js";
+import type { DefenseReceipt } from "./types.js";
+
+export interface OnchainReceipt {
+  evidenceHash: string;
+  runIdHash:    string;
+  agentId:      string;
+  score:        number;
+  level:        number;
+  isDrill:      boolean;
+  timestamp:    number;
+}
+
+export type ReconcileStatus = "anchored" | "not_anchored" | "mismatch";
+
+export interface FieldDiff {
+  field:    "score" | "level" | "isDrill" | "runIdHash" | "agentId";
+  offchain: string | number | boolean;
+  onchain:  string | number | boolean;
+  match:    boolean;
+}
+
+export interface ReconcileResult {
+  status:       ReconcileStatus;
+  evidenceHash: string;
+  registry:     string;
+  onchain:      OnchainReceipt | null;
+  diff:         FieldDiff[];
+}
+
+export function registryConfigured(): boolean {
+  return !!process.env.RECEIPT_REGISTRY_ADDRESS;
+}
+
+/** eth_call ReceiptRegistry.getReceipt — null when nothing is anchored under the hash */
+export async function readOnchainReceipt(evidenceHash: string): Promise<OnchainReceipt | null> {
+  const registryAddress = process.env.RECEIPT_REGISTRY_ADDRESS;
+  if (!registryAddress) throw new Error("RECEIPT_REGISTRY_ADDRESS not configured");
+  const rpcUrl   = process.env.ANCHOR_RPC_URL ?? "https://ethereum-sepolia-rpc.publicnode.com";
+  const registry = new Contract(registryAddress, RECEIPT_REGISTRY_ABI, new JsonRpcProvider(rpcUrl));
+
+  const r = await registry.getReceipt(evidenceHash) as {
+    evidenceHash: string; runIdHash: string; agentId: string;
+    score: bigint; level: bigint; isDrill: boolean; timestamp: bigint;
+  };
+  if (r.timestamp === 0n) return null;
+  return {
+    evidenceHash: r.evidenceHash,
+    runIdHash:    r.runIdHash,
+    agentId:      getAddress(r.agentId),
+    score:        Number(r.score),
+    level:        Number(r.level),
+    isDrill:      r.isDrill,
+    timestamp:    Number(r.timestamp),
+  };
+}
+
+/** Agent address the receipt should have been anchored under */
+function expectedAgentAddress(receipt: DefenseReceipt): string {
+  return getAddress(isAddress(receipt.agentId) ? receipt.agentId : anchorAgentAddress());
+}
+
+export function diffReceipt(receipt: DefenseReceipt, onchain: OnchainReceipt): FieldDiff[] {
+  const pairs: Array<[FieldDiff["field"], string | number | boolean, string | number | boolean]> = [
+    ["score",     receipt.result.score,             onchain.score],
+    ["level",     receipt.result.level,             onchain.level],
+    ["isDrill",   receipt.mode === "drill",         onchain.isDrill],
+    ["runIdHash", runIdHash(receipt.runId),         onchain.runIdHash],
+    ["agentId",   expectedAgentAddress(receipt),    onchain.agentId],
+  ];
+  return pairs.map(([field, offchain, on]) => ({
+    field,
+    offchain,
+    onchain: on,
+    match:   typeof offchain === "string"
+      ? offchain.toLowerCase() === String(on).toLowerCase()
+      : offchain === on,
+  }));
+}
+
+export async function reconcileReceipt(receipt: DefenseReceipt): Promise<ReconcileResult> {
+  const evidenceHash = receipt.result.evidenceHash;
+  const onchain      = await readOnchainReceipt(evidenceHash);
+  const registry     = process.env.RECEIPT_REGISTRY_ADDRESS ?? "";
+  if (!onchain) return { status: "not_anchored", evidenceHash, registry, onchain: null, diff: [] };
+
+  const diff = diffReceipt(receipt, onchain);
+  return {
+    status: diff.every((d) => d.match) ? "anchored" : "mismatch",
+    evidenceHash,
+    registry,
+    onchain,
+    diff,
+  };
+}
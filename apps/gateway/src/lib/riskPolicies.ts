@@ -0,0 +1,193 @@
+/**
+ * lib/riskPolicies.ts — Per-Asset / Per-Protocol Risk Policies
+ * ==============================================================
+ * Loads versioned RiskPolicy overrides (packages/risk-core/src/policy.ts)
+ * from RISK_POLICY_PATH (default config/risk-policies.json):
+ *
+ *   { "policies": [
+ *       { "id": "stablecoin", "version": 1, "assets": ["USDC"],
+ *         "bands": { "divergencePct": [{ "threshold": 0.5, "points": 25 }, …] } },
+ *       { "id": "acme-conservative", "version": 3, "protocolIds": ["acme"], "levels": [10, 30, 50, 70] }
+ *   ] }
+ *
+ * Omitted sections are taken from DEFAULT_POLICY. A policy with neither
+ * `assets` nor `protocolIds` replaces the default. Resolution picks the most
+ * specific match: asset + protocol → protocol → asset → default.
+ *
+ * The file is watched and re-validated on change; an invalid edit is logged
+ * and the previous policies stay active. Every policy ever loaded is kept
+ * by hash so receipts can be audited against the exact rules they used.
+ */
+import { existsSync, readFileSync, watchFile } from "node:fs";
+import { join } from "node:path";
+import { z } from "zod";
+import { DEFAULT_POLICY, policyRef, type PolicyRef, type RiskPolicy } from "@reality-firewall/risk-core";
+
+const RISK_POLICY_PATH = process.env.RISK_POLICY_PATH ?? join(process.cwd(), "config", "risk-policies.json");
+
+const bandsSchema = z.array(z.object({
+  threshold: z.number().min(0),
+  points:    z.number().min(0).max(100),
+})).max(10);
+
+const levelSchema = z.number().int().min(0).max(4);
+
+const policySchema = z.object({
+  id:          z.string().regex(/^[a-z0-9][a-z0-9._-]{0,63}$/),
+  version:     z.number().int().min(1),
+  description: z.string().max(200).optional(),
+  assets:      z.array(z.string().toUpperCase()).min(1).optional(),
+  protocolIds: z.array(z.string().min(1)).min(1).optional(),
+  bands: z.object({
+    divergencePct:     bandsSchema,
+    stalenessSeconds:  bandsSchema,
+    liquidityDepthUsd: bandsSchema,
+    fundingAprPct:     bandsSchema,
+    oiSkewPct:         bandsSchema,
+  }).partial().optional(),
+  trend: z.object({
+    minSamples:              z.number().int().min(2),
+    divergenceZScore:        bandsSchema,
+    divergenceRocPctPerMin:  bandsSchema,
+    liquidityDrainPctPerMin: bandsSchema,
+    maxPoints:               z.number().min(0).max(100),
+  }).partial().optional(),
+  weights: z.object({
+    divergence: z.number().min(0).max(5),
+    staleness:  z.number().min(0).max(5),
+    liquidity:  z.number().min(0).max(5),
+    funding:    z.number().min(0).max(5),
+    oiSkew:     z.number().min(0).max(5),
+    trend:      z.number().min(0).max(5),
+  }).partial().optional(),
+  levels: z.tuple([z.number(), z.number(), z.number(), z.number()])
+    .refine(([a, b, c, d]) => 0 < a && a < b && b < c && c < d && d <= 100, "levels must be increasing within (0, 100]")
+    .optional(),
+  classification: z.object({
+    divergencePct:     z.number().min(0),
+    stalenessSeconds:  z.number().min(0),
+    liquidityDepthUsd: z.number().min(0),
+  }).partial().optional(),
+  actions: z.object({
+    monitorFromLevel:   levelSchema,
+    reduceLtv:          z.object({ divergenceAbovePct: z.number().min(0), pctPerDivergencePct: z.number().min(0), maxPct: z.number().min(0).max(100) }),
+    capSupply:          z.object({ liquidityBelowUsd: z.number().min(0), deltaPct: z.number().min(-100).max(0) }),
+    capBorrowFromLevel: levelSchema,
+    freezeFromLevel:    levelSchema,
+  }).partial().optional(),
+});
+
+const policyFileSchema = z.object({
+  policies: z.array(policySchema),
+});
+
+type PolicyEntry = z.infer<typeof policySchema>;
+
+interface ScopedPolicy {
+  policy:      RiskPolicy;
+  ref:         PolicyRef;
+  assets?:     string[];
+  protocolIds?: string[];
+}
+
+export interface ResolvedPolicy { policy: RiskPolicy; ref: PolicyRef; }
+
+let _scoped: ScopedPolicy[] | null = null;
+let _default: ResolvedPolicy = { policy: DEFAULT_POLICY, ref: policyRef(DEFAULT_POLICY) };
+const _history = new Map<string, RiskPolicy>([[_default.ref.hash, DEFAULT_POLICY]]);
+
+/** Fills every section a policy entry leaves out from DEFAULT_POLICY */
+function materialize(entry: PolicyEntry): RiskPolicy {
+  const d = DEFAULT_POLICY;
+  return {
+    id:             entry.id,
+    version:        entry.version,
+    description:    entry.description,
+    bands:          { ...d.bands, ...entry.bands },
+    trend:          { ...d.trend, ...entry.trend },
+    weights:        { ...d.weights, ...entry.weights },
+    levels:         entry.levels ?? d.levels,
+    classification: { ...d.classification, ...entry.classification },
+    actions:        { ...d.actions, ...entry.actions } as RiskPolicy["actions"],
+  };
+}
+
+function parsePolicyFile(raw: string): { scoped: ScopedPolicy[]; fallback: ResolvedPolicy } {
+  const file  = policyFileSchema.parse(JSON.parse(raw));
+  const seen  = new Set<string>();
+  const scoped: ScopedPolicy[] = [];
+  let fallback: ResolvedPolicy = { policy: DEFAULT_POLICY, ref: policyRef(DEFAULT_POLICY) };
+
+  for (const entry of file.policies) {
+    const key = `${entry.id}@${entry.version}`;
+    if (seen.has(key)) throw new Error(`duplicate policy ${key}`);
+    seen.add(key);
+    const policy = materialize(entry);
+    const ref    = policyRef(policy);
+    if (!entry.assets && !entry.protocolIds) fallback = { policy, ref };
+    else scoped.push({ policy, ref, assets: entry.assets, protocolIds: entry.protocolIds });
+  }
+  return { scoped, fallback };
+}
+
+function install(parsed: { scoped: ScopedPolicy[]; fallback: ResolvedPolicy }) {
+  _scoped  = parsed.scoped;
+  _default = parsed.fallback;
+  for (const p of [parsed.fallback, ...parsed.scoped]) _history.set(p.ref.hash, p.policy);
+}
+
+function loadPolicies(): ScopedPolicy[] {
+  if (_scoped) return _scoped;
+  if (!existsSync(RISK_POLICY_PATH)) {
+    console.log(`[RiskPolicy] ${RISK_POLICY_PATH} not found — using built-in default policy`);
+    _scoped = [];
+    return _scoped;
+  }
+  try {
+    install(parsePolicyFile(readFileSync(RISK_POLICY_PATH, "utf8")));
+  } catch (e) {
+    throw new Error(`[RiskPolicy] ${RISK_POLICY_PATH} is invalid — refusing to score with unknown rules: ${String(e)}`);
+  }
+  console.log(`[RiskPolicy] Loaded ${_scoped!.length} scoped policies from ${RISK_POLICY_PATH} (default: ${_default.ref.id}@${_default.ref.version})`);
+
+  watchFile(RISK_POLICY_PATH, { interval: 2000, persistent: false }, (curr, prev) => {
+    if (curr.mtimeMs === prev.mtimeMs) return;
+    try {
+      install(parsePolicyFile(readFileSync(RISK_POLICY_PATH, "utf8")));
+      console.log(`[RiskPolicy] Reloaded ${RISK_POLICY_PATH}: ${describePolicies().map((p) => `${p.id}@${p.version}`).join(", ")}`);
+    } catch (e) {
+      console.error(`[RiskPolicy] Reload rejected, keeping previous policies: ${String(e)}`);
+    }
+  });
+  return _scoped!;
+}
+
+/** The policy that scores `asset` for `protocolId` */
+export function resolvePolicy(asset: string, protocolId?: string): ResolvedPolicy {
+  const a = asset.toUpperCase();
+  let best: ScopedPolicy | null = null;
+  let bestRank = 0;
+  for (const p of loadPolicies()) {
+    const assetHit    = p.assets?.includes(a);
+    const protocolHit = !!protocolId && p.protocolIds?.includes(protocolId);
+    if ((p.assets && !assetHit) || (p.protocolIds && !protocolHit)) continue;
+    const rank = (protocolHit ? 2 : 0) + (assetHit ? 1 : 0);
+    if (rank > bestRank) { best = p; bestRank = rank; }
+  }
+  return best ?? _default;
+}
+
+/** Active policies with their scope, for the policy listing endpoint */
+export function describePolicies(): Array<PolicyRef & { description?: string; assets?: string[]; protocolIds?: string[]; isDefault: boolean }> {
+  const scoped = loadPolicies();
+  return [
+    { ..._default.ref, description: _default.policy.description, isDefault: true },
+    ...scoped.map((p) => ({ ...p.ref, description: p.policy.description, assets: p.assets, protocolIds: p.protocolIds, isDefault: false })),
+  ];
+}
+
+/** Full rules for a policy hash seen since startup (active or superseded) */
+export function policyByHash(hash: string): RiskPolicy | null {
+  loadPolicies();
+  return _history.get(hash.toLowerCase()) ?? null;
+}
@@ -0,0 +1,78 @@
+/**
+ * lib/signalHistory.ts — Rolling Oracle Signal History
+ * ======================================================
+ * Keeps a time series of live OracleSignals per asset so a divergence that
+ * has been climbing for ten minutes scores differently from a one-off blip.
+ * Indicators (EWMA, z-score, rate of change) come from risk-core's
+ * computeTrend and feed the trend factor of the score.
+ *
+ * Only live observations are recorded: drills score against the history
+ * plus their synthetic sample but never write to it.
+ *
+ * In memory, per process:
+ *   SIGNAL_HISTORY_MAX        samples kept per asset        (default 360)
+ *   SIGNAL_HISTORY_WINDOW_SEC samples older than this drop  (default 3600)
+ *   SIGNAL_EWMA_ALPHA         EWMA smoothing factor          (default 0.2)
+ *   SIGNAL_ROC_WINDOW_SEC     rate-of-change lookback        (default 600)
+ */
+import { computeTrend, type TrendIndicators, type TrendSample } from "@reality-firewall/risk-core";
+import type { OracleSignals } from "./types.js";
+
+export interface SignalSample extends TrendSample {
+  oraclePrice:      number;
+  dexPrice:         number;
+  stalenessSeconds: number;
+  fundingAprPct:    number | null;
+  sourceLabel:      string;
+}
+
+const HISTORY_MAX = Number(process.env.SIGNAL_HISTORY_MAX        ?? 360);
+const WINDOW_SEC  = Number(process.env.SIGNAL_HISTORY_WINDOW_SEC ?? 3600);
+const TREND_OPTS  = {
+  alpha:        Number(process.env.SIGNAL_EWMA_ALPHA     ?? 0.2),
+  rocWindowSec: Number(process.env.SIGNAL_ROC_WINDOW_SEC ?? 600),
+};
+
+const _series = new Map<string, SignalSample[]>();
+
+function toSample(s: OracleSignals): SignalSample {
+  return {
+    timestamp:         s.timestamp,
+    divergencePct:     s.divergencePct,
+    liquidityDepthUsd: s.liquidityDepthUsd,
+    oraclePrice:       s.oraclePrice,
+    dexPrice:          s.dexPrice,
+    stalenessSeconds:  s.stalenessSeconds,
+    fundingAprPct:     s.fundingAprPct,
+    sourceLabel:       s.sourceLabel,
+  };
+}
+
+/** Samples for `asset` inside the window, oldest first */
+function window(asset: string, now: number): SignalSample[] {
+  const series = (_series.get(asset.toUpperCase()) ?? []).filter((s) => s.timestamp > now - WINDOW_SEC);
+  _series.set(asset.toUpperCase(), series);
+  return series;
+}
+
+/** Appends a live observation; same-second duplicates replace the previous sample */
+export function recordSignals(signals: OracleSignals): void {
+  const series = window(signals.asset, signals.timestamp);
+  if (series.length && series[series.length - 1].timestamp >= signals.timestamp) series.pop();
+  series.push(toSample(signals));
+  if (series.length > HISTORY_MAX) series.splice(0, series.length - HISTORY_MAX);
+}
+
+/** Indicators for `current` scored against the asset's history (current is not recorded) */
+export function trendFor(current: OracleSignals): TrendIndicators {
+  const prior = window(current.asset, current.timestamp).filter((s) => s.timestamp < current.timestamp);
+  return computeTrend([...prior, toSample(current)], TREND_OPTS);
+}
+
+export function signalHistory(asset: string, limit = HISTORY_MAX): { samples: SignalSample[]; indicators: TrendIndicators | null } {
+  const series = window(asset, Math.floor(Date.now() / 1000));
+  return {
+    samples:    series.slice(-limit),
+    indicators: series.length ? computeTrend(series, TREND_OPTS) : null,
+  };
+}
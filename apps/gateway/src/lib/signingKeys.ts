@@ -0,0 +1,207 @@
+/**
+ * lib/signingKeys.ts — Versioned Ed25519 Agent Signing Keys
+ * ===========================================================
+ * Keyring of agent keys, each with an activation and (optional) retirement
+ * date. Exactly one key signs at any time: the most recently activated key
+ * that is neither retired nor revoked. Older keys stay in the keyring — and
+ * in /.well-known/jwks.json — so receipts signed before a rotation still
+ * verify afterwards.
+ *
+ *   scheduled — activatesAt in the future
+ *   active    — currently signing
+ *   retired   — past retiresAt; verifies receipts issued before that date
+ *   revoked   — compromised; verifies only receipts issued before revokedAt
+ *
+ * Keys are identified by their RFC 7638 JWK thumbprint (kid). Only one
+ * rotation may be pending: rotating again before the scheduled key activates
+ * throws RotationPendingError, unless the current key is compromised.
+ *
+ * Storage: KEYRING_PATH (default .rf-keyring.json, mode 0600). On first run
+ * the pre-rotation single key at KEY_PATH is imported so existing receipts
+ * keep verifying.
+ */
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { canonicalize } from "./canonical.js";
+
+export type SigningKeyStatus = "scheduled" | "active" | "retired" | "revoked";
+
+export interface SigningKey {
+  kid:               string;
+  publicKeyHex:      string;   // SPKI DER, hex
+  privateKeyPem:     string;
+  createdAtIso:      string;
+  activatesAtIso:    string;
+  retiresAtIso?:     string;
+  revokedAtIso?:     string;
+  revocationReason?: string;
+}
+
+export interface RotateOptions {
+  activateAt?:  Date;      // default: now
+  compromised?: boolean;   // revoke the current key now and activate the new one immediately
+  reason?:      string;
+}
+
+export class RotationPendingError extends Error {
+  constructor(public readonly pending: SigningKey) {
+    super(`Key ${pending.kid} is already scheduled to activate at ${pending.activatesAtIso}`);
+    this.name = "RotationPendingError";
+  }
+}
+
+const KEYRING_PATH = process.env.KEYRING_PATH ?? join(process.cwd(), ".rf-keyring.json");
+const KEY_PATH     = process.env.KEY_PATH     ?? join(process.cwd(), ".rf-agent.ed25519.pem");
+
+let _keyring: SigningKey[] | null = null;
+
+function base64url(buf: Buffer): string {
+  return buf.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** Public JWK for an Ed25519 SPKI DER key (hex) */
+export function ed25519Jwk(publicKeyHex: string): { kty: "OKP"; crv: "Ed25519"; x: string } {
+  const der = Buffer.from(publicKeyHex, "hex");
+  return { kty: "OKP", crv: "Ed25519", x: base64url(der.subarray(der.length - 32)) };
+}
+
+/** RFC 7638 JWK thumbprint — the key id receipts carry */
+export function keyId(publicKeyHex: string): string {
+  return base64url(createHash("sha256").update(canonicalize(ed25519Jwk(publicKeyHex)), "utf8").digest());
+}
+
+function keyFromPem(privateKeyPem: string, activatesAt: Date): SigningKey {
+  const der          = createPublicKey(createPrivateKey(privateKeyPem)).export({ type: "spki", format: "der" }) as Buffer;
+  const publicKeyHex = der.toString("hex");
+  return {
+    kid:            keyId(publicKeyHex),
+    publicKeyHex,
+    privateKeyPem,
+    createdAtIso:   new Date().toISOString(),
+    activatesAtIso: activatesAt.toISOString(),
+  };
+}
+
+function generateKey(activatesAt: Date): SigningKey {
+  const { privateKey } = generateKeyPairSync("ed25519");
+  return keyFromPem(privateKey.export({ type: "pkcs8", format: "pem" }) as string, activatesAt);
+}
+
+function persist(keys: SigningKey[]) {
+  writeFileSync(KEYRING_PATH, JSON.stringify(keys, null, 2), { mode: 0o600 });
+}
+
+function loadKeyring(): SigningKey[] {
+  if (_keyring) return _keyring;
+  if (existsSync(KEYRING_PATH)) {
+    _keyring = JSON.parse(readFileSync(KEYRING_PATH, "utf8")) as SigningKey[];
+    return _keyring;
+  }
+  if (existsSync(KEY_PATH)) {
+    _keyring = [keyFromPem(readFileSync(KEY_PATH, "utf8"), new Date(0))];
+    console.log(`[Ed25519] Imported ${KEY_PATH} into keyring ${KEYRING_PATH}`);
+  } else {
+    _keyring = [generateKey(new Date())];
+    console.log(`[Ed25519] New keyring generated at: ${KEYRING_PATH}`);
+  }
+  persist(_keyring);
+  return _keyring;
+}
+
+export function keyStatus(key: SigningKey, now = new Date()): SigningKeyStatus {
+  const t = now.toISOString();
+  if (key.revokedAtIso && key.revokedAtIso <= t) return "revoked";
+  if (key.activatesAtIso > t)                    return "scheduled";
+  if (key.retiresAtIso && key.retiresAtIso <= t) return "retired";
+  return "active";
+}
+
+/** The key that signs now — generates a fresh one if every key is retired or revoked */
+export function activeSigningKey(now = new Date()): SigningKey {
+  const keys   = loadKeyring();
+  const active = keys
+    .filter((k) => keyStatus(k, now) === "active")
+    .sort((a, b) => b.activatesAtIso.localeCompare(a.activatesAtIso))[0];
+  if (active) return active;
+
+  const fresh = generateKey(now);
+  keys.push(fresh);
+  persist(keys);
+  console.warn(`[Ed25519] No usable signing key — generated ${fresh.kid}`);
+  return fresh;
+}
+
+export function findSigningKey(kid: string): SigningKey | null {
+  return loadKeyring().find((k) => k.kid === kid) ?? null;
+}
+
+export function listSigningKeys(): SigningKey[] {
+  return [...loadKeyring()];
+}
+
+/**
+ * True when `key` was allowed to sign at `issuedAtIso`. Receipts claiming an
+ * issuance date after a key's revocation are rejected; ones before it stay
+ * valid (anchoring on ReceiptRegistry proves when they really existed).
+ */
+export function keyValidAt(key: SigningKey, issuedAtIso: string): boolean {
+  if (key.revokedAtIso && issuedAtIso >= key.revokedAtIso) return false;
+  if (key.retiresAtIso && issuedAtIso >= key.retiresAtIso) return false;
+  return true;
+}
+
+/**
+ * Adds a new key. The current key retires when the new one activates; with
+ * `compromised` it is revoked immediately instead. A second rotation while
+ * one is scheduled would move the current key's retirement, so it is refused.
+ */
+export function rotateSigningKey(opts: RotateOptions = {}): { key: SigningKey; previous: SigningKey } {
+  const now     = new Date();
+  const pending = loadKeyring().find((k) => keyStatus(k, now) === "scheduled");
+  if (pending && !opts.compromised) throw new RotationPendingError(pending);
+
+  const previous   = activeSigningKey(now);
+  const activateAt = opts.compromised || !opts.activateAt || opts.activateAt < now ? now : opts.activateAt;
+  const key        = generateKey(activateAt);
+
+  previous.retiresAtIso = activateAt.toISOString();
+  // An emergency replacement only bridges the gap until the scheduled key takes over
+  if (pending) key.retiresAtIso = pending.activatesAtIso;
+  if (opts.compromised) {
+    previous.revokedAtIso     = now.toISOString();
+    previous.revocationReason = opts.reason ?? "compromised";
+  }
+  const keys = loadKeyring();
+  keys.push(key);
+  persist(keys);
+  console.log(`[Ed25519] Rotated ${previous.kid} → ${key.kid} (activates ${key.activatesAtIso})`);
+  return { key, previous };
+}
+
+/** Marks a key compromised from `at` (default now); a replacement is generated if it was signing */
+export function revokeSigningKey(kid: string, reason = "compromised", at = new Date()): SigningKey | null {
+  const key = findSigningKey(kid);
+  if (!key) return null;
+  key.revokedAtIso     = at.toISOString();
+  key.revocationReason = reason;
+  persist(loadKeyring());
+  activeSigningKey();
+  return key;
+}
+
+/** JWKS (RFC 7517) of every key ever used — private material never leaves */
+export function buildJwks(now = new Date()) {
+  return {
+    keys: loadKeyring().map((k) => ({
+      ...ed25519Jwk(k.publicKeyHex),
+      kid:           k.kid,
+      use:           "sig",
+      alg:           "EdDSA",
+      status:        keyStatus(k, now),
+      activatesAt:   k.activatesAtIso,
+      retiresAt:     k.retiresAtIso,
+      revokedAt:     k.revokedAtIso,
+    })),
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * lib/uniswapV3.ts — On-chain DEX Price Source (Uniswap V3)
+ * ===========================================================
+ * Reads configured pools over plain JSON-RPC eth_call:
+ *
+ *   slot0()                                 → spot
+ *   observe([longWindow, shortWindow, 0])   → short + long TWAP
+ *
+ * so divergence is measured against the pool a manipulator would trade,
+ * not an aggregator. Price math and ABI codecs live in risk-core.
+ *
+ * Config:
+ *   DEX_RPC_URL         RPC for the pools' chain (default: Ethereum mainnet, public)
+ *   UNISWAP_V3_POOLS    JSON { "WETH": { address, chainId, feeTier, token0Decimals,
+ *                       token1Decimals, baseIsToken0, quote }, … } merged over the defaults
+ *   DEX_TWAP_SHORT_SEC  default 300
+ *   DEX_TWAP_LONG_SEC   default 1800
+ *
+ * If the pool's observation buffer does not reach back far enough, the
+ * long (then short) TWAP is reported as null instead of failing the read.
+ */
+import {
+  DEFAULT_UNISWAP_V3_POOLS, SLOT0_SELECTOR, decodeObserve, decodeSlot0, encodeObserve, poolPrice,
+  type PoolPrice, type UniswapV3Pool,
+} from "@reality-firewall/risk-core";
+
+const DEX_RPC_URL = process.env.DEX_RPC_URL ?? "https://ethereum-rpc.publicnode.com";
+const WINDOWS     = {
+  shortWindowSec: Number(process.env.DEX_TWAP_SHORT_SEC ?? 300),
+  longWindowSec:  Number(process.env.DEX_TWAP_LONG_SEC  ?? 1800),
+};
+
+function configuredPools(): Record<string, UniswapV3Pool> {
+  const raw = process.env.UNISWAP_V3_POOLS;
+  if (!raw) return DEFAULT_UNISWAP_V3_POOLS;
+  try {
+    return { ...DEFAULT_UNISWAP_V3_POOLS, ...(JSON.parse(raw) as Record<string, UniswapV3Pool>) };
+  } catch {
+    console.warn("[UniswapV3] UNISWAP_V3_POOLS is not valid JSON — using default pools");
+    return DEFAULT_UNISWAP_V3_POOLS;
+  }
+}
+
+const POOLS = configuredPools();
+
+export function poolFor(asset: string): UniswapV3Pool | null {
+  return POOLS[asset.toUpperCase()] ?? null;
+}
+
+/** Per-request timeout, cut short by the caller's overall `deadline` when given */
+function callSignal(timeoutMs: number, deadline?: AbortSignal): AbortSignal {
+  return deadline ? AbortSignal.any([AbortSignal.timeout(timeoutMs), deadline]) : AbortSignal.timeout(timeoutMs);
+}
+
+export async function ethCall(to: string, data: string, timeoutMs = 5000, deadline?: AbortSignal): Promise<string> {
+  const res = await fetch(DEX_RPC_URL, {
+    method:  "POST",
+    headers: { "Content-Type": "application/json" },
+    body:    JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_call", params: [{ to, data }, "latest"] }),
+    signal:  callSignal(timeoutMs, deadline),
+  });
+  const { result, error } = await res.json() as { result?: string; error?: { message?: string } };
+  if (error || !result || result === "0x") throw new Error(error?.message ?? "empty eth_call result");
+  return result;
+}
+
+/** Several eth_calls in one JSON-RPC batch (chunks of 50); a failed call yields null */
+export async function ethCallBatch(
+  calls: Array<{ to: string; data: string }>,
+  timeoutMs = 8000,
+  deadline?: AbortSignal,
+): Promise<Array<string | null>> {
+  const out: Array<string | null> = [];
+  for (let i = 0; i < calls.length; i += 50) {
+    const chunk = calls.slice(i, i + 50);
+    const res   = await fetch(DEX_RPC_URL, {
+      method:  "POST",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify(chunk.map((c, j) => ({ jsonrpc: "2.0", id: j, method: "eth_call", params: [c, "latest"] }))),
+      signal:  callSignal(timeoutMs, deadline),
+    });
+    const body = await res.json() as Array<{ id: number; result?: string }>;
+    if (!Array.isArray(body)) throw new Error("RPC does not support batch requests");
+    const byId = new Map(body.map((r) => [r.id, r.result && r.result !== "0x" ? r.result : null]));
+    out.push(...chunk.map((_, j) => byId.get(j) ?? null));
+  }
+  return out;
+}
+
+/** tickCumulatives for [long, short, now]; falls back to [short, now] when history is short */
+async function readCumulatives(pool: UniswapV3Pool): Promise<{ long?: bigint; short?: bigint; now?: bigint }> {
+  const { shortWindowSec, longWindowSec } = WINDOWS;
+  try {
+    const [long, short, now] = decodeObserve(await ethCall(pool.address, encodeObserve([longWindowSec, shortWindowSec, 0])));
+    return { long, short, now };
+  } catch {
+    try {
+      const [short, now] = decodeObserve(await ethCall(pool.address, encodeObserve([shortWindowSec, 0])));
+      return { short, now };
+    } catch {
+      return {};
+    }
+  }
+}
+
+/** Spot + TWAPs for the asset's pool, or null when no pool is configured / the RPC fails */
+export async function fetchPoolPrice(asset: string): Promise<PoolPrice | null> {
+  const pool = poolFor(asset);
+  if (!pool) return null;
+  try {
+    const [slot0, cumulatives] = await Promise.all([
+      ethCall(pool.address, SLOT0_SELECTOR).then(decodeSlot0),
+      readCumulatives(pool),
+    ]);
+    return poolPrice(pool, slot0, cumulatives, WINDOWS);
+  } catch (e) {
+    console.warn(`[UniswapV3] ${asset} pool ${pool.address} unavailable:`, String(e));
+    return null;
+  }
+}
@@ -16,18 +16,33 @@
  * PRODUCTION MODE (X402_DEMO_MODE=false):
  *   Verifica la transferencia ERC-20 real en Base Sepolia via JSON-RPC.
  *   Lee logs del receipt: Transfer(from, PAYMENT_ADDRESS, amount >= 1000).
+ *   Exige X402_MIN_CONFIRMATIONS bloques y que la transferencia no tenga
+ *   más de maxTimeoutSeconds al primer uso.
+ *
+ * REPLAY PROTECTION (ambos modos):
+ *   Cada pago compra floor(amount / price) drills y se registra en el
+ *   ledger de pagos consumidos (lib/paymentLedger.ts) junto al payer.
  */
 import type { X402PaymentRequirement, X402ErrorResponse } from "./types.js";
+import { getPaymentLedger } from "./paymentLedger.js";
+
+const X402_CHAIN_ID = Number(process.env.X402_CHAIN_ID ?? 84532);
 
 export const X402_CONFIG = {
-  network:       "eip155:84532",
-  chainId:       84532,
+  network:       `eip155:${X402_CHAIN_ID}`,
+  chainId:       X402_CHAIN_ID,
   rpc:           process.env.X402_RPC_URL        ?? "https://sepolia.base.org",
   usdcAddress:   process.env.X402_TOKEN_ADDRESS   ?? "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
   payTo:         process.env.PAYMENT_ADDRESS      ?? "0xDeAdBeEfDeAdBeEfDeAdBeEfDeAdBeEfDeAdBeEf",
   priceAtomic:   process.env.X402_PRICE_ATOMIC    ?? "1000",
-  maxTimeout:    60,
+  maxTimeout:    Number(process.env.X402_MAX_TIMEOUT_SECONDS ?? 60),
+  minConfirmations: Number(process.env.X402_MIN_CONFIRMATIONS ?? 2),
   demoMode:      process.env.X402_DEMO_MODE !== "false", // true by default
+  // EIP-712 domain of the token (USDC FiatTokenV2 uses name "USDC", version "2")
+  tokenName:     process.env.X402_TOKEN_NAME      ?? "USDC",
+  tokenVersion:  process.env.X402_TOKEN_VERSION   ?? "2",
+  facilitatorUrl: process.env.X402_FACILITATOR_URL,
+  facilitatorApiKey: process.env.X402_FACILITATOR_API_KEY,   // admin key when the facilitator is a Reality Firewall gateway
 } as const;
 
 // keccak256("Transfer(address,address,uint256)")
@@ -46,8 +61,8 @@ export function buildX402Requirement(resource: string): X402PaymentRequirement {
     maxTimeoutSeconds: X402_CONFIG.maxTimeout,
     asset:             X402_CONFIG.usdcAddress,
     extra: {
-      name:    "Reality Firewall",
-      version: "3.0.0",
+      name:    X402_CONFIG.tokenName,
+      version: X402_CONFIG.tokenVersion,
       docs:    "https://docs.cdp.coinbase.com/x402",
     },
   };
@@ -61,47 +76,103 @@ export function buildX402Error(resource: string): X402ErrorResponse {
     paymentRequired: buildX402Requirement(resource),
     hint: `Send ${X402_CONFIG.priceAtomic} units of USDC (${X402_CONFIG.usdcAddress}) ` +
           `to ${X402_CONFIG.payTo} on Base Sepolia (${X402_CONFIG.network}), ` +
-          `then retry with header X-Payment-Tx: <txHash> or body paymentTxHash: <txHash>`,
+          `then retry with header X-Payment-Tx: <txHash> or body paymentTxHash: <txHash>. ` +
+          `Alternatively send X-PAYMENT: base64(JSON) with a signed EIP-3009 transferWithAuthorization ("exact" scheme).`,
     x402Docs: "https://docs.cdp.coinbase.com/x402",
   };
 }
 
-/** Verifies a USDC payment on Base Sepolia */
-export async function verifyPayment(txHash: string): Promise<{
-  valid: boolean;
-  reason: string;
-  mode: "demo" | "onchain";
-  amount?: string;
-  from?: string;
-}> {
+export interface PaymentVerification {
+  valid:           boolean;
+  reason:          string;
+  mode:            "demo" | "onchain";
+  amount?:         string;
+  from?:           string;
+  units?:          number;
+  remainingUnits?: number;
+  confirmations?:  number;
+  ageSeconds?:     number;
+}
+
+export async function rpc<T>(method: string, params: unknown[]): Promise<T> {
+  const res = await fetch(X402_CONFIG.rpc, {
+    method:  "POST",
+    headers: { "Content-Type": "application/json" },
+    body:    JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+    signal:  AbortSignal.timeout(8000),
+  });
+  const { result, error } = await res.json() as { result: T; error?: { message: string } };
+  if (error) throw new Error(error.message);
+  return result;
+}
+
+/** Units of drill time bought by an amount (≥ 1 once the price is covered) */
+export function unitsFor(amount: bigint): number {
+  return Number(amount / BigInt(X402_CONFIG.priceAtomic));
+}
+
+/** Spends one unit of a verified payment in the consumed-payment ledger */
+export function redeem(
+  txHash: string,
+  v: PaymentVerification,
+  opts: { settlementTx?: string; apiKeyId?: string } = {},
+): PaymentVerification {
+  const r = getPaymentLedger().redeem({
+    paymentId:    txHash,
+    payer:        v.from ?? "unknown",
+    amount:       v.amount ?? "0",
+    units:        v.units ?? 1,
+    settlementTx: opts.settlementTx,
+    apiKeyId:     opts.apiKeyId,
+  });
+  if (!r.ok) return { ...v, valid: false, reason: r.reason, remainingUnits: 0 };
+  return { ...v, remainingUnits: r.remainingUnits };
+}
+
+/**
+ * Verifies a USDC payment on Base Sepolia and redeems one drill unit.
+ * Rejects replays, transfers older than maxTimeoutSeconds, transfers
+ * with fewer than minConfirmations blocks on top and the gateway's own
+ * settlements of "exact" payments (already paid for under their nonce).
+ */
+export async function verifyPayment(txHash: string, apiKeyId?: string): Promise<PaymentVerification> {
+  const settled = getPaymentLedger().getBySettlementTx(txHash);
+  if (settled) {
+    return {
+      valid:  false,
+      reason: `settlement_of_authorization:${settled.paymentId}`,
+      mode:   X402_CONFIG.demoMode ? "demo" : "onchain",
+      from:   settled.payer,
+    };
+  }
+
   // ── Demo mode (default for hackathon) ──────────────────────────────────
   if (X402_CONFIG.demoMode) {
     const isValidFormat = /^0x[0-9a-fA-F]{10,64}$/.test(txHash);
     if (!isValidFormat) return { valid: false, reason: "demo_invalid_format", mode: "demo" };
-    return {
+    return redeem(txHash, {
       valid:  true,
       reason: "demo_accepted — format valid (X402_DEMO_MODE=true)",
       mode:   "demo",
       amount: X402_CONFIG.priceAtomic,
       from:   "0xdemo_sender",
-    };
+      units:  1,
+    }, { apiKeyId });
   }
 
   // ── Real onchain verification ──────────────────────────────────────────
+  if (!/^0x[0-9a-fA-F]{64}$/.test(txHash)) return { valid: false, reason: "invalid_tx_hash", mode: "onchain" };
+
+  // Cheap replay check before any RPC round-trips
+  const seen = getPaymentLedger().get(txHash);
+  if (seen && seen.unitsUsed >= seen.unitsTotal) {
+    return { valid: false, reason: `payment_already_consumed:${seen.unitsUsed}/${seen.unitsTotal}`, mode: "onchain", from: seen.payer };
+  }
+
   try {
-    const res = await fetch(X402_CONFIG.rpc, {
-      method:  "POST",
-      headers: { "Content-Type": "application/json" },
-      body:    JSON.stringify({
-        jsonrpc: "2.0", id: 1,
-        method:  "eth_getTransactionReceipt",
-        params:  [txHash],
-      }),
-      signal: AbortSignal.timeout(8000),
-    });
     type Log = { address: string; topics: string[]; data: string };
-    type Receipt = { status: string; logs: Log[] };
-    const { result } = await res.json() as { result: Receipt | null };
+    type Receipt = { status: string; blockNumber: string; logs: Log[] };
+    const result = await rpc<Receipt | null>("eth_getTransactionReceipt", [txHash]);
 
     if (!result)              return { valid: false, reason: "tx_not_found", mode: "onchain" };
     if (result.status !== "0x1") return { valid: false, reason: "tx_reverted",  mode: "onchain" };
@@ -110,23 +181,44 @@ export async function verifyPayment(txHash: string): Promise<{
     const payToL = X402_CONFIG.payTo.toLowerCase();
     const minAmt = BigInt(X402_CONFIG.priceAtomic);
 
+    let transfer: { from: string; amount: bigint } | null = null;
     for (const log of result.logs) {
       if (log.address.toLowerCase() !== usdcL)    continue;
       if (log.topics[0] !== TRANSFER_TOPIC)        continue;
       if (log.topics.length < 3)                   continue;
       const to     = "0x" + log.topics[2].slice(26);
       if (to.toLowerCase() !== payToL)             continue;
-      const amount = BigInt(log.data);
-      if (amount < minAmt) return { valid: false, reason: `amount_low:${amount}<${minAmt}`, mode: "onchain" };
-      return {
-        valid:  true,
-        reason: "verified_onchain — USDC Transfer confirmed",
-        mode:   "onchain",
-        amount: amount.toString(),
-        from:   "0x" + log.topics[1].slice(26),
-      };
+      transfer = { from: "0x" + log.topics[1].slice(26), amount: BigInt(log.data) };
+      break;
     }
-    return { valid: false, reason: "no_usdc_transfer_to_payto", mode: "onchain" };
+    if (!transfer) return { valid: false, reason: "no_usdc_transfer_to_payto", mode: "onchain" };
+    if (transfer.amount < minAmt) {
+      return { valid: false, reason: `amount_low:${transfer.amount}<${minAmt}`, mode: "onchain", from: transfer.from };
+    }
+
+    // Confirmations + freshness (maxTimeoutSeconds from the payment requirement)
+    const [headHex, block] = await Promise.all([
+      rpc<string>("eth_blockNumber", []),
+      rpc<{ timestamp: string } | null>("eth_getBlockByNumber", [result.blockNumber, false]),
+    ]);
+    const confirmations = parseInt(headHex, 16) - parseInt(result.blockNumber, 16) + 1;
+    const ageSeconds    = block ? Math.floor(Date.now() / 1000) - parseInt(block.timestamp, 16) : Infinity;
+    const base = { mode: "onchain" as const, from: transfer.from, amount: transfer.amount.toString(), confirmations, ageSeconds };
+
+    if (confirmations < X402_CONFIG.minConfirmations) {
+      return { ...base, valid: false, reason: `insufficient_confirmations:${confirmations}<${X402_CONFIG.minConfirmations}` };
+    }
+    // Already-known payments keep their remaining units; the window only gates first use
+    if (!seen && ageSeconds > X402_CONFIG.maxTimeout) {
+      return { ...base, valid: false, reason: `payment_expired:${ageSeconds}s>${X402_CONFIG.maxTimeout}s` };
+    }
+
+    return redeem(txHash, {
+      ...base,
+      valid:  true,
+      reason: "verified_onchain — USDC Transfer confirmed",
+      units:  unitsFor(transfer.amount),
+    }, { apiKeyId });
   } catch (e) {
     return { valid: false, reason: `rpc_error: ${String(e)}`, mode: "onchain" };
   }
@@ -0,0 +1,335 @@
+/**
+ * lib/x402Exact.ts — x402 "exact" scheme (EIP-3009 transferWithAuthorization)
+ * ============================================================================
+ * Spec-compliant alternative to "pay first, paste tx hash":
+ *
+ *   1. Client receives the 402 PaymentRequirements (buildX402Requirement)
+ *   2. Client signs TransferWithAuthorization (EIP-712, token domain from
+ *      requirement.extra.name/version) and sends
+ *        X-PAYMENT: base64(JSON { x402Version, scheme, network, payload })
+ *   3. Gateway verifies signature, validity window, nonce and amount
+ *   4. Gateway settles — submits transferWithAuthorization itself
+ *      (X402_SETTLER_PRIVATE_KEY), or via X402_FACILITATOR_URL, which may
+ *      be this gateway's own /facilitator/verify + /facilitator/settle
+ *   5. Response carries X-PAYMENT-RESPONSE: base64(JSON settlement)
+ *
+ * DEMO MODE (X402_DEMO_MODE=true): signature and window are still verified;
+ * settlement returns a deterministic simulated tx hash.
+ *
+ * An authorization worth several drills is settled once; later drills
+ * re-send the same X-PAYMENT and spend its remaining units after the
+ * signature is checked again, only with the API key that settled it.
+ *
+ * Tested on anvil against contracts/src/mocks/MockUSDC.sol by
+ * `pnpm check:x402` (src/scripts/x402-anvil.ts). Pointing a gateway at it:
+ *   X402_RPC_URL=http://127.0.0.1:8545 X402_CHAIN_ID=31337
+ *   X402_TOKEN_ADDRESS=<mock> X402_DEMO_MODE=false X402_SETTLER_PRIVATE_KEY=<key>
+ */
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { Contract, JsonRpcProvider, Signature, Wallet, getAddress, isAddress, verifyTypedData } from "ethers";
+import { X402_CONFIG, buildX402Requirement, redeem, unitsFor, type PaymentVerification } from "./x402.js";
+import { getPaymentLedger } from "./paymentLedger.js";
+import type { X402PaymentRequirement } from "./types.js";
+
+export interface Eip3009Authorization {
+  from:        string;
+  to:          string;
+  value:       string;
+  validAfter:  string;
+  validBefore: string;
+  nonce:       string;
+}
+
+export interface ExactPaymentPayload {
+  x402Version: number;
+  scheme:      "exact";
+  network:     string;
+  payload: {
+    signature:     string;
+    authorization: Eip3009Authorization;
+  };
+}
+
+export interface FacilitatorVerifyResponse {
+  isValid:        boolean;
+  invalidReason?: string;
+  payer?:         string;
+}
+
+export interface FacilitatorSettleResponse {
+  success:      boolean;
+  errorReason?: string;
+  transaction:  string;
+  network:      string;
+  payer?:       string;
+  simulated?:   boolean;
+}
+
+const EIP3009_TYPES = {
+  TransferWithAuthorization: [
+    { name: "from",        type: "address" },
+    { name: "to",          type: "address" },
+    { name: "value",       type: "uint256" },
+    { name: "validAfter",  type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce",       type: "bytes32" },
+  ],
+};
+
+const EIP3009_ABI = [
+  "function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)",
+  "function authorizationState(address authorizer, bytes32 nonce) view returns (bool)",
+  "function balanceOf(address account) view returns (uint256)",
+];
+
+// x402 v1 clients use network slugs; v2 uses CAIP-2
+const NETWORK_ALIASES: Record<string, string> = {
+  "base-sepolia": "eip155:84532",
+  "base":         "eip155:8453",
+};
+
+// uint256 fields may arrive as JSON numbers; either way they must be plain decimal integers
+const uintString = z.union([z.string(), z.number()]).transform(String).pipe(z.string().regex(/^\d+$/, "must be a decimal integer"));
+
+/** Shape of an "exact" payment payload (X-PAYMENT and the facilitator's paymentPayload) */
+export const exactPaymentSchema = z.object({
+  x402Version: z.number().default(1),
+  scheme:      z.literal("exact"),
+  network:     z.string(),
+  payload:     z.object({
+    signature:     z.string(),
+    authorization: z.object({
+      from:        z.string(),
+      to:          z.string(),
+      value:       uintString,
+      validAfter:  uintString,
+      validBefore: uintString,
+      nonce:       z.string(),
+    }),
+  }),
+});
+
+/** What a remote facilitator's /settle must answer; anything else is a facilitator error */
+const facilitatorSettleSchema = z.object({
+  success:     z.boolean(),
+  errorReason: z.string().optional(),
+  transaction: z.string(),
+  network:     z.string(),
+  payer:       z.string().optional(),
+  simulated:   z.boolean().optional(),
+});
+
+/** Malformed X-PAYMENT; `reason` is invalid_x_payment or invalid_authorization */
+export class PaymentHeaderError extends Error {
+  constructor(public readonly reason: "invalid_x_payment" | "invalid_authorization", message: string) {
+    super(message);
+    this.name = "PaymentHeaderError";
+  }
+}
+
+/** True when an X-PAYMENT header carries an encoded payload rather than a tx hash */
+export function isExactPaymentHeader(header: string): boolean {
+  return !/^0x[0-9a-fA-F]+$/.test(header.trim());
+}
+
+/** Decodes X-PAYMENT: base64(JSON) → ExactPaymentPayload (throws PaymentHeaderError on malformed input) */
+export function decodePaymentHeader(header: string): ExactPaymentPayload {
+  let json: unknown;
+  try {
+    json = JSON.parse(Buffer.from(header.trim(), "base64").toString("utf8"));
+  } catch {
+    throw new PaymentHeaderError("invalid_x_payment", "X-PAYMENT is not base64-encoded JSON");
+  }
+  const parsed = exactPaymentSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const path  = issue.path.join(".");
+    throw new PaymentHeaderError(path.startsWith("payload.authorization") ? "invalid_authorization" : "invalid_x_payment", `${path}: ${issue.message}`);
+  }
+  return parsed.data as ExactPaymentPayload;
+}
+
+export function encodePaymentResponse(settlement: FacilitatorSettleResponse): string {
+  return Buffer.from(JSON.stringify(settlement)).toString("base64");
+}
+
+/** The requirement's asset: the same address signs the EIP-712 domain and receives the calls */
+function tokenContract(asset: string, runner?: Wallet | JsonRpcProvider) {
+  return new Contract(asset, EIP3009_ABI, runner ?? new JsonRpcProvider(X402_CONFIG.rpc));
+}
+
+/** Ledger key: an EIP-3009 nonce is unique per authorizer */
+export function authorizationId(auth: Eip3009Authorization): string {
+  return `eip3009:${auth.from.toLowerCase()}:${auth.nonce.toLowerCase()}`;
+}
+
+/** EIP-712 signer of the authorization under the requirement's token domain, or null */
+function authorizationSigner(payment: ExactPaymentPayload, requirement: X402PaymentRequirement): string | null {
+  const auth   = payment.payload.authorization;
+  const domain = {
+    name:              requirement.extra.name,
+    version:           requirement.extra.version,
+    chainId:           X402_CONFIG.chainId,
+    verifyingContract: requirement.asset.toLowerCase(),
+  };
+  // Lowercase so mixed-case addresses with a bad checksum still hash identically
+  const message = { ...auth, from: auth.from.toLowerCase(), to: auth.to.toLowerCase() };
+  try {
+    return verifyTypedData(domain, EIP3009_TYPES, message, payment.payload.signature);
+  } catch {
+    return null;
+  }
+}
+
+/** Facilitator /verify semantics — no state is changed */
+export async function verifyExactPayment(
+  payment: ExactPaymentPayload,
+  requirement: X402PaymentRequirement = buildX402Requirement("/api/v1/drill"),
+): Promise<FacilitatorVerifyResponse> {
+  const auth  = payment.payload.authorization;
+  const payer = isAddress(auth.from) ? getAddress(auth.from) : undefined;
+  const fail  = (invalidReason: string): FacilitatorVerifyResponse => ({ isValid: false, invalidReason, payer });
+
+  const network = NETWORK_ALIASES[payment.network] ?? payment.network;
+  if (payment.scheme !== requirement.scheme)                 return fail("unsupported_scheme");
+  if (network !== requirement.network)                       return fail(`invalid_network:${payment.network}`);
+  if (!payer || !isAddress(auth.to))                         return fail("invalid_address");
+  if (auth.to.toLowerCase() !== requirement.payTo.toLowerCase()) return fail("invalid_payee");
+  if (!/^0x[0-9a-fA-F]{64}$/.test(auth.nonce))               return fail("invalid_nonce");
+
+  const value = BigInt(auth.value);
+  if (value < BigInt(requirement.maxAmountRequired))         return fail(`amount_low:${value}<${requirement.maxAmountRequired}`);
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  if (now < BigInt(auth.validAfter))                         return fail("authorization_not_yet_valid");
+  if (now >= BigInt(auth.validBefore))                       return fail("authorization_expired");
+
+  const signer = authorizationSigner(payment, requirement);
+  if (signer?.toLowerCase() !== payer.toLowerCase())         return fail("invalid_signature");
+
+  if (!X402_CONFIG.demoMode) {
+    try {
+      const token = tokenContract(requirement.asset);
+      const [used, balance] = await Promise.all([
+        token.authorizationState(payer, auth.nonce) as Promise<boolean>,
+        token.balanceOf(payer) as Promise<bigint>,
+      ]);
+      if (used)            return fail("nonce_already_used");
+      if (balance < value) return fail("insufficient_funds");
+    } catch (e) {
+      return fail(`rpc_error: ${String(e)}`);
+    }
+  }
+
+  return { isValid: true, payer };
+}
+
+/** Facilitator /settle semantics — re-verifies, then submits transferWithAuthorization */
+export async function settleExactPayment(
+  payment: ExactPaymentPayload,
+  requirement: X402PaymentRequirement = buildX402Requirement("/api/v1/drill"),
+): Promise<FacilitatorSettleResponse> {
+  const network = requirement.network;
+  const check   = await verifyExactPayment(payment, requirement);
+  if (!check.isValid) return { success: false, errorReason: check.invalidReason, transaction: "", network, payer: check.payer };
+
+  const auth = payment.payload.authorization;
+  if (X402_CONFIG.demoMode) {
+    const transaction = "0x" + createHash("sha256").update(authorizationId(auth) + payment.payload.signature).digest("hex");
+    return { success: true, transaction, network, payer: check.payer, simulated: true };
+  }
+
+  const settlerKey = process.env.X402_SETTLER_PRIVATE_KEY;
+  if (!settlerKey) return { success: false, errorReason: "settler_not_configured", transaction: "", network, payer: check.payer };
+
+  try {
+    const settler = new Wallet(settlerKey, new JsonRpcProvider(X402_CONFIG.rpc));
+    const sig     = Signature.from(payment.payload.signature);
+    const tx      = await tokenContract(requirement.asset, settler).transferWithAuthorization(
+      auth.from, auth.to, auth.value, auth.validAfter, auth.validBefore, auth.nonce, sig.v, sig.r, sig.s,
+    );
+    const receipt = await tx.wait(1, 60_000);
+    if (!receipt || receipt.status !== 1) {
+      return { success: false, errorReason: "settlement_reverted", transaction: tx.hash, network, payer: check.payer };
+    }
+    return { success: true, transaction: tx.hash, network, payer: check.payer };
+  } catch (e) {
+    return { success: false, errorReason: `settlement_failed: ${String(e)}`, transaction: "", network, payer: check.payer };
+  }
+}
+
+/** Settles through X402_FACILITATOR_URL when configured, else in-process */
+async function settleViaFacilitator(payment: ExactPaymentPayload, requirement: X402PaymentRequirement): Promise<FacilitatorSettleResponse> {
+  const base = X402_CONFIG.facilitatorUrl;
+  if (!base) return settleExactPayment(payment, requirement);
+  try {
+    const res = await fetch(`${base.replace(/\/$/, "")}/settle`, {
+      method:  "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(X402_CONFIG.facilitatorApiKey ? { "X-API-KEY": X402_CONFIG.facilitatorApiKey } : {}),
+      },
+      body:    JSON.stringify({ x402Version: payment.x402Version, paymentPayload: payment, paymentRequirements: requirement }),
+      signal:  AbortSignal.timeout(90_000),
+    });
+    const parsed = res.ok ? facilitatorSettleSchema.safeParse(await res.json().catch(() => null)) : null;
+    if (!parsed?.success) {
+      return { success: false, errorReason: `facilitator_error: ${res.status}`, transaction: "", network: requirement.network };
+    }
+    return parsed.data;
+  } catch (e) {
+    return { success: false, errorReason: `facilitator_unreachable: ${String(e)}`, transaction: "", network: requirement.network };
+  }
+}
+
+/**
+ * Full /drill path for an X-PAYMENT header: settle, then redeem one unit in
+ * the consumed-payment ledger keyed by (payer, nonce) and bound to `apiKeyId`.
+ */
+export async function verifyAndSettleExact(
+  header: string,
+  resource: string,
+  apiKeyId?: string,
+): Promise<{ verification: PaymentVerification; settlement: FacilitatorSettleResponse | null }> {
+  const mode = X402_CONFIG.demoMode ? "demo" : "onchain";
+  let payment: ExactPaymentPayload;
+  try {
+    payment = decodePaymentHeader(header);
+  } catch (e) {
+    const reason = e instanceof PaymentHeaderError ? `${e.reason}: ${e.message}` : `invalid_x_payment: ${String(e)}`;
+    return { verification: { valid: false, reason, mode }, settlement: null };
+  }
+
+  const requirement = buildX402Requirement(resource);
+  const auth        = payment.payload.authorization;
+
+  // Already settled with units left (amount covered several drills): spend one, don't re-settle.
+  // The signature is public once settled, so it is checked again and the ledger enforces the key.
+  const known = getPaymentLedger().get(authorizationId(auth));
+  if (known?.settlementTx) {
+    if (authorizationSigner(payment, requirement)?.toLowerCase() !== known.payer.toLowerCase()) {
+      return { verification: { valid: false, reason: "invalid_signature", mode, from: known.payer }, settlement: null };
+    }
+    const settlement = { success: true, transaction: known.settlementTx, network: requirement.network, payer: known.payer };
+    return {
+      verification: redeem(authorizationId(auth), { valid: true, reason: "prepaid_units", mode, amount: known.amount, from: known.payer }, { apiKeyId }),
+      settlement,
+    };
+  }
+
+  const settlement  = await settleViaFacilitator(payment, requirement);
+  if (!settlement.success) {
+    return { verification: { valid: false, reason: settlement.errorReason ?? "settlement_failed", mode, from: settlement.payer }, settlement };
+  }
+
+  const verification = redeem(authorizationId(auth), {
+    valid:  true,
+    reason: settlement.simulated ? "demo_settled — EIP-3009 signature verified" : "settled_onchain — transferWithAuthorization confirmed",
+    mode,
+    amount: auth.value,
+    from:   settlement.payer,
+    units:  unitsFor(BigInt(auth.value)),
+  }, { settlementTx: settlement.transaction, apiKeyId });
+  return { verification, settlement };
+}
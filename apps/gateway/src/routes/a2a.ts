@@ -0,0 +1,310 @@
+/**
+ * routes/a2a.ts — Agent-to-Agent (A2A v0.3.0) JSON-RPC endpoint
+ * ===============================================================
+ * POST /a2a                          — JSON-RPC: message/send, tasks/get, tasks/cancel
+ * GET  /.well-known/agent-card.json  — A2A AgentCard (skills + JSON-RPC url)
+ *
+ * A message asks for a "check" or a "drill", either as a data part
+ *   { "skill": "drill", "asset": "WETH", "shockPct": 8, "paymentTxHash": "0x…" }
+ * or as text ("drill WBTC"). The request becomes a Task that other agents
+ * poll with tasks/get; a completed task carries the DefenseReceipt as a
+ * data artifact. Unpaid drills stop in "input-required" with the x402
+ * PaymentRequirements in the status message. X-API-KEY scopes and protocol
+ * binding apply exactly as on the REST routes; only message/send spends
+ * rate limit and quota. A task belongs to the key that created it (or to
+ * anonymous callers): other callers get "Task not found". Follow-ups are
+ * accepted only while the task is input-required.
+ *
+ * Spec: https://a2a-protocol.org/v0.3.0/specification/
+ */
+import { randomUUID } from "node:crypto";
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { buildDefenseReceipt } from "../services/defenseReceipt.js";
+import { acceptDrillPayment, buildPaidDrillReceipt } from "../services/drillPayment.js";
+import { drillScenarioSchema } from "../services/drillScenario.js";
+import { stressSchema } from "../services/stressDrill.js";
+import { buildX402Error } from "../lib/x402.js";
+import { ApiKeyError, authorize, chargeApiKey, defaultProtocolId, identifyApiKey } from "../lib/apiAuth.js";
+import type { ApiKeyRecord } from "../lib/apiKeys.js";
+import { dispatch, isJsonRpcRequest, rpcError, JsonRpcMethodError, RPC_ERRORS } from "../lib/jsonRpc.js";
+import type { DefenseReceipt } from "../lib/types.js";
+
+// A2A-specific JSON-RPC error codes
+const TASK_NOT_FOUND      = -32001;
+const TASK_NOT_CANCELABLE = -32002;
+
+const MAX_TASKS = 1000;
+
+type TaskState = "submitted" | "working" | "input-required" | "completed" | "canceled" | "failed" | "rejected";
+const TERMINAL: ReadonlySet<TaskState> = new Set(["completed", "canceled", "failed", "rejected"]);
+
+type Part =
+  | { kind: "text"; text: string }
+  | { kind: "data"; data: Record<string, unknown> };
+
+interface Message {
+  kind:       "message";
+  role:       "user" | "agent";
+  messageId:  string;
+  parts:      Part[];
+  taskId?:    string;
+  contextId?: string;
+}
+
+interface Artifact { artifactId: string; name: string; description?: string; parts: Part[]; }
+
+interface Task {
+  kind:       "task";
+  id:         string;
+  contextId:  string;
+  status:     { state: TaskState; message?: Message; timestamp: string };
+  artifacts?: Artifact[];
+  history:    Message[];
+  metadata?:  Record<string, unknown>;
+}
+
+const tasks    = new Map<string, Task>();
+const requests = new Map<string, SkillRequest>(); // task id → parsed skill request
+const owners   = new Map<string, string>();       // task id → creating key id ("" = anonymous)
+
+const partSchema = z.union([
+  z.object({ kind: z.literal("text"), text: z.string() }),
+  z.object({ kind: z.literal("data"), data: z.record(z.string(), z.unknown()) }),
+  z.object({ kind: z.literal("file") }).passthrough(),
+]);
+
+const sendSchema = z.object({
+  message: z.object({
+    kind:      z.literal("message").default("message"),
+    role:      z.enum(["user", "agent"]),
+    messageId: z.string(),
+    parts:     z.array(partSchema).min(1),
+    taskId:    z.string().optional(),
+    contextId: z.string().optional(),
+  }),
+  configuration: z.object({
+    blocking:      z.boolean().optional(),
+    historyLength: z.number().int().min(0).optional(),
+  }).optional(),
+});
+
+const skillSchema = z.object({
+  skill:            z.enum(["check", "drill"]).default("check"),
+  asset:            z.string().toUpperCase().default("WETH"),
+  protocolId:       z.string().optional(),
+  shockPct:         z.number().min(0).max(30).optional(),
+  blocks:           z.number().min(1).max(200).optional(),
+  liquidityDropPct: z.number().min(0).max(90).optional(),
+  stalenessSec:     z.number().min(0).max(600).optional(),
+  scenario:         drillScenarioSchema.optional(),
+  stress:           stressSchema.optional(),
+  paymentTxHash:    z.string().optional(),
+  xPayment:         z.string().optional(),
+});
+
+type SkillRequest = z.infer<typeof skillSchema> & { protocolId: string };
+
+/**
+ * Data parts win; otherwise parse "drill WBTC" / "check eth" from text.
+ * A follow-up on an existing task only overrides what it sends (e.g. payment).
+ */
+function parseSkillRequest(parts: Array<z.infer<typeof partSchema>>, apiKey?: ApiKeyRecord, prior?: SkillRequest): SkillRequest {
+  const withProtocol = (r: z.infer<typeof skillSchema>): SkillRequest => ({ ...r, protocolId: r.protocolId ?? defaultProtocolId(apiKey) });
+  const data = parts.find((p): p is { kind: "data"; data: Record<string, unknown> } => p.kind === "data");
+  if (data) return withProtocol(skillSchema.parse({ ...prior, ...data.data }));
+  if (prior) return prior;
+  const text  = parts.filter((p): p is { kind: "text"; text: string } => p.kind === "text").map((p) => p.text).join(" ");
+  const skill = /\bdrill\b/i.test(text) ? "drill" : "check";
+  const asset = text.match(/\b(WETH|ETH|WBTC|BTC|LINK|USDC|ARB)\b/i)?.[1].toUpperCase();
+  const alias: Record<string, string> = { ETH: "WETH", BTC: "WBTC" };
+  return withProtocol(skillSchema.parse({ skill, asset: asset ? alias[asset] ?? asset : undefined }));
+}
+
+function agentMessage(task: Task, parts: Part[]): Message {
+  return { kind: "message", role: "agent", messageId: randomUUID(), parts, taskId: task.id, contextId: task.contextId };
+}
+
+function setState(task: Task, state: TaskState, message?: Message) {
+  if (TERMINAL.has(task.status.state)) return; // canceled tasks stay canceled
+  task.status = { state, message, timestamp: new Date().toISOString() };
+  if (message) task.history.push(message);
+}
+
+function remember(task: Task) {
+  tasks.set(task.id, task);
+  if (tasks.size > MAX_TASKS) {
+    const oldest = tasks.keys().next().value as string;
+    tasks.delete(oldest);
+    requests.delete(oldest);
+    owners.delete(oldest);
+  }
+}
+
+function receiptArtifact(receipt: DefenseReceipt): Artifact {
+  return {
+    artifactId:  receipt.runId,
+    name:        "defense-receipt",
+    description: `${receipt.mode} ${receipt.result.asset}: ${receipt.result.score}/100 ${receipt.result.levelName}`,
+    parts:       [{ kind: "data", data: receipt as unknown as Record<string, unknown> }],
+  };
+}
+
+async function runTask(task: Task, req: SkillRequest, apiKey?: ApiKeyRecord): Promise<void> {
+  setState(task, "working");
+  try {
+    if (req.skill === "check") {
+      const { receipt } = await buildDefenseReceipt({ mode: "check", protocolId: req.protocolId, asset: req.asset, paymentVerified: false });
+      if (task.status.state === "canceled") return;
+      task.artifacts = [receiptArtifact(receipt)];
+      setState(task, "completed", agentMessage(task, [{ kind: "text", text: `Risk check complete: ${receipt.result.score}/100 ${receipt.result.levelName}` }]));
+      return;
+    }
+
+    const resource = `/api/v1/drill/${req.asset}`;
+    const payment  = await acceptDrillPayment({ paymentTxHash: req.paymentTxHash, xPayment: req.xPayment, apiKeyId: apiKey?.id }, resource);
+    if (!payment || !payment.verification.valid) {
+      const x402 = buildX402Error(resource);
+      setState(task, "input-required", agentMessage(task, [
+        { kind: "text", text: payment ? `Payment rejected: ${payment.verification.reason}` : "Drill requires an x402 payment." },
+        { kind: "data", data: { x402PaymentRequired: x402.paymentRequired, hint: x402.hint } },
+      ]));
+      return;
+    }
+
+    const { receipt } = await buildPaidDrillReceipt(payment, {
+      protocolId:       req.protocolId,
+      asset:            req.asset,
+      shockPct:         req.shockPct,
+      blocks:           req.blocks,
+      liquidityDropPct: req.liquidityDropPct,
+      stalenessSec:     req.stalenessSec,
+      scenario:         req.scenario,
+      stress:           req.stress,
+    });
+    if (task.status.state === "canceled") return;
+    task.artifacts = [receiptArtifact(receipt)];
+    setState(task, "completed", agentMessage(task, [{ kind: "text", text: `Drill complete: ${receipt.result.score}/100 ${receipt.result.levelName}` }]));
+  } catch (e) {
+    setState(task, "failed", agentMessage(task, [{ kind: "text", text: `Task failed: ${String(e)}` }]));
+  }
+}
+
+function view(task: Task, historyLength?: number): Task {
+  if (historyLength === undefined) return task;
+  return { ...task, history: historyLength === 0 ? [] : task.history.slice(-historyLength) };
+}
+
+/** The task if `apiKey` created it; someone else's task is reported as not found */
+function getTask(id: unknown, apiKey: ApiKeyRecord | undefined): Task {
+  const task = tasks.get(String(id ?? ""));
+  if (!task || owners.get(task.id) !== (apiKey?.id ?? "")) throw new JsonRpcMethodError(TASK_NOT_FOUND, "Task not found", { id });
+  return task;
+}
+
+async function handleMethod(
+  method: string,
+  params: Record<string, unknown>,
+  apiKey: ApiKeyRecord | undefined,
+  charge: () => void,
+): Promise<unknown> {
+  switch (method) {
+    case "message/send": {
+      const { message, configuration } = sendSchema.parse(params);
+
+      // Follow-up on an input-required task (e.g. now with payment) resumes it;
+      // while a run is still in flight a second one would race it
+      const existing = message.taskId ? getTask(message.taskId, apiKey) : undefined;
+      if (existing && existing.status.state !== "input-required") {
+        throw new JsonRpcMethodError(RPC_ERRORS.INVALID_PARAMS, `Task ${existing.id} is ${existing.status.state}; only input-required tasks accept follow-ups`);
+      }
+
+      const skill = parseSkillRequest(message.parts, apiKey, existing && requests.get(existing.id));
+      try {
+        authorize(apiKey, skill.skill, skill.protocolId);
+        charge();
+      } catch (e) {
+        if (e instanceof ApiKeyError) throw new JsonRpcMethodError(RPC_ERRORS.INVALID_REQUEST, e.message, { error: e.code, status: e.statusCode });
+        throw e;
+      }
+
+      const task: Task = existing ?? {
+        kind:      "task",
+        id:        randomUUID(),
+        contextId: message.contextId ?? randomUUID(),
+        status:    { state: "submitted", timestamp: new Date().toISOString() },
+        history:   [],
+      };
+      task.history.push({ ...message, taskId: task.id, contextId: task.contextId } as Message);
+      remember(task);
+
+      requests.set(task.id, skill);
+      owners.set(task.id, apiKey?.id ?? "");
+      task.metadata = { skill: skill.skill, asset: skill.asset, protocolId: skill.protocolId };
+      const run = runTask(task, skill, apiKey);
+      if (configuration?.blocking) await run;
+      return view(task, configuration?.historyLength);
+    }
+    case "tasks/get": {
+      const historyLength = params.historyLength === undefined ? undefined : Number(params.historyLength);
+      return view(getTask(params.id, apiKey), historyLength);
+    }
+    case "tasks/cancel": {
+      const task = getTask(params.id, apiKey);
+      if (TERMINAL.has(task.status.state)) {
+        throw new JsonRpcMethodError(TASK_NOT_CANCELABLE, "Task cannot be canceled", { id: task.id, state: task.status.state });
+      }
+      setState(task, "canceled");
+      return task;
+    }
+    default:
+      throw new JsonRpcMethodError(RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+}
+
+/** A2A AgentCard — discovery document for agent clients */
+export function buildA2AAgentCard(gatewayUrl = process.env.GATEWAY_URL ?? "https://reality-firewall.io") {
+  return {
+    protocolVersion:    "0.3.0",
+    name:               "Reality Firewall Risk Agent v3",
+    description:        "Oracle-manipulation risk checks and paid attack drills for DeFi protocols. Returns signed Defense Receipts.",
+    url:                `${gatewayUrl}/a2a`,
+    preferredTransport: "JSONRPC",
+    version:            "3.0.0",
+    capabilities:       { streaming: false, pushNotifications: false, stateTransitionHistory: true },
+    defaultInputModes:  ["text/plain", "application/json"],
+    defaultOutputModes: ["application/json"],
+    skills: [
+      {
+        id:          "check",
+        name:        "Oracle risk check",
+        description: "Free risk check for an asset; returns a Defense Receipt artifact.",
+        tags:        ["defi", "oracle", "risk"],
+        examples:    ["check WETH", '{"skill":"check","asset":"WBTC"}'],
+      },
+      {
+        id:          "drill",
+        name:        "Oracle attack drill",
+        description: "x402-paid drill (shockPct, liquidityDropPct, stalenessSec, blocks, a multi-step scenario or a stress run); input-required until paid.",
+        tags:        ["defi", "oracle", "drill", "x402"],
+        examples:    ['{"skill":"drill","asset":"WETH","shockPct":8,"paymentTxHash":"0x…"}'],
+      },
+    ],
+  };
+}
+
+export async function a2aRoutes(fastify: FastifyInstance) {
+
+  // ── POST /a2a — JSON-RPC 2.0 ──────────────────────────────────────────────
+  fastify.post("/a2a", { preHandler: identifyApiKey }, async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!isJsonRpcRequest(req.body)) {
+      return reply.status(200).send(rpcError(null, RPC_ERRORS.INVALID_REQUEST, "Invalid JSON-RPC request"));
+    }
+    return reply.status(200).send(await dispatch(req.body, (m, p) => handleMethod(m, p, req.apiKey, () => chargeApiKey(req, reply))));
+  });
+
+  // ── GET /.well-known/agent-card.json — A2A discovery ──────────────────────
+  fastify.get("/.well-known/agent-card.json", async (_req: FastifyRequest, reply: FastifyReply) => {
+    return reply.status(200).send(buildA2AAgentCard());
+  });
+}
@@ -0,0 +1,141 @@
+/**
+ * routes/admin.ts — API Key Administration
+ * ==========================================
+ * POST   /api/v1/admin/keys      — Create a key (plaintext returned once)
+ * GET    /api/v1/admin/keys      — List keys (?protocolId=), hashes omitted
+ * GET    /api/v1/admin/keys/:id  — One key with current-month usage
+ * DELETE /api/v1/admin/keys/:id  — Revoke a key
+ *
+ * GET    /api/v1/admin/signing-keys              — Agent keyring (public parts)
+ * POST   /api/v1/admin/signing-keys/rotate       — Add a key; current one retires
+ * POST   /api/v1/admin/signing-keys/:kid/revoke  — Mark a key compromised
+ *
+ * All routes need a key with scope "admin". A protocol-bound admin key
+ * only manages keys of its own protocolId; ADMIN_API_KEY manages all,
+ * and only global admins may touch the agent signing keys.
+ */
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { ANY_PROTOCOL, API_SCOPES, getApiKeyStore, publicKeyRecord, type ApiKeyRecord } from "../lib/apiKeys.js";
+import { requireScope } from "../lib/apiAuth.js";
+import { RotationPendingError, keyStatus, listSigningKeys, revokeSigningKey, rotateSigningKey, type SigningKey } from "../lib/signingKeys.js";
+
+const createKeySchema = z.object({
+  protocolId:      z.string().min(1),
+  scopes:          z.array(z.enum(API_SCOPES)).min(1).default(["check"]),
+  label:           z.string().max(100).optional(),
+  rateLimitPerMin: z.number().int().min(0).max(10_000).optional(),
+  monthlyQuota:    z.number().int().min(0).optional(),
+});
+
+const listKeysSchema = z.object({
+  protocolId: z.string().optional(),
+});
+
+const rotateSchema = z.object({
+  activateAt:  z.iso.datetime().optional(),
+  compromised: z.boolean().default(false),
+  reason:      z.string().max(200).optional(),
+});
+
+const revokeSigningKeySchema = z.object({
+  reason: z.string().max(200).default("compromised"),
+  at:     z.iso.datetime().optional(),   // compromise may predate detection
+});
+
+function publicSigningKey(key: SigningKey) {
+  const { privateKeyPem: _pem, ...rest } = key;
+  return { ...rest, status: keyStatus(key) };
+}
+
+function isGlobalAdmin(admin: ApiKeyRecord | undefined): boolean {
+  return !admin || admin.protocolId === ANY_PROTOCOL;
+}
+
+function manages(admin: ApiKeyRecord | undefined, protocolId: string): boolean {
+  return !admin || admin.protocolId === ANY_PROTOCOL || admin.protocolId === protocolId;
+}
+
+export async function adminRoutes(fastify: FastifyInstance) {
+  const admin = requireScope("admin", (req) => (req.body as { protocolId?: string } | undefined)?.protocolId);
+
+  // ── POST /keys — Create API key ───────────────────────────────────────────
+  fastify.post("/keys", { preHandler: admin }, async (req: FastifyRequest, reply: FastifyReply) => {
+    const body = createKeySchema.parse(req.body);
+    if (body.protocolId === ANY_PROTOCOL && req.apiKey?.protocolId !== ANY_PROTOCOL) {
+      return reply.status(403).send({ error: "protocol_mismatch", message: "Only a global admin key can mint \"*\" keys" });
+    }
+    const { key, record } = getApiKeyStore().create(body);
+    return reply.status(201).send({
+      key,
+      record: publicKeyRecord(record),
+      note:   "Store this key now — only its hash is kept. Send it as X-API-KEY.",
+    });
+  });
+
+  // ── GET /keys — List API keys ─────────────────────────────────────────────
+  fastify.get("/keys", { preHandler: admin }, async (req: FastifyRequest, reply: FastifyReply) => {
+    const query = listKeysSchema.parse(req.query);
+    const scope = req.apiKey && req.apiKey.protocolId !== ANY_PROTOCOL ? req.apiKey.protocolId : query.protocolId;
+    const items = getApiKeyStore().list(scope).map(publicKeyRecord);
+    return reply.status(200).send({ items, total: items.length });
+  });
+
+  // ── GET /keys/:id — Key details + usage ───────────────────────────────────
+  fastify.get<{ Params: { id: string } }>("/keys/:id", { preHandler: admin }, async (req, reply) => {
+    const record = getApiKeyStore().get(req.params.id);
+    if (!record || !manages(req.apiKey, record.protocolId)) {
+      return reply.status(404).send({ error: "key_not_found", id: req.params.id });
+    }
+    return reply.status(200).send(publicKeyRecord(record));
+  });
+
+  // ── DELETE /keys/:id — Revoke API key ─────────────────────────────────────
+  fastify.delete<{ Params: { id: string } }>("/keys/:id", { preHandler: admin }, async (req, reply) => {
+    const store  = getApiKeyStore();
+    const record = store.get(req.params.id);
+    if (!record || !manages(req.apiKey, record.protocolId)) {
+      return reply.status(404).send({ error: "key_not_found", id: req.params.id });
+    }
+    if (record.id === req.apiKey?.id) {
+      return reply.status(400).send({ error: "cannot_revoke_self", message: "Revoke this key with another admin key" });
+    }
+    const revoked = store.revoke(record.id);
+    if (!revoked) {
+      return reply.status(400).send({ error: "not_revocable", message: "ADMIN_API_KEY is configured by environment; rotate it there" });
+    }
+    return reply.status(200).send({ revoked: true, record: publicKeyRecord(revoked) });
+  });
+
+  // ── GET /signing-keys — Agent keyring ─────────────────────────────────────
+  fastify.get("/signing-keys", { preHandler: admin }, async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!isGlobalAdmin(req.apiKey)) return reply.status(403).send({ error: "global_admin_required" });
+    return reply.status(200).send({ items: listSigningKeys().map(publicSigningKey) });
+  });
+
+  // ── POST /signing-keys/rotate — Rotate agent signing key ──────────────────
+  fastify.post("/signing-keys/rotate", { preHandler: admin }, async (req: FastifyRequest, reply: FastifyReply) => {
+    if (!isGlobalAdmin(req.apiKey)) return reply.status(403).send({ error: "global_admin_required" });
+    const body = rotateSchema.parse(req.body ?? {});
+    try {
+      const { key, previous } = rotateSigningKey({
+        activateAt:  body.activateAt ? new Date(body.activateAt) : undefined,
+        compromised: body.compromised,
+        reason:      body.reason,
+      });
+      return reply.status(201).send({ key: publicSigningKey(key), previous: publicSigningKey(previous) });
+    } catch (e) {
+      if (!(e instanceof RotationPendingError)) throw e;
+      return reply.status(409).send({ error: "rotation_pending", message: e.message, pending: publicSigningKey(e.pending) });
+    }
+  });
+
+  // ── POST /signing-keys/:kid/revoke — Compromised key ──────────────────────
+  fastify.post<{ Params: { kid: string } }>("/signing-keys/:kid/revoke", { preHandler: admin }, async (req, reply) => {
+    if (!isGlobalAdmin(req.apiKey)) return reply.status(403).send({ error: "global_admin_required" });
+    const body = revokeSigningKeySchema.parse(req.body ?? {});
+    const key  = revokeSigningKey(req.params.kid, body.reason, body.at ? new Date(body.at) : undefined);
+    if (!key) return reply.status(404).send({ error: "signing_key_not_found", kid: req.params.kid });
+    return reply.status(200).send({ revoked: true, key: publicSigningKey(key) });
+  });
+}
@@ -0,0 +1,78 @@
+/**
+ * routes/facilitator.ts — Local x402 Facilitator
+ * ================================================
+ * POST /facilitator/verify  — Verify an "exact" (EIP-3009) payment payload
+ * POST /facilitator/settle  — Verify + submit transferWithAuthorization
+ *
+ * Mirrors the Coinbase facilitator API so any x402 resource server (this
+ * gateway included, via X402_FACILITATOR_URL + X402_FACILITATOR_API_KEY) can
+ * settle through it. verify/settle spend the gateway's own settlement key, so
+ * they need an admin API key, and paymentRequirements may only name a
+ * resource: scheme, network, payTo, asset and amount are always this gateway's.
+ */
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { exactPaymentSchema, settleExactPayment, verifyExactPayment, type ExactPaymentPayload } from "../lib/x402Exact.js";
+import { buildX402Requirement } from "../lib/x402.js";
+import { requireScope } from "../lib/apiAuth.js";
+import type { X402PaymentRequirement } from "../lib/types.js";
+
+const facilitatorSchema = z.object({
+  x402Version:         z.number().optional(),
+  paymentPayload:      exactPaymentSchema,
+  paymentRequirements: z.record(z.string(), z.unknown()).optional(),
+});
+
+// Fields a caller may repeat but not change
+const PINNED_FIELDS = ["scheme", "network", "payTo", "asset", "maxAmountRequired"] as const;
+
+type Parsed =
+  | { ok: true; payment: ExactPaymentPayload; requirement: X402PaymentRequirement }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+function parse(body: unknown): Parsed {
+  const parsed = facilitatorSchema.safeParse(body);
+  if (!parsed.success) {
+    return { ok: false, status: 400, body: { error: "invalid_request", message: "Malformed facilitator request", issues: parsed.error.issues } };
+  }
+
+  const offered     = parsed.data.paymentRequirements ?? {};
+  const requirement = buildX402Requirement(typeof offered.resource === "string" ? offered.resource : "/api/v1/drill");
+  for (const field of PINNED_FIELDS) {
+    const value = offered[field];
+    if (value === undefined) continue;
+    if (String(value).toLowerCase() !== String(requirement[field]).toLowerCase()) {
+      return { ok: false, status: 400, body: {
+        error:    "requirement_mismatch",
+        field,
+        expected: requirement[field],
+        message:  `paymentRequirements.${field} must match this facilitator's requirement`,
+      } };
+    }
+  }
+  return { ok: true, payment: parsed.data.paymentPayload as ExactPaymentPayload, requirement };
+}
+
+export async function facilitatorRoutes(fastify: FastifyInstance) {
+  const admin = requireScope("admin", () => undefined);
+
+  // ── POST /verify ───────────────────────────────────────────────────────────
+  fastify.post("/verify", { preHandler: admin }, async (req: FastifyRequest, reply: FastifyReply) => {
+    const parsed = parse(req.body);
+    if (!parsed.ok) return reply.status(parsed.status).send(parsed.body);
+    return reply.status(200).send(await verifyExactPayment(parsed.payment, parsed.requirement));
+  });
+
+  // ── POST /settle ───────────────────────────────────────────────────────────
+  fastify.post("/settle", { preHandler: admin }, async (req: FastifyRequest, reply: FastifyReply) => {
+    const parsed = parse(req.body);
+    if (!parsed.ok) return reply.status(parsed.status).send(parsed.body);
+    return reply.status(200).send(await settleExactPayment(parsed.payment, parsed.requirement));
+  });
+
+  // ── GET /supported ─────────────────────────────────────────────────────────
+  fastify.get("/supported", async (_req: FastifyRequest, reply: FastifyReply) => {
+    const { network } = buildX402Requirement("/api/v1/drill");
+    return reply.status(200).send({ kinds: [{ x402Version: 1, scheme: "exact", network }] });
+  });
+}
@@ -0,0 +1,22 @@
+/**
+ * routes/jwks.ts — Agent Signing Key Discovery
+ * ==============================================
+ * GET /.well-known/jwks.json — every agent signing key (scheduled, active,
+ * retired, revoked) as Ed25519 JWKs keyed by the `kid` receipts carry.
+ *
+ * Verifiers should resolve a receipt's signature.kid here rather than
+ * trusting the agentPublicKey embedded in the receipt.
+ */
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { buildJwks } from "../lib/signingKeys.js";
+
+export async function jwksRoutes(fastify: FastifyInstance) {
+
+  // ── GET /.well-known/jwks.json — RFC 7517 key set ─────────────────────────
+  fastify.get("/.well-known/jwks.json", async (_req: FastifyRequest, reply: FastifyReply) => {
+    return reply.status(200)
+      .header("Content-Type", "application/jwk-set+json")
+      .header("Cache-Control", "public, max-age=300")
+      .send(buildJwks());
+  });
+}
@@ -0,0 +1,286 @@
+/**
+ * routes/mcp.ts — Model Context Protocol server (streamable HTTP)
+ * =================================================================
+ * POST   /mcp  — JSON-RPC requests/notifications (JSON responses, no SSE)
+ * GET    /mcp  — 405: this server never opens a server→client stream
+ * DELETE /mcp  — Ends the session named by Mcp-Session-Id
+ *
+ * Protocol version 2025-06-18, as advertised by buildAgentCard().
+ * Tools reuse the REST code paths: check_asset_risk → buildDefenseReceipt,
+ * run_drill → acceptDrillPayment (x402) + buildPaidDrillReceipt,
+ * verify_receipt → verifyReceipt, get_agent_identity → getAgentInfo.
+ * X-API-KEY is checked per tool call with the same scopes as the REST routes;
+ * only tools/call spends rate limit and quota.
+ *
+ * Every request after initialize must carry its Mcp-Session-Id. Sessions
+ * idle for MCP_SESSION_TTL_MS (default 30 min) expire, and at most
+ * MCP_MAX_SESSIONS (default 1000) are kept, least recently used evicted first.
+ *
+ * Spec: https://modelcontextprotocol.io/specification/2025-06-18/basic/transports
+ */
+import { randomUUID } from "node:crypto";
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import { buildDefenseReceipt } from "../services/defenseReceipt.js";
+import { acceptDrillPayment, buildPaidDrillReceipt } from "../services/drillPayment.js";
+import { drillScenarioSchema } from "../services/drillScenario.js";
+import { stressSchema } from "../services/stressDrill.js";
+import { buildX402Error } from "../lib/x402.js";
+import { loadOrGenerateKey } from "../lib/anchorClient.js";
+import { verifyReceipt } from "../lib/receiptSignature.js";
+import { getAgentInfo } from "../lib/erc8004.js";
+import { ApiKeyError, authorize, chargeApiKey, defaultProtocolId, identifyApiKey } from "../lib/apiAuth.js";
+import type { ApiKeyRecord, ApiScope } from "../lib/apiKeys.js";
+import {
+  dispatch, isJsonRpcRequest, rpcError, JsonRpcMethodError, RPC_ERRORS,
+} from "../lib/jsonRpc.js";
+import type { DefenseReceipt } from "../lib/types.js";
+
+const MCP_PROTOCOL_VERSION = "2025-06-18";
+const SUPPORTED_VERSIONS   = new Set([MCP_PROTOCOL_VERSION, "2025-03-26"]);
+
+const SESSION_TTL_MS = Number(process.env.MCP_SESSION_TTL_MS ?? 30 * 60_000);
+const MAX_SESSIONS   = Number(process.env.MCP_MAX_SESSIONS ?? 1000);
+
+// session id → last seen (ms); insertion order doubles as LRU order
+const sessions = new Map<string, number>();
+
+function openSession(): string {
+  const id = randomUUID();
+  sessions.set(id, Date.now());
+  while (sessions.size > MAX_SESSIONS) sessions.delete(sessions.keys().next().value as string);
+  return id;
+}
+
+/** True (and refreshed) if the session exists and has not idled past the TTL */
+function touchSession(id: string): boolean {
+  const seen = sessions.get(id);
+  if (seen === undefined) return false;
+  sessions.delete(id);
+  if (Date.now() - seen > SESSION_TTL_MS) return false;
+  sessions.set(id, Date.now());
+  return true;
+}
+
+// ── Tool input schemas ────────────────────────────────────────────────────────
+const checkArgs = z.object({
+  asset:      z.string().toUpperCase().default("WETH").describe("Asset symbol, e.g. WETH, WBTC, LINK, USDC"),
+  protocolId: z.string().default("demo-protocol").describe("Protocol the receipt is issued for (defaults to the API key's protocol)"),
+});
+
+const drillArgs = checkArgs.extend({
+  shockPct:         z.number().min(0).max(30).optional().describe("DEX price shock in %"),
+  blocks:           z.number().min(1).max(200).optional().describe("Blocks the shock is sustained"),
+  liquidityDropPct: z.number().min(0).max(90).optional().describe("Liquidity drained in %"),
+  stalenessSec:     z.number().min(0).max(600).optional().describe("Extra oracle staleness in seconds"),
+  scenario:         drillScenarioSchema.optional().describe("Multi-step drill timeline (price ramps, liquidity drains, oracle freezes); replaces the static overrides"),
+  stress:           stressSchema.optional().describe("Monte Carlo stress run (seed, runs, bounds); replaces the static overrides"),
+  paymentTxHash:    z.string().optional().describe("USDC transfer tx hash paying for the drill"),
+  xPayment:         z.string().optional().describe("x402 X-PAYMENT value (base64 EIP-3009 authorization)"),
+});
+
+const verifyArgs = z.object({
+  receipt: z.record(z.string(), z.unknown()).describe("Full DefenseReceipt as returned by check/drill"),
+});
+
+interface ToolResult {
+  content:            Array<{ type: "text"; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?:           boolean;
+}
+
+function toolResult(structured: Record<string, unknown>, isError = false): ToolResult {
+  return { content: [{ type: "text", text: JSON.stringify(structured, null, 2) }], structuredContent: structured, isError };
+}
+
+function receiptSummary(receipt: DefenseReceipt) {
+  const r = receipt.result;
+  return {
+    runId:        receipt.runId,
+    asset:        r.asset,
+    score:        r.score,
+    level:        r.levelName,
+    vulnClass:    r.vulnClass,
+    findings:     r.vulnerabilities.map((v) => ({ class: v.pattern ?? v.vulnClass, severity: v.severity })),
+    points:       Object.fromEntries(Object.entries(r.breakdown).map(([k, f]) => [k, f.weightedPoints])),
+    actions:      r.actions.map((a) => a.type),
+    evidenceHash: r.evidenceHash,
+    receipt,
+  };
+}
+
+const TOOLS = [
+  {
+    name:        "check_asset_risk",
+    title:       "Check asset oracle risk",
+    description: "Free oracle-manipulation risk check for an asset. Returns score, level, vulnerability class, recommended actions and a signed Defense Receipt.",
+    schema:      checkArgs,
+    async run(args: z.infer<typeof checkArgs>): Promise<ToolResult> {
+      const { receipt } = await buildDefenseReceipt({ mode: "check", protocolId: args.protocolId, asset: args.asset, paymentVerified: false });
+      return toolResult(receiptSummary(receipt));
+    },
+  },
+  {
+    name:        "run_drill",
+    title:       "Run paid attack drill",
+    description: "Simulates an oracle attack (price shock, liquidity drain, staleness), statically, as a multi-step scenario or as a seeded Monte Carlo stress run. Requires x402 payment: call without payment to receive the PaymentRequirements, then retry with paymentTxHash or xPayment.",
+    schema:      drillArgs,
+    async run(args: z.infer<typeof drillArgs>, apiKey?: ApiKeyRecord): Promise<ToolResult> {
+      const resource = `/api/v1/drill/${args.asset}`;
+      const payment  = await acceptDrillPayment({ paymentTxHash: args.paymentTxHash, xPayment: args.xPayment, apiKeyId: apiKey?.id }, resource);
+      if (!payment) return toolResult({ ...buildX402Error(resource) }, true);
+      if (!payment.verification.valid) {
+        return toolResult({
+          error:           "Payment verification failed",
+          reason:          payment.verification.reason,
+          paymentRequired: buildX402Error(resource).paymentRequired,
+        }, true);
+      }
+      const { verification, settlement } = payment;
+      const { receipt } = await buildPaidDrillReceipt(payment, {
+        protocolId:       args.protocolId,
+        asset:            args.asset,
+        shockPct:         args.shockPct,
+        blocks:           args.blocks,
+        liquidityDropPct: args.liquidityDropPct,
+        stalenessSec:     args.stalenessSec,
+        scenario:         args.scenario,
+        stress:           args.stress,
+      });
+      return toolResult({ ...receiptSummary(receipt), payment: { payer: verification.from, remainingUnits: verification.remainingUnits ?? 0, settlement } });
+    },
+  },
+  {
+    name:        "verify_receipt",
+    title:       "Verify Defense Receipt signature",
+    description: "Checks the Ed25519 signature of a Defense Receipt (v1 envelope or legacy hex) against its agentPublicKey.",
+    schema:      verifyArgs,
+    async run(args: z.infer<typeof verifyArgs>): Promise<ToolResult> {
+      const receipt = args.receipt as unknown as DefenseReceipt;
+      if (!receipt.signature || !receipt.agentPublicKey) {
+        return toolResult({ valid: false, error: "receipt.signature and receipt.agentPublicKey required" }, true);
+      }
+      return toolResult({ ...verifyReceipt(receipt), runId: receipt.runId });
+    },
+  },
+  {
+    name:        "get_agent_identity",
+    title:       "Get ERC-8004 agent identity",
+    description: "Returns this agent's ERC-8004 identity, registration card and Ed25519 public key.",
+    schema:      z.object({}),
+    async run(): Promise<ToolResult> {
+      const { publicKeyHex } = loadOrGenerateKey();
+      return toolResult({ ...(await getAgentInfo(publicKeyHex)) });
+    },
+  },
+] as const;
+
+type Tool = (typeof TOOLS)[number];
+
+// API key scope each receipt-issuing tool requires (same as its REST route)
+const TOOL_SCOPES: Record<string, ApiScope> = {
+  check_asset_risk: "check",
+  run_drill:        "drill",
+};
+
+async function handleMethod(
+  method: string,
+  params: Record<string, unknown>,
+  apiKey: ApiKeyRecord | undefined,
+  charge: () => void,
+): Promise<unknown> {
+  switch (method) {
+    case "initialize": {
+      const requested = String(params.protocolVersion ?? MCP_PROTOCOL_VERSION);
+      return {
+        protocolVersion: SUPPORTED_VERSIONS.has(requested) ? requested : MCP_PROTOCOL_VERSION,
+        capabilities:    { tools: { listChanged: false } },
+        serverInfo:      { name: "reality-firewall", title: "Reality Firewall Risk Agent", version: "3.0.0" },
+        instructions:    "Use check_asset_risk for free checks; run_drill requires an x402 payment (call once without payment to get the requirements).",
+      };
+    }
+    case "ping":
+      return {};
+    case "tools/list":
+      return {
+        tools: TOOLS.map((t) => ({
+          name:        t.name,
+          title:       t.title,
+          description: t.description,
+          inputSchema: z.toJSONSchema(t.schema, { io: "input" }),
+        })),
+      };
+    case "tools/call": {
+      const tool = TOOLS.find((t) => t.name === params.name) as Tool | undefined;
+      if (!tool) throw new JsonRpcMethodError(RPC_ERRORS.INVALID_PARAMS, `Unknown tool: ${String(params.name)}`);
+      const scope  = TOOL_SCOPES[tool.name];
+      const args   = { ...(params.arguments as Record<string, unknown> | undefined) };
+      if (scope && !args.protocolId) args.protocolId = defaultProtocolId(apiKey);
+      const parsed = tool.schema.safeParse(args);
+      if (!parsed.success) return toolResult({ error: "Invalid arguments", issues: parsed.error.issues }, true);
+      try {
+        if (scope) authorize(apiKey, scope, (parsed.data as { protocolId?: string }).protocolId);
+        charge();
+      } catch (e) {
+        if (e instanceof ApiKeyError) return toolResult({ error: e.code, message: e.message }, true);
+        throw e;
+      }
+      try {
+        return await (tool.run as (a: unknown, k?: ApiKeyRecord) => Promise<ToolResult>)(parsed.data, apiKey);
+      } catch (e) {
+        return toolResult({ error: String(e) }, true);
+      }
+    }
+    default:
+      throw new JsonRpcMethodError(RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+}
+
+export async function mcpRoutes(fastify: FastifyInstance) {
+
+  // ── POST /mcp — JSON-RPC over streamable HTTP ─────────────────────────────
+  fastify.post("/mcp", { preHandler: identifyApiKey }, async (req: FastifyRequest, reply: FastifyReply) => {
+    const body = req.body;
+    if (Array.isArray(body)) {
+      return reply.status(400).send(rpcError(null, RPC_ERRORS.INVALID_REQUEST, "Batching is not supported in MCP 2025-06-18"));
+    }
+    if (!isJsonRpcRequest(body)) {
+      return reply.status(400).send(rpcError(null, RPC_ERRORS.INVALID_REQUEST, "Invalid JSON-RPC request"));
+    }
+
+    const version = req.headers["mcp-protocol-version"] as string | undefined;
+    if (version && !SUPPORTED_VERSIONS.has(version)) {
+      return reply.status(400).send(rpcError(body.id ?? null, RPC_ERRORS.INVALID_REQUEST, `Unsupported MCP-Protocol-Version: ${version}`));
+    }
+
+    const handle = (m: string, p: Record<string, unknown>) => handleMethod(m, p, req.apiKey, () => chargeApiKey(req, reply));
+    if (body.method === "initialize") {
+      return reply.status(200).header("Mcp-Session-Id", openSession()).send(await dispatch(body, handle));
+    }
+
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    if (!sessionId) {
+      return reply.status(400).send(rpcError(body.id ?? null, RPC_ERRORS.INVALID_REQUEST, "Mcp-Session-Id header required; call initialize first"));
+    }
+    if (!touchSession(sessionId)) {
+      return reply.status(404).send(rpcError(body.id ?? null, RPC_ERRORS.INVALID_REQUEST, "Unknown or expired session"));
+    }
+
+    // Notifications and responses get 202 with no body
+    if (body.id === undefined) return reply.status(202).send();
+
+    return reply.status(200).send(await dispatch(body, handle));
+  });
+
+  // ── GET /mcp — no server-initiated stream ─────────────────────────────────
+  fastify.get("/mcp", async (_req: FastifyRequest, reply: FastifyReply) => {
+    return reply.status(405).header("Allow", "POST, DELETE").send({ error: "SSE stream not offered; use POST" });
+  });
+
+  // ── DELETE /mcp — terminate session ───────────────────────────────────────
+  fastify.delete("/mcp", async (req: FastifyRequest, reply: FastifyReply) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    if (!sessionId || !sessions.delete(sessionId)) return reply.status(404).send({ error: "Unknown session" });
+    return reply.status(204).send();
+  });
+}
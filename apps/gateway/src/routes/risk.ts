@@ -3,21 +3,41 @@
  * ======================================================
  * POST /api/v1/check          — Free risk check, no payment required
  * POST /api/v1/drill          — Paid drill, requires x402 USDC payment
+ * GET  /api/v1/drill/replay   — Packaged incident fixtures
+ * POST /api/v1/drill/replay   — Replay an incident through the current engine
  * POST /api/v1/anchor         — Anchor Defense Receipt on Sepolia
- * GET  /api/v1/receipt/:hash  — Look up anchored receipt
+ * GET  /api/v1/receipt/:hash  — Look up receipt by evidenceHash or runId
+ * GET  /api/v1/receipts        — Paginated receipt listing (filters)
+ * POST /api/v1/receipt/reconcile — Compare a receipt with ReceiptRegistry
+ * GET  /api/v1/signals/:asset/history — Rolling signal series + trend indicators
+ * GET  /api/v1/policies       — Active risk policies (id, version, hash, scope)
+ * GET  /api/v1/policies/:hash — Full rules behind a receipt's policyHash
  * GET  /api/v1/agent          — ERC-8004 agent card
  * GET  /api/v1/health         — Gateway health + stack info
+ *
+ * check / drill / replay / anchor are gated by X-API-KEY scopes (lib/apiAuth.ts).
  */
 import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { z } from "zod";
-import { getSignals } from "../lib/creClient.js";
-import { computeRisk, applyDrillOverrides } from "../services/riskEngine.js";
-import { buildX402Error, verifyPayment, X402_CONFIG } from "../lib/x402.js";
-import { loadOrGenerateKey, signPayload, verifySignature, anchorReceipt } from "../lib/anchorClient.js";
+import { buildDefenseReceipt } from "../services/defenseReceipt.js";
+import { acceptDrillPayment, buildPaidDrillReceipt } from "../services/drillPayment.js";
+import { drillScenarioSchema } from "../services/drillScenario.js";
+import { stressSchema } from "../services/stressDrill.js";
+import { forkSchema } from "../services/forkDrill.js";
+import { replayIncident } from "../services/incidentReplay.js";
+import { buildX402Error, X402_CONFIG } from "../lib/x402.js";
+import { encodePaymentResponse } from "../lib/x402Exact.js";
+import { loadOrGenerateKey, anchorReceipt } from "../lib/anchorClient.js";
+import { verifyReceipt } from "../lib/receiptSignature.js";
 import { getAgentInfo } from "../lib/erc8004.js";
+import { getReceiptStore } from "../lib/receiptStore.js";
+import { readOnchainReceipt, reconcileReceipt, registryConfigured } from "../lib/reconcile.js";
+import { ApiKeyError, requireScope } from "../lib/apiAuth.js";
+import { describePolicies, policyByHash } from "../lib/riskPolicies.js";
+import { signalHistory } from "../lib/signalHistory.js";
+import { incidentById, listIncidents } from "../lib/incidentFixtures.js";
 import type {
-  DefenseReceipt, CheckResponse, DrillResponse, AnchorResponse,
-  DrillRequest, CheckRequest, AnchorRequest,
+  DefenseReceipt, AnchorResponse, DrillRequest, AnchorRequest, RiskLevel,
 } from "../lib/types.js";
 
 const checkSchema = z.object({
@@ -33,88 +53,78 @@ const drillSchema = z.object({
   blocks:            z.number().min(1).max(200).optional(),
   liquidityDropPct:  z.number().min(0).max(90).optional(),
   stalenessSec:      z.number().min(0).max(600).optional(),
+  scenario:          drillScenarioSchema.optional(),   // multi-step timeline; replaces the static overrides
+  stress:            stressSchema.optional(),          // Monte Carlo run; replaces the static overrides
+  fork:              forkSchema.optional(),            // anchor + PolicyGuard.enforcePolicy on anvil
 });
 
+const replaySchema = z.object({
+  incidentId:  z.string(),
+  protocolId:  z.string().optional().default("demo-protocol"),
+  escalateAt:  z.enum(["LOW", "MEDIUM", "HIGH", "CRITICAL"]).default("HIGH"),
+});
+
+// score, level and isDrill always come from the stored receipt, never the caller
 const anchorSchema = z.object({
   evidenceHash: z.string().regex(/^0x[0-9a-f]{64}$/i),
-  runId:        z.string(),
-  score:        z.number().min(0).max(100),
-  level:        z.number().min(0).max(4),
-  isDrill:      z.boolean(),
 });
 
-async function buildDefenseReceipt(params: {
-  mode:         "check" | "drill";
-  protocolId:   string;
-  asset:        string;
-  paymentTxHash?: string;
-  paymentVerified: boolean;
-  paymentAmount?:  string;
-  paymentMode?:    string;
-  shockPct?:     number;
-  blocks?:       number;
-  liquidityDropPct?: number;
-  stalenessSec?: number;
-}): Promise<{ receipt: DefenseReceipt; response: CheckResponse | DrillResponse }> {
-  const { publicKeyHex } = loadOrGenerateKey();
-
-  // 1. Get oracle signals (CRE cascade)
-  let signals = await getSignals(params.asset, params.mode === "drill");
-
-  // 2. Apply drill overrides if any
-  if (params.mode === "drill" && (params.shockPct || params.liquidityDropPct || params.stalenessSec)) {
-    signals = applyDrillOverrides(signals, {
-      shockPct:          params.shockPct,
-      liquidityDropPct:  params.liquidityDropPct,
-      stalenessSec:      params.stalenessSec,
-    });
-  }
-
-  // 3. Compute risk (deterministic + optional Claude AI)
-  const result = await computeRisk(signals, params.mode === "drill");
-
-  // 4. Get agent identity (ERC-8004)
-  const agent = await getAgentInfo(publicKeyHex);
-
-  // 5. Build unsigned receipt
-  const unsignedReceipt = {
-    version:        "rf-v3" as const,
-    runId:          result.runId,
-    protocolId:     params.protocolId,
-    mode:           params.mode,
-    result,
-    paymentTxHash:  params.paymentTxHash,
-    paymentNetwork: params.paymentTxHash ? X402_CONFIG.network : undefined,
-    paymentVerified: params.paymentVerified,
-    paymentAmount:  params.paymentAmount,
-    agentId:        agent.agentId,
-    agentRegistry:  agent.agentRegistry,
-    agentPublicKey: publicKeyHex,
-    createdAtIso:   new Date().toISOString(),
-  };
-
-  // 6. Sign the receipt with Ed25519
-  const { signature } = signPayload(unsignedReceipt);
-
-  const receipt: DefenseReceipt = { ...unsignedReceipt, signature };
-
-  const response = {
-    receipt,
-    agent,
-    ...(params.mode === "drill" ? {
-      paymentTxHash:   params.paymentTxHash ?? "",
-      paymentVerified: params.paymentVerified,
-      paymentMode:     (params.paymentMode ?? "demo_accepted") as "demo_accepted" | "verified_onchain",
-    } : {}),
-  };
-
-  return { receipt, response: response as CheckResponse | DrillResponse };
-}
+// The fields reconciliation compares; the rest of the receipt passes through
+const reconcileSchema = z.object({
+  receipt: z.looseObject({
+    runId:   z.string().min(1),
+    mode:    z.enum(["check", "drill"]),
+    agentId: z.string().optional(),
+    result:  z.looseObject({
+      evidenceHash: z.string().regex(/^0x[0-9a-f]{64}$/i),
+      score:        z.number().min(0).max(100),
+      level:        z.number().int().min(0).max(4),
+    }),
+  }),
+});
+
+const historyQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).default(120),
+});
+
+const receiptListSchema = z.object({
+  protocolId: z.string().optional(),
+  asset:      z.string().toUpperCase().optional(),
+  mode:       z.enum(["check", "drill"]).optional(),
+  level:      z.coerce.number().int().min(0).max(4).optional(),
+  limit:      z.coerce.number().int().min(1).max(100).default(20),
+  offset:     z.coerce.number().int().min(0).default(0),
+});
+
+const EVIDENCE_HASH_RE = /^0x[0-9a-f]{64}$/i;
+
+// ReceiptRegistry custom errors → HTTP status for POST /anchor
+const ANCHOR_REVERT_STATUS: Record<string, number> = {
+  ReceiptAlreadyExists: 409,
+  UnauthorizedAgent:    403,
+  InvalidSignature:     403,
+  OnlyOwner:            403,
+  ZeroAddress:          400,
+};
 
 export async function riskRoutes(fastify: FastifyInstance) {
 
+  // Anchoring acts on the protocol the stored receipt was issued for. An
+  // unknown hash has no protocol to check the key against, so it is refused
+  // here; anonymous callers get their 401 before any receipt is looked up.
+  const anchorAuth = requireScope("anchor", (req) => {
+    if (!req.apiKey) return undefined;
+    const hash = (req.body as { evidenceHash?: unknown } | undefined)?.evidenceHash;
+    if (typeof hash !== "string" || !EVIDENCE_HASH_RE.test(hash)) {
+      throw new ApiKeyError(400, "invalid_evidence_hash", "evidenceHash must be a 0x-prefixed 32-byte hex string");
+    }
+    const receipt = getReceiptStore().getByEvidenceHash(hash);
+    if (!receipt) throw new ApiKeyError(404, "receipt_not_found", "Only receipts issued and stored by this gateway can be anchored.");
+    return receipt.protocolId;
+  });
+
   // ── POST /check — Free risk check ─────────────────────────────────────────
-  fastify.post("/check", async (req: FastifyRequest, reply: FastifyReply) => {
+  fastify.post("/check", { preHandler: requireScope("check") }, async (req: FastifyRequest, reply: FastifyReply) => {
     const body = checkSchema.parse(req.body);
     const { response } = await buildDefenseReceipt({
       mode:            "check",
@@ -126,96 +136,240 @@ export async function riskRoutes(fastify: FastifyInstance) {
   });
 
   // ── POST /drill — x402-gated attack drill ─────────────────────────────────
-  fastify.post("/drill", async (req: FastifyRequest, reply: FastifyReply) => {
+  fastify.post("/drill", { preHandler: requireScope("drill") }, async (req: FastifyRequest, reply: FastifyReply) => {
     const body = drillSchema.parse(req.body) as DrillRequest;
 
-    // Read payment tx from body or X-Payment-Tx header
-    const paymentTx = body.paymentTxHash
-      ?? (req.headers["x-payment-tx"] as string | undefined)
-      ?? (req.headers["x-payment"] as string | undefined);
+    const resource = `/api/v1/drill/${body.asset}`;
+
+    // Read payment from body, X-Payment-Tx header, or X-PAYMENT (tx hash or x402 "exact" payload)
+    const payment = await acceptDrillPayment({
+      paymentTxHash: body.paymentTxHash ?? (req.headers["x-payment-tx"] as string | undefined),
+      xPayment:      req.headers["x-payment"] as string | undefined,
+      apiKeyId:      req.apiKey?.id,
+    }, resource);
 
     // x402: return 402 if no payment provided
-    if (!paymentTx) {
-      const x402 = buildX402Error(`/api/v1/drill/${body.asset}`);
+    if (!payment) {
+      const x402 = buildX402Error(resource);
       return reply.status(402)
         .header("Content-Type", "application/json")
         .header("X-Payment-Required", Buffer.from(JSON.stringify(x402.paymentRequired)).toString("base64"))
         .send(x402);
     }
 
-    // Verify payment (demo or onchain)
-    const verification = await verifyPayment(paymentTx);
+    const { verification, settlement } = payment;
     if (!verification.valid) {
+      const x402 = buildX402Error(resource);
       return reply.status(402).send({
-        error:  "Payment verification failed",
-        reason: verification.reason,
-        hint:   `Send ${X402_CONFIG.priceAtomic} USDC to ${X402_CONFIG.payTo} on ${X402_CONFIG.network}`,
+        error:           "Payment verification failed",
+        reason:          verification.reason,
+        paymentRequired: x402.paymentRequired,
+        hint:            `Send ${X402_CONFIG.priceAtomic} USDC to ${X402_CONFIG.payTo} on ${X402_CONFIG.network}`,
       });
     }
 
-    const { response } = await buildDefenseReceipt({
-      mode:             "drill",
+    const { response } = await buildPaidDrillReceipt(payment, {
       protocolId:       body.protocolId ?? "demo-protocol",
       asset:            body.asset,
-      paymentTxHash:    paymentTx,
-      paymentVerified:  true,
-      paymentAmount:    verification.amount,
-      paymentMode:      verification.mode === "onchain" ? "verified_onchain" : "demo_accepted",
       shockPct:         body.shockPct,
       blocks:           body.blocks,
       liquidityDropPct: body.liquidityDropPct,
       stalenessSec:     body.stalenessSec,
+      scenario:         body.scenario,
+      stress:           body.stress,
+      fork:             body.fork,
     });
 
+    if (settlement) {
+      return reply.status(200)
+        .header("X-PAYMENT-RESPONSE", encodePaymentResponse(settlement))
+        .send(response);
+    }
+
     return reply.status(200)
-      .header("X-Payment-Response", JSON.stringify({ status: "accepted", txHash: paymentTx }))
+      .header("X-Payment-Response", JSON.stringify({
+        status:         "accepted",
+        txHash:         payment.paymentRef,
+        payer:          verification.from,
+        remainingUnits: verification.remainingUnits ?? 0,
+      }))
       .send(response);
   });
 
+  // ── GET /drill/replay — Packaged incident fixtures ────────────────────────
+  fastify.get("/drill/replay", async (_req: FastifyRequest, reply: FastifyReply) => {
+    const items = listIncidents().map(({ series, ...incident }) => ({ ...incident, points: series.length }));
+    return reply.status(200).send({ items });
+  });
+
+  // ── POST /drill/replay — Score an incident against its exploit block ──────
+  fastify.post("/drill/replay", { preHandler: requireScope("drill") }, async (req: FastifyRequest, reply: FastifyReply) => {
+    const body     = replaySchema.parse(req.body);
+    const incident = incidentById(body.incidentId);
+    if (!incident) {
+      return reply.status(404).send({ error: "incident_not_found", incidentId: body.incidentId, available: listIncidents().map((i) => i.id) });
+    }
+    return reply.status(200).send(replayIncident(incident, { protocolId: body.protocolId, escalateAt: body.escalateAt }));
+  });
+
   // ── POST /anchor — Anchor receipt on Sepolia ──────────────────────────────
-  fastify.post("/anchor", async (req: FastifyRequest, reply: FastifyReply) => {
-    const body = anchorSchema.parse(req.body) as AnchorRequest;
-    const { publicKeyHex } = loadOrGenerateKey();
-    const agent = await getAgentInfo(publicKeyHex);
+  fastify.post("/anchor", { preHandler: anchorAuth }, async (req: FastifyRequest, reply: FastifyReply) => {
+    const parsed = anchorSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: "invalid_evidence_hash", message: "evidenceHash must be a 0x-prefixed 32-byte hex string", issues: parsed.error.issues });
+    }
+    const body    = parsed.data as AnchorRequest;
+    const receipt = getReceiptStore().getByEvidenceHash(body.evidenceHash);
+    if (!receipt) {
+      return reply.status(404).send({
+        error:        "receipt_not_found",
+        evidenceHash: body.evidenceHash,
+        message:      "Only receipts issued and stored by this gateway can be anchored.",
+      });
+    }
 
     const result = await anchorReceipt({
-      evidenceHash: body.evidenceHash,
-      runId:        body.runId,
-      agentId:      agent.agentId,
-      score:        body.score,
-      level:        body.level,
-      isDrill:      body.isDrill,
+      evidenceHash: receipt.result.evidenceHash,
+      runId:        receipt.runId,
+      score:        receipt.result.score,
+      level:        receipt.result.level,
+      isDrill:      receipt.mode === "drill",
     });
 
+    if (result.success) {
+      getReceiptStore().update(body.evidenceHash, {
+        anchorTxHash:   result.txHash,
+        anchorNetwork:  result.simulated ? "simulated" : process.env.ANCHOR_NETWORK ?? "eip155:11155111",
+        anchorExplorer: result.explorerUrl,
+      });
+    }
+
     const response: AnchorResponse = {
       anchorTxHash:  result.txHash,
       explorerUrl:   result.explorerUrl,
       evidenceHash:  body.evidenceHash,
       simulated:     result.simulated,
+      blockNumber:   result.blockNumber,
+      status:        result.status,
     };
 
-    return reply.status(result.success ? 200 : 500).send({
+    if (!result.success) {
+      return reply.status(ANCHOR_REVERT_STATUS[result.revert?.code ?? ""] ?? 502).send({
+        ...response,
+        error:       result.revert?.code ?? "anchor_failed",
+        revertArgs:  result.revert?.args,
+        message:     result.error,
+        castCommand: result.castCommand,
+      });
+    }
+
+    return reply.status(200).send({
       ...response,
       castCommand:  result.castCommand,
       note:         result.simulated
         ? "Simulated anchor. Set ANCHOR_ENABLED=true + ANCHOR_PRIVATE_KEY + RECEIPT_REGISTRY_ADDRESS for real onchain tx."
-        : "Anchored onchain.",
+        : `Anchored onchain in block ${result.blockNumber}.`,
     });
   });
 
-  // ── GET /receipt/:hash — Look up anchored receipt ─────────────────────────
+  // ── GET /receipt/:hash — Look up receipt by evidenceHash or runId ───────
   fastify.get("/receipt/:hash", async (req: FastifyRequest<{ Params: { hash: string } }>, reply: FastifyReply) => {
     const { hash } = req.params;
-    // In production: read from ReceiptRegistry.sol via eth_call
-    // For demo: return not-found with helpful message
+    const store   = getReceiptStore();
+    const receipt = EVIDENCE_HASH_RE.test(hash) ? store.getByEvidenceHash(hash) : store.getByRunId(hash);
+    const evidenceHash = receipt?.result.evidenceHash ?? (EVIDENCE_HASH_RE.test(hash) ? hash : null);
+
+    if (!registryConfigured() || !evidenceHash) {
+      if (!receipt) {
+        return reply.status(404).send({
+          receipt:  null,
+          anchored: false,
+          message:  `Receipt ${hash} not found. Lookups accept an evidenceHash (0x + 64 hex) or a runId.`,
+        });
+      }
+      return reply.status(200).send({
+        receipt,
+        anchored: !!receipt.anchorTxHash && receipt.anchorNetwork !== "simulated",
+        hint:     "Set RECEIPT_REGISTRY_ADDRESS to confirm anchoring against ReceiptRegistry.sol.",
+      });
+    }
+
+    try {
+      if (receipt) {
+        const reconciliation = await reconcileReceipt(receipt);
+        return reply.status(200).send({
+          receipt,
+          anchored: reconciliation.status === "anchored",
+          reconciliation,
+        });
+      }
+      const onchain = await readOnchainReceipt(evidenceHash);
+      if (!onchain) {
+        return reply.status(404).send({
+          receipt:  null,
+          anchored: false,
+          message:  `Receipt ${hash} is neither stored by this gateway nor anchored onchain.`,
+        });
+      }
+      return reply.status(200).send({ receipt: null, anchored: true, onchain });
+    } catch (e) {
+      return reply.status(502).send({ error: "registry_unreachable", message: String(e), receipt });
+    }
+  });
+
+  // ── POST /receipt/reconcile — Prove receipt ↔ ReceiptRegistry match ──────
+  fastify.post("/receipt/reconcile", async (req: FastifyRequest, reply: FastifyReply) => {
+    const body = reconcileSchema.safeParse(req.body);
+    if (!body.success) {
+      return reply.status(400).send({
+        error:   "invalid_receipt",
+        message: "receipt needs runId, mode, result.evidenceHash (0x + 64 hex), result.score and result.level",
+        issues:  body.error.issues,
+      });
+    }
+    if (!registryConfigured()) {
+      return reply.status(503).send({
+        error: "registry_not_configured",
+        hint:  "Deploy contracts/src/ReceiptRegistry.sol, then set RECEIPT_REGISTRY_ADDRESS.",
+      });
+    }
+    try {
+      return reply.status(200).send(await reconcileReceipt(body.data.receipt as unknown as DefenseReceipt));
+    } catch (e) {
+      return reply.status(502).send({ error: "registry_unreachable", message: String(e) });
+    }
+  });
+
+  // ── GET /receipts — Paginated listing ─────────────────────────────────────
+  fastify.get("/receipts", async (req: FastifyRequest, reply: FastifyReply) => {
+    const query = receiptListSchema.parse(req.query);
+    const page  = getReceiptStore().list({ ...query, level: query.level as RiskLevel | undefined });
     return reply.status(200).send({
-      receipt:  null,
-      anchored: false,
-      message:  `Receipt ${hash} — onchain lookup requires RECEIPT_REGISTRY_ADDRESS to be set. Deploy ReceiptRegistry.sol and configure the env var.`,
-      hint:     "Deploy contracts/src/ReceiptRegistry.sol to Sepolia, then set RECEIPT_REGISTRY_ADDRESS.",
+      ...page,
+      nextOffset: page.offset + page.items.length < page.total ? page.offset + page.items.length : null,
     });
   });
 
+  // ── GET /signals/:asset/history — Rolling series + indicators ─────────────
+  fastify.get("/signals/:asset/history", async (req: FastifyRequest<{ Params: { asset: string } }>, reply: FastifyReply) => {
+    const { limit } = historyQuerySchema.parse(req.query);
+    const asset     = req.params.asset.toUpperCase();
+    const history   = signalHistory(asset, limit);
+    return reply.status(200).send({ asset, count: history.samples.length, ...history });
+  });
+
+  // ── GET /policies — Active risk policies ──────────────────────────────────
+  fastify.get("/policies", async (_req: FastifyRequest, reply: FastifyReply) => {
+    return reply.status(200).send({ items: describePolicies() });
+  });
+
+  // ── GET /policies/:hash — Rules behind a receipt's policyHash ─────────────
+  fastify.get("/policies/:hash", async (req: FastifyRequest<{ Params: { hash: string } }>, reply: FastifyReply) => {
+    const policy = policyByHash(req.params.hash);
+    if (!policy) return reply.status(404).send({ error: "policy_not_found", hash: req.params.hash });
+    return reply.status(200).send({ hash: req.params.hash.toLowerCase(), policy });
+  });
+
   // ── GET /agent — ERC-8004 agent card ──────────────────────────────────────
   fastify.get("/agent", async (_req: FastifyRequest, reply: FastifyReply) => {
     const { publicKeyHex } = loadOrGenerateKey();
@@ -232,18 +386,16 @@ export async function riskRoutes(fastify: FastifyInstance) {
       .send(agent.card);
   });
 
-  // ── POST /receipt/verify — Verify Ed25519 signature ──────────────────────
+  // ── POST /receipt/verify — Verify Ed25519 signature (v1 envelope or legacy) ─
   fastify.post("/receipt/verify", async (req: FastifyRequest, reply: FastifyReply) => {
     const body = req.body as { receipt: DefenseReceipt };
     if (!body.receipt?.signature || !body.receipt?.agentPublicKey) {
       return reply.status(400).send({ error: "receipt.signature and receipt.agentPublicKey required" });
     }
-    const { signature, agentPublicKey, ...unsigned } = body.receipt;
-    const valid = verifySignature(unsigned, signature, agentPublicKey);
+    const verification = verifyReceipt(body.receipt);
     return reply.status(200).send({
-      valid,
-      message: valid ? "✅ Signature valid — receipt is authentic" : "❌ Signature invalid",
-      alg:     "Ed25519",
+      ...verification,
+      message: verification.valid ? "✅ Signature valid — receipt is authentic" : "❌ Signature invalid",
     });
   });
 
@@ -274,6 +426,9 @@ export async function riskRoutes(fastify: FastifyInstance) {
           enabled:    process.env.ANCHOR_ENABLED === "true",
           registry:   process.env.RECEIPT_REGISTRY_ADDRESS ?? "not configured",
         },
+        receipts: {
+          store:      getReceiptStore().kind,
+        },
         claude: {
           configured: !!process.env.ANTHROPIC_API_KEY,
           model:      "claude-sonnet-4-20250514",
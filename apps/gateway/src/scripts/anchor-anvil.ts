@@ -0,0 +1,84 @@
+/**
+ * scripts/anchor-anvil.ts — Anchoring Check Against anvil
+ * =========================================================
+ * Run: pnpm check:anchor   (from apps/gateway, after `forge build` in contracts/)
+ *
+ * Exercises lib/anchorClient.ts anchorReceipt() for real: a throwaway
+ * anvil node (lib/anvil.ts), a freshly deployed ReceiptRegistry and the
+ * well-known anvil dev keys. Checks that
+ *   1. a receipt is signed, broadcast and confirmed, and getReceipt()
+ *      returns exactly what was anchored
+ *   2. anchoring the same evidenceHash again decodes ReceiptAlreadyExists
+ *   3. a wallet the registry has not authorized decodes UnauthorizedAgent
+ * Exits 1 on the first failed check.
+ */
+import { createHash } from "node:crypto";
+import { Contract, ContractFactory, Wallet, getAddress } from "ethers";
+import { RECEIPT_REGISTRY_ABI, anchorReceipt, runIdHash, type AnchorParams } from "../lib/anchorClient.js";
+import { FORGE_OUT_DIR, loadArtifact, startAnvil, stopAnvil } from "../lib/anvil.js";
+
+// anvil dev accounts 0 and 1
+const OWNER_KEY    = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const STRANGER_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+
+function check(ok: boolean, label: string, detail?: unknown): void {
+  console.log(`${ok ? "✓" : "✗"} ${label}${ok || detail === undefined ? "" : ` — ${JSON.stringify(detail)}`}`);
+  if (!ok) throw new Error(`check failed: ${label}`);
+}
+
+async function main(): Promise<void> {
+  const artifact = loadArtifact("ReceiptRegistry");
+  if (!artifact) throw new Error(`ReceiptRegistry artifact not found in ${FORGE_OUT_DIR} — run forge build in contracts/`);
+
+  const node = await startAnvil();
+  try {
+    const owner    = new Wallet(OWNER_KEY, node.provider);
+    const deployed = await new ContractFactory(artifact.abi, artifact.bytecode, owner).deploy();
+    await deployed.waitForDeployment();
+    const registryAddress = await deployed.getAddress();
+    const registry = new Contract(registryAddress, RECEIPT_REGISTRY_ABI, node.provider);
+    console.log(`ReceiptRegistry deployed at ${registryAddress} on ${node.url}`);
+
+    Object.assign(process.env, {
+      ANCHOR_ENABLED:           "true",
+      ANCHOR_RPC_URL:           node.url,
+      ANCHOR_PRIVATE_KEY:       OWNER_KEY,
+      RECEIPT_REGISTRY_ADDRESS: registryAddress,
+      ANCHOR_CONFIRMATIONS:     "1",
+    });
+    delete process.env.AGENT_ADDRESS;
+
+    const params: AnchorParams = {
+      evidenceHash: "0x" + createHash("sha256").update(`anchor-anvil:${Date.now()}`).digest("hex"),
+      runId:        `rfw_anvil_${Date.now()}`,
+      score:        72,
+      level:        3,
+      isDrill:      true,
+    };
+
+    // 1. Real anchor, read back
+    const anchored = await anchorReceipt(params);
+    check(anchored.success && !anchored.simulated && anchored.status === "confirmed", "anchorReceipt confirmed", anchored);
+    const onchain = await registry.getReceipt(params.evidenceHash);
+    check(onchain.runIdHash === runIdHash(params.runId), "runIdHash matches", onchain.runIdHash);
+    check(getAddress(onchain.agentId) === owner.address, "agentId is the anchoring wallet", onchain.agentId);
+    check(Number(onchain.score) === params.score && Number(onchain.level) === params.level, "score and level match", [onchain.score, onchain.level]);
+    check(onchain.isDrill === params.isDrill, "isDrill matches", onchain.isDrill);
+
+    // 2. Same evidenceHash again
+    const again = await anchorReceipt(params);
+    check(!again.success && again.revert?.code === "ReceiptAlreadyExists", "re-anchor decodes ReceiptAlreadyExists", again.revert ?? again.error);
+
+    // 3. Wallet the registry never authorized
+    process.env.ANCHOR_PRIVATE_KEY = STRANGER_KEY;
+    const stranger = await anchorReceipt({ ...params, evidenceHash: "0x" + "ab".repeat(32) });
+    check(!stranger.success && stranger.revert?.code === "UnauthorizedAgent", "unauthorized wallet decodes UnauthorizedAgent", stranger.revert ?? stranger.error);
+  } finally {
+    stopAnvil(node);
+  }
+}
+
+main().then(
+  () => { console.log("anchoring check passed"); process.exit(0); },
+  (e) => { console.error(e instanceof Error ? e.message : String(e)); process.exit(1); },
+);
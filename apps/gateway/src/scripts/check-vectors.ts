@@ -0,0 +1,98 @@
+/**
+ * scripts/check-vectors.ts — Golden Vectors Through the Gateway
+ * ===============================================================
+ * Run: pnpm test   (from apps/gateway; type-checking is `pnpm lint`'s job)
+ *
+ * packages/risk-core checks vectors/golden.json against assessRisk()
+ * directly. This runs the same vectors through services/riskEngine.ts
+ * computeRisk(), the wrapper every receipt goes through, and requires the
+ * identical score and evidenceHash, so policy resolution, the liquidity
+ * model and context threading cannot drift from the core unnoticed.
+ *
+ * Policies and markets are read from paths that do not exist, so every
+ * vector resolves to DEFAULT_POLICY with no market, as in the core check.
+ * Vectors with their own `policy`, with `attack` economics (derived from the
+ * market config) or with an estimated liquidity basis other than
+ * source-reported cannot be expressed through the gateway and are skipped.
+ * Exits 1 on any mismatch.
+ */
+import { readFileSync } from "node:fs";
+import type { DrillProvenance, LiquidityModel, ScoringSignals, TrendIndicators } from "@reality-firewall/risk-core";
+import type { OracleSignals } from "../lib/types.js";
+
+interface GoldenVector {
+  name:     string;
+  signals:  ScoringSignals;
+  context:  { runId: string; timestamp: number; isDrill: boolean; trend?: TrendIndicators; attack?: unknown; liquidity?: LiquidityModel; drill?: DrillProvenance };
+  policy?:  unknown;
+  expected: { score: number; levelName: string; policyHash: string; evidenceHash: string };
+}
+
+const GOLDEN_PATH = new URL("../../../../packages/risk-core/vectors/golden.json", import.meta.url);
+
+function skipReason(v: GoldenVector): string | null {
+  if (v.policy)                return "custom policy";
+  if (v.context.attack)        return "attack economics come from the market config";
+  const basis = v.context.liquidity?.basis;
+  if (basis && basis !== "amm-state" && basis !== "source-reported") return `liquidity basis ${basis}`;
+  return null;
+}
+
+/** The vector's scoring inputs as the gateway's live signals */
+function oracleSignals(v: GoldenVector): OracleSignals {
+  const { liquidity } = v.context;
+  return {
+    ...v.signals,
+    depth: liquidity && {
+      venue: liquidity.venue, pool: liquidity.pool, referenceMovePct: 2, depthUsd: v.signals.liquidityDepthUsd, points: [],
+    },
+    funding:     { status: "unavailable", reason: "golden vector", tried: [] },
+    blockNumber: 0,
+    feedAddress: "",
+    sourceLabel: "golden-vector",
+    timestamp:   v.context.timestamp,
+  };
+}
+
+async function main(): Promise<void> {
+  Object.assign(process.env, {
+    RISK_POLICY_PATH:      "/nonexistent/risk-policies.json",
+    PROTOCOL_MARKETS_PATH: "/nonexistent/protocol-markets.json",
+    ANTHROPIC_API_KEY:     "",
+  });
+  const { computeRisk } = await import("../services/riskEngine.js");
+
+  const golden = JSON.parse(readFileSync(GOLDEN_PATH, "utf8")) as { vectors: GoldenVector[] };
+  let failures = 0;
+  let checked  = 0;
+  for (const v of golden.vectors) {
+    const skip = skipReason(v);
+    if (skip) {
+      console.log(`- ${v.name} (skipped: ${skip})`);
+      continue;
+    }
+    const { runId, timestamp, isDrill, trend, drill } = v.context;
+    const r = await computeRisk(oracleSignals(v), isDrill, { runId, timestamp, trend, drill, protocolId: "golden-vectors" });
+    checked++;
+    const diff = [
+      r.score !== v.expected.score                   && `score: expected ${v.expected.score}, got ${r.score}`,
+      r.policy.hash !== v.expected.policyHash        && `policyHash: expected ${v.expected.policyHash}, got ${r.policy.hash}`,
+      r.evidenceHash !== v.expected.evidenceHash     && `evidenceHash: expected ${v.expected.evidenceHash}, got ${r.evidenceHash}`,
+    ].filter(Boolean);
+    if (diff.length) {
+      failures++;
+      console.error(`✗ ${v.name}`);
+      for (const d of diff) console.error(`    ${d}`);
+    } else {
+      console.log(`✓ ${v.name} (score ${r.score}, ${r.levelName})`);
+    }
+  }
+
+  if (failures) throw new Error(`${failures} of ${checked} vectors differ through computeRisk()`);
+  console.log(`${checked} vectors match through computeRisk()`);
+}
+
+main().then(
+  () => process.exit(0),
+  (e) => { console.error(e instanceof Error ? e.message : e); process.exit(1); },
+);
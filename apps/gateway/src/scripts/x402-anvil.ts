@@ -0,0 +1,127 @@
+/**
+ * scripts/x402-anvil.ts — x402 "exact" Settlement Check Against anvil
+ * ====================================================================
+ * Run: pnpm check:x402   (from apps/gateway, after `forge build` in contracts/)
+ *
+ * Exercises lib/x402Exact.ts for real: a throwaway anvil node (lib/anvil.ts),
+ * a freshly deployed MockUSDC (contracts/src/mocks/MockUSDC.sol, EIP-3009)
+ * and the well-known anvil dev keys. Each X-PAYMENT goes through
+ * verify → settle (transferWithAuthorization) → ledger redeem. Checks that
+ *   1. a valid authorization settles on chain, pays payTo and is redeemed
+ *      in the ledger against its settlement tx
+ *   2. the same authorization again is refused, and the token reports its
+ *      nonce as used
+ *   3. an authorization past validBefore is refused (authorization_expired),
+ *      and the token would revert it too
+ *   4. a value below maxAmountRequired is refused (amount_low)
+ * Exits 1 on the first failed check.
+ */
+import { Contract, ContractFactory, NonceManager, Signature, Wallet, hexlify, randomBytes } from "ethers";
+import { FORGE_OUT_DIR, loadArtifact, startAnvil, stopAnvil } from "../lib/anvil.js";
+
+// anvil dev accounts 0 (deployer + settler), 1 (payer) and 2 (payTo)
+const SETTLER_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const PAYER_KEY   = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const PAY_TO      = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const PRICE       = 1000n;
+
+function check(ok: boolean, label: string, detail?: unknown): void {
+  console.log(`${ok ? "✓" : "✗"} ${label}${ok || detail === undefined ? "" : ` — ${JSON.stringify(detail)}`}`);
+  if (!ok) throw new Error(`check failed: ${label}`);
+}
+
+async function main(): Promise<void> {
+  const artifact = loadArtifact("MockUSDC");
+  if (!artifact) throw new Error(`MockUSDC artifact not found in ${FORGE_OUT_DIR} — run forge build in contracts/`);
+
+  const node = await startAnvil();
+  try {
+    const settler  = new NonceManager(new Wallet(SETTLER_KEY, node.provider));   // deploy + mint back to back
+    const payer    = new Wallet(PAYER_KEY, node.provider);
+    const deployed = await new ContractFactory(artifact.abi, artifact.bytecode, settler).deploy();
+    await deployed.waitForDeployment();
+    const tokenAddress = await deployed.getAddress();
+    const token = new Contract(tokenAddress, artifact.abi, settler);
+    await (await token.mint(payer.address, 1_000_000n)).wait();
+    console.log(`MockUSDC deployed at ${tokenAddress} on ${node.url}`);
+
+    // X402_CONFIG is read when lib/x402.ts loads, so the gateway modules are imported after this
+    Object.assign(process.env, {
+      X402_DEMO_MODE:           "false",
+      X402_RPC_URL:             node.url,
+      X402_CHAIN_ID:            "31337",
+      X402_TOKEN_ADDRESS:       tokenAddress,
+      X402_PRICE_ATOMIC:        String(PRICE),
+      X402_SETTLER_PRIVATE_KEY: SETTLER_KEY,
+      PAYMENT_ADDRESS:          PAY_TO,
+      PAYMENT_LEDGER:           "memory",
+    });
+    delete process.env.X402_FACILITATOR_URL;
+    const { authorizationId, decodePaymentHeader, verifyAndSettleExact, verifyExactPayment } = await import("../lib/x402Exact.js");
+    const { getPaymentLedger } = await import("../lib/paymentLedger.js");
+
+    const now = Math.floor(Date.now() / 1000);
+    async function pay(overrides: { value?: bigint; validBefore?: number } = {}) {
+      const authorization = {
+        from:        payer.address,
+        to:          PAY_TO,
+        value:       String(overrides.value ?? PRICE),
+        validAfter:  "0",
+        validBefore: String(overrides.validBefore ?? now + 300),
+        nonce:       hexlify(randomBytes(32)),
+      };
+      const signature = await payer.signTypedData(
+        { name: "USDC", version: "2", chainId: 31337, verifyingContract: tokenAddress },
+        {
+          TransferWithAuthorization: [
+            { name: "from", type: "address" }, { name: "to", type: "address" }, { name: "value", type: "uint256" },
+            { name: "validAfter", type: "uint256" }, { name: "validBefore", type: "uint256" }, { name: "nonce", type: "bytes32" },
+          ],
+        },
+        authorization,
+      );
+      const header = Buffer.from(JSON.stringify({ x402Version: 1, scheme: "exact", network: "eip155:31337", payload: { signature, authorization } })).toString("base64");
+      return { header, authorization, signature };
+    }
+
+    // 1. Valid authorization: verify → settle → redeem
+    const valid = await pay();
+    const verified = await verifyExactPayment(decodePaymentHeader(valid.header));
+    check(verified.isValid, "valid authorization verifies", verified);
+    const settled = await verifyAndSettleExact(valid.header, "/api/v1/drill");
+    check(settled.verification.valid && !!settled.settlement?.success && !settled.settlement.simulated, "valid authorization settles on chain", settled);
+    check(await token.balanceOf(PAY_TO) === PRICE, "payTo received the payment", String(await token.balanceOf(PAY_TO)));
+    const record = getPaymentLedger().get(authorizationId(valid.authorization));
+    check(record?.settlementTx === settled.settlement!.transaction && record.unitsUsed === record.unitsTotal, "ledger redeemed the unit against the settlement tx", record);
+
+    // 2. Replayed nonce
+    const replay = await verifyAndSettleExact(valid.header, "/api/v1/drill");
+    check(!replay.verification.valid, "replayed authorization is refused", replay.verification);
+    check(await token.authorizationState(payer.address, valid.authorization.nonce) === true, "token marks the nonce used");
+    const reverified = await verifyExactPayment(decodePaymentHeader(valid.header));
+    check(reverified.invalidReason === "nonce_already_used", "verify reports nonce_already_used", reverified);
+
+    // 3. Expired validBefore
+    const expired = await pay({ validBefore: now - 1 });
+    const late = await verifyAndSettleExact(expired.header, "/api/v1/drill");
+    check(!late.verification.valid && late.settlement?.errorReason === "authorization_expired", "expired authorization is refused", late);
+    const sig = Signature.from(expired.signature);
+    const a   = expired.authorization;
+    const onchain = await token.transferWithAuthorization.staticCall(a.from, a.to, a.value, a.validAfter, a.validBefore, a.nonce, sig.v, sig.r, sig.s)
+      .then(() => "accepted", (e: { revert?: { name?: string } }) => e.revert?.name ?? "reverted");
+    check(onchain === "AuthorizationExpired", "token reverts the expired authorization", onchain);
+
+    // 4. Value below maxAmountRequired
+    const short = await pay({ value: PRICE - 1n });
+    const low = await verifyAndSettleExact(short.header, "/api/v1/drill");
+    check(!low.verification.valid && !!low.settlement?.errorReason?.startsWith("amount_low"), "underpaying authorization is refused", low);
+    check(await token.balanceOf(PAY_TO) === PRICE, "refused payments moved no funds", String(await token.balanceOf(PAY_TO)));
+  } finally {
+    stopAnvil(node);
+  }
+}
+
+main().then(
+  () => { console.log("x402 settlement check passed"); process.exit(0); },
+  (e) => { console.error(e instanceof Error ? e.message : String(e)); process.exit(1); },
+);
@@ -0,0 +1,128 @@
+/**
+ * services/defenseReceipt.ts — Defense Receipt Pipeline
+ * =======================================================
+ * signals (CRE cascade) → drill overrides (shock, drained depth, sustained
+ * blocks), a scripted scenario's peak step (services/drillScenario.ts) or a
+ * stress run's worst combination (services/stressDrill.ts) → trend (signal history) → risk engine (policy) → ERC-8004 identity
+ * → forked enforcement drill (services/forkDrill.ts) → Ed25519 signature → receipt store.
+ *
+ * Shared by the REST routes, the MCP server and the A2A handler so every
+ * entry point issues identical, persisted receipts.
+ */
+import { getSignals } from "../lib/creClient.js";
+import { recordSignals, trendFor } from "../lib/signalHistory.js";
+import { computeRisk, applyDrillOverrides } from "./riskEngine.js";
+import { runScenario, type DrillScenario, type ScenarioRun } from "./drillScenario.js";
+import { runStress, type StressRequest, type StressRun } from "./stressDrill.js";
+import { runForkDrill, type ForkDrillRequest } from "./forkDrill.js";
+import { X402_CONFIG } from "../lib/x402.js";
+import { loadOrGenerateKey } from "../lib/anchorClient.js";
+import { signReceipt } from "../lib/receiptSignature.js";
+import { getAgentInfo } from "../lib/erc8004.js";
+import { getReceiptStore } from "../lib/receiptStore.js";
+import type { DefenseReceipt, CheckResponse, DrillResponse } from "../lib/types.js";
+
+export interface DefenseReceiptParams {
+  mode:         "check" | "drill";
+  protocolId:   string;
+  asset:        string;
+  paymentTxHash?: string;
+  paymentVerified: boolean;
+  paymentAmount?:  string;
+  paymentFrom?:    string;
+  paymentMode?:    string;
+  shockPct?:     number;
+  blocks?:       number;
+  liquidityDropPct?: number;
+  stalenessSec?: number;
+  scenario?:     DrillScenario;   // replaces the static overrides above
+  stress?:       StressRequest;   // Monte Carlo run; replaces the static overrides, ignored with a scenario
+  fork?:         ForkDrillRequest; // anchor + PolicyGuard.enforcePolicy on anvil; the report is signed with the receipt
+}
+
+export async function buildDefenseReceipt(params: DefenseReceiptParams): Promise<{ receipt: DefenseReceipt; response: CheckResponse | DrillResponse }> {
+  const { publicKeyHex } = loadOrGenerateKey();
+
+  // 1. Get oracle signals (CRE cascade)
+  let signals = await getSignals(params.asset, params.mode === "drill");
+
+  // 2. Apply drill overrides, play the scenario (peak step) or run the stress drill (worst combination)
+  let scenario: ScenarioRun | undefined;
+  let stress: StressRun | undefined;
+  if (params.mode === "drill" && params.scenario) {
+    const played = runScenario(signals, params.scenario, params.protocolId);
+    scenario = played.run;
+    signals  = played.peak;
+  } else if (params.mode === "drill" && params.stress) {
+    const stressed = runStress(signals, params.stress, params.protocolId);
+    stress  = stressed.run;
+    signals = stressed.worst;
+  } else if (params.mode === "drill" && (params.shockPct || params.liquidityDropPct || params.stalenessSec || params.blocks)) {
+    signals = applyDrillOverrides(signals, {
+      shockPct:          params.shockPct,
+      liquidityDropPct:  params.liquidityDropPct,
+      stalenessSec:      params.stalenessSec,
+      blocks:            params.blocks,
+    });
+  }
+
+  // 3. Trend against the rolling history; only live checks extend it
+  const trend = trendFor(signals);
+  if (params.mode === "check") recordSignals(signals);
+
+  // 4. Compute risk under the asset/protocol policy (deterministic + optional Claude AI)
+  const drill  = scenario ? { scenarioHash: scenario.scenarioHash }
+               : stress   ? { stressHash: stress.stressHash, seed: stress.seed }
+               : undefined;
+  const result = await computeRisk(signals, params.mode === "drill", { protocolId: params.protocolId, trend, drill });
+  if (scenario) result.scenario = scenario;
+  if (stress) result.stress = stress;
+
+  // 5. Get agent identity (ERC-8004)
+  const agent = await getAgentInfo(publicKeyHex);
+
+  // 6. Forked drill: prove the receipt through ReceiptRegistry + PolicyGuard on a local chain
+  const enforcement = params.mode === "drill" && params.fork
+    ? await runForkDrill({ protocolId: params.protocolId, result }, params.fork)
+    : undefined;
+
+  // 7. Build unsigned receipt
+  const unsignedReceipt = {
+    version:        "rf-v3" as const,
+    runId:          result.runId,
+    protocolId:     params.protocolId,
+    mode:           params.mode,
+    result,
+    paymentTxHash:  params.paymentTxHash,
+    paymentNetwork: params.paymentTxHash ? X402_CONFIG.network : undefined,
+    paymentVerified: params.paymentVerified,
+    paymentAmount:  params.paymentAmount,
+    paymentFrom:    params.paymentFrom,
+    agentId:        agent.agentId,
+    agentRegistry:  agent.agentRegistry,
+    agentPublicKey: publicKeyHex,
+    enforcement,
+    createdAtIso:   new Date().toISOString(),
+  };
+
+  // 8. Sign the receipt with Ed25519 (canonical JSON, v1 envelope)
+  const signature = signReceipt(unsignedReceipt);
+
+  const receipt: DefenseReceipt = { ...unsignedReceipt, signature };
+
+  // 9. Persist for later audit lookups
+  getReceiptStore().put(receipt);
+
+  const response = {
+    receipt,
+    agent,
+    ...(params.mode === "drill" ? {
+      paymentTxHash:   params.paymentTxHash ?? "",
+      paymentVerified: params.paymentVerified,
+      paymentMode:     (params.paymentMode ?? "demo_accepted") as "demo_accepted" | "verified_onchain",
+      ...(enforcement ? { enforcement } : {}),
+    } : {}),
+  };
+
+  return { receipt, response: response as CheckResponse | DrillResponse };
+}
@@ -0,0 +1,73 @@
+/**
+ * services/drillPayment.ts — x402 Payment Intake for Drills
+ * ==========================================================
+ * Normalises the ways a caller can pay for a drill:
+ *   - paymentTxHash / X-Payment-Tx / X-PAYMENT: 0x… (pay first, paste hash)
+ *   - X-PAYMENT: base64(JSON) signed EIP-3009 authorization ("exact")
+ *
+ * Returns null when no payment was offered so callers can answer with the
+ * x402 PaymentRequirements. A verified payment has already spent its unit;
+ * buildPaidDrillReceipt gives it back if the receipt cannot be issued.
+ */
+import { verifyPayment, type PaymentVerification } from "../lib/x402.js";
+import { getPaymentLedger } from "../lib/paymentLedger.js";
+import { buildDefenseReceipt, type DefenseReceiptParams } from "./defenseReceipt.js";
+import {
+  authorizationId, decodePaymentHeader, isExactPaymentHeader, verifyAndSettleExact,
+  type FacilitatorSettleResponse,
+} from "../lib/x402Exact.js";
+
+export interface DrillPayment {
+  verification: PaymentVerification;
+  settlement:   FacilitatorSettleResponse | null;
+  paymentRef:   string;   // tx hash recorded on the receipt
+  ledgerId:     string;   // key in the consumed-payment ledger
+}
+
+/** `apiKeyId` binds a multi-drill payment to the key that first redeemed it */
+export async function acceptDrillPayment(
+  offered: { paymentTxHash?: string; xPayment?: string; apiKeyId?: string },
+  resource: string,
+): Promise<DrillPayment | null> {
+  const { paymentTxHash, xPayment, apiKeyId } = offered;
+
+  if (!paymentTxHash && xPayment && isExactPaymentHeader(xPayment)) {
+    const { verification, settlement } = await verifyAndSettleExact(xPayment, resource, apiKeyId);
+    let ledgerId = "";
+    try {
+      ledgerId = authorizationId(decodePaymentHeader(xPayment).payload.authorization);
+    } catch { /* malformed header — verification already failed */ }
+    return { verification, settlement, paymentRef: settlement?.transaction ?? "", ledgerId };
+  }
+
+  const txHash = paymentTxHash ?? xPayment;
+  if (!txHash) return null;
+  return { verification: await verifyPayment(txHash, apiKeyId), settlement: null, paymentRef: txHash, ledgerId: txHash };
+}
+
+export type PaidDrillParams = Omit<DefenseReceiptParams,
+  "mode" | "paymentTxHash" | "paymentVerified" | "paymentAmount" | "paymentFrom" | "paymentMode">;
+
+/**
+ * Issues the drill receipt for a verified payment and records the run on
+ * the payment. If signals, scoring or signing fail, the unit is refunded.
+ */
+export async function buildPaidDrillReceipt(payment: DrillPayment, drill: PaidDrillParams): ReturnType<typeof buildDefenseReceipt> {
+  const { verification } = payment;
+  try {
+    const built = await buildDefenseReceipt({
+      ...drill,
+      mode:            "drill",
+      paymentTxHash:   payment.paymentRef,
+      paymentVerified: true,
+      paymentAmount:   verification.amount,
+      paymentFrom:     verification.from,
+      paymentMode:     verification.mode === "onchain" ? "verified_onchain" : "demo_accepted",
+    });
+    getPaymentLedger().attachRun(payment.ledgerId, built.receipt.runId);
+    return built;
+  } catch (e) {
+    if (payment.ledgerId) getPaymentLedger().refund(payment.ledgerId);
+    throw e;
+  }
+}
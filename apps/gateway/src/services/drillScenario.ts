@@ -0,0 +1,209 @@
+/**
+ * services/drillScenario.ts — Scripted Multi-Step Drills
+ * ========================================================
+ * A scenario is a drill played as a block timeline instead of one static
+ * override. `/drill` accepts it as `scenario`:
+ *
+ *   { "name": "ramp + drain + frozen feed", "blocks": 20, "events": [
+ *       { "type": "price",         "movePct": 8,  "over": 20 },
+ *       { "type": "liquidity",     "drainPct": 60, "at": 5 },
+ *       { "type": "oracle_freeze" }
+ *   ] }
+ *
+ *   price          DEX price moved movePct from the live price, ramped
+ *                  linearly over `over` blocks from block `at` (0 = at once)
+ *   liquidity      drainPct of the depth curve drained, ramped the same way;
+ *                  drains compound
+ *   oracle_freeze  no oracle rounds from `at` for `over` blocks (omitted =
+ *                  to the end); the feed only ages
+ *
+ * Outside a freeze the oracle follows the venue the way exploitWindow.ts
+ * models it: a round lands DEVIATION_RESPONSE_BLOCKS after the divergence
+ * crosses the feed's deviation threshold, or when the heartbeat elapses.
+ *
+ * Every block 0…blocks is scored under the protocol's policy. The run
+ * reports the time series, the first block each level was breached and the
+ * first block each action fired; the peak step becomes the drill's receipt.
+ * Its `scenarioHash` is the SHA-256 of the canonical script and run, and is
+ * pinned in the receipt's evidence.
+ */
+import { z } from "zod";
+import {
+  BLOCK_TIME_SEC, DEVIATION_RESPONSE_BLOCKS, canonicalize, scoreSignals, sha256Hex,
+  type ActionType, type RiskLevel, type RiskLevelName, type Severity, type VulnClass,
+} from "@reality-firewall/risk-core";
+import { drillDepth } from "../lib/liquidityDepth.js";
+import { resolvePolicy } from "../lib/riskPolicies.js";
+import { trendFor } from "../lib/signalHistory.js";
+import { attackFor, feedParamsFor } from "./riskEngine.js";
+import type { OracleSignals } from "../lib/types.js";
+
+const MAX_SCENARIO_BLOCKS = 200;
+
+const timing = {
+  at:   z.number().int().min(0).max(MAX_SCENARIO_BLOCKS).default(0),
+  over: z.number().int().min(0).max(MAX_SCENARIO_BLOCKS).default(0),
+};
+
+const scenarioEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("price"),     movePct:  z.number().min(-30).max(30), ...timing }),
+  z.object({ type: z.literal("liquidity"), drainPct: z.number().min(0).max(90),   ...timing }),
+  z.object({
+    type: z.literal("oracle_freeze"),
+    at:   timing.at,
+    over: z.number().int().min(1).max(MAX_SCENARIO_BLOCKS).optional(),
+  }),
+]);
+
+export const drillScenarioSchema = z.object({
+  name:         z.string().max(80).optional(),
+  blocks:       z.number().int().min(1).max(MAX_SCENARIO_BLOCKS),
+  stalenessSec: z.number().min(0).max(600).optional(),   // oracle age at block 0 (default: live)
+  events:       z.array(scenarioEventSchema).min(1).max(20),
+});
+
+export type DrillScenario = z.infer<typeof drillScenarioSchema>;
+type ScenarioEvent = DrillScenario["events"][number];
+
+export interface ScenarioStep {
+  block:             number;
+  dexPrice:          number;
+  oraclePrice:       number;
+  divergencePct:     number;
+  stalenessSeconds:  number;
+  liquidityDepthUsd: number;
+  drainedPct:        number;
+  oracleFrozen:      boolean;
+  oracleUpdated:     boolean;   // a round landed at this block
+  score:             number;
+  level:             RiskLevel;
+  levelName:         RiskLevelName;
+  vulnClass:         VulnClass;
+  actions:           ActionType[];
+}
+
+export interface ScenarioRun {
+  name?:        string;
+  blocks:       number;
+  blockTimeSec: number;
+  steps:        ScenarioStep[];
+  /** First block scoring at or above each level; null when never reached */
+  firstBreach:  Record<Exclude<RiskLevelName, "SAFE">, number | null>;
+  /** Every action any step recommended, at the block it first fired */
+  actions:      Array<{ type: ActionType; severity: Severity; firstBlock: number }>;
+  peakBlock:    number;
+  scenarioHash: string;
+}
+
+function round(n: number, dp: number): number {
+  const f = 10 ** dp;
+  return Math.round(n * f) / f;
+}
+
+/** Share of an event applied by `block`: 0 before `at`, ramping to 1 over `over` blocks */
+function progress(e: { at: number; over: number }, block: number): number {
+  if (block < e.at) return 0;
+  return e.over === 0 ? 1 : Math.min(1, (block - e.at) / e.over);
+}
+
+/** First block scoring at or above each level; shared with incident replays */
+export function firstBreach(steps: Array<{ block: number; level: RiskLevel }>): ScenarioRun["firstBreach"] {
+  const at = (level: RiskLevel) => steps.find((s) => s.level >= level)?.block ?? null;
+  return { LOW: at(1), MEDIUM: at(2), HIGH: at(3), CRITICAL: at(4) };
+}
+
+function frozenAt(events: ScenarioEvent[], block: number): boolean {
+  return events.some((e) => e.type === "oracle_freeze" && block >= e.at && (e.over === undefined || block < e.at + e.over));
+}
+
+/**
+ * Plays `scenario` from the live `base` signals. Returns the run and the
+ * signals of its peak step (highest score, earliest block on ties).
+ */
+export function runScenario(base: OracleSignals, scenario: DrillScenario, protocolId?: string): { run: ScenarioRun; peak: OracleSignals } {
+  const { policy } = resolvePolicy(base.asset, protocolId);
+  const feed       = feedParamsFor(base.asset);
+  const steps: ScenarioStep[] = [];
+  const fired      = new Map<ActionType, { severity: Severity; firstBlock: number }>();
+
+  let oraclePrice  = base.oraclePrice;
+  let staleness    = scenario.stalenessSec ?? base.stalenessSeconds;
+  let deviatedFor  = 0;
+  let peak         = { score: -1, block: 0, signals: base };
+
+  for (let block = 0; block <= scenario.blocks; block++) {
+    let movePct = 0;
+    let remaining = 1;
+    for (const e of scenario.events) {
+      if (e.type === "price")     movePct  += e.movePct * progress(e, block);
+      if (e.type === "liquidity") remaining *= 1 - (e.drainPct / 100) * progress(e, block);
+    }
+    const dexPrice = base.dexPrice * (1 + movePct / 100);
+    const frozen   = frozenAt(scenario.events, block);
+
+    // Block 0 is the live snapshot. After it the feed ages a block at a time and, outside a
+    // freeze, writes a round on deviation or as the heartbeat elapses (an overdue feed stays overdue)
+    let updated = false;
+    if (block > 0) {
+      const heartbeatDue = staleness < feed.heartbeatSec && staleness + BLOCK_TIME_SEC >= feed.heartbeatSec;
+      staleness += BLOCK_TIME_SEC;
+      const deviation = Math.abs((dexPrice - oraclePrice) / oraclePrice) * 100;
+      deviatedFor = deviation >= feed.deviationThresholdPct ? deviatedFor + 1 : 0;
+      if (!frozen && (deviatedFor > DEVIATION_RESPONSE_BLOCKS || heartbeatDue)) {
+        oraclePrice = dexPrice;
+        staleness   = 0;
+        deviatedFor = 0;
+        updated     = true;
+      }
+    }
+
+    const signedDivergence = (dexPrice - oraclePrice) / oraclePrice * 100;
+    const drainedPct = round((1 - remaining) * 100, 4);
+    const signals = drillDepth({
+      ...base,
+      oraclePrice,
+      dexPrice,
+      divergencePct:    round(Math.abs(signedDivergence), 4),
+      stalenessSeconds: staleness,
+      timestamp:        base.timestamp + block * BLOCK_TIME_SEC,
+    }, { liquidityDropPct: drainedPct, shockPct: signedDivergence > 0 ? round(signedDivergence, 4) : undefined });
+
+    const scored = scoreSignals(signals, policy, trendFor(signals), attackFor(signals, protocolId));
+    for (const a of scored.actions) {
+      if (!fired.has(a.type)) fired.set(a.type, { severity: a.severity, firstBlock: block });
+    }
+    if (scored.score > peak.score) peak = { score: scored.score, block, signals };
+
+    steps.push({
+      block,
+      dexPrice:          round(dexPrice, 6),
+      oraclePrice:       round(oraclePrice, 6),
+      divergencePct:     signals.divergencePct,
+      stalenessSeconds:  staleness,
+      liquidityDepthUsd: Math.round(signals.liquidityDepthUsd),
+      drainedPct,
+      oracleFrozen:      frozen,
+      oracleUpdated:     updated,
+      score:             scored.score,
+      level:             scored.level,
+      levelName:         scored.levelName,
+      vulnClass:         scored.vulnClass,
+      actions:           scored.actions.map((a) => a.type),
+    });
+  }
+
+  const run: Omit<ScenarioRun, "scenarioHash"> = {
+    name:         scenario.name,
+    blocks:       scenario.blocks,
+    blockTimeSec: BLOCK_TIME_SEC,
+    steps,
+    firstBreach:  firstBreach(steps),
+    actions:      [...fired].map(([type, f]) => ({ type, ...f })),
+    peakBlock:    peak.block,
+  };
+
+  return {
+    run:  { ...run, scenarioHash: "0x" + sha256Hex(canonicalize({ scenario, run })) },
+    peak: peak.signals,
+  };
+}
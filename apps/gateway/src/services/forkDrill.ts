@@ -0,0 +1,269 @@
+/**
+ * services/forkDrill.ts — Forked-Chain Enforcement Drills
+ * =========================================================
+ * Takes a drill receipt past "recommended actions". It starts a throwaway
+ * anvil node, anchors the receipt in ReceiptRegistry and calls
+ * PolicyGuard.enforcePolicy(market, evidenceHash, newLtv, newCap, freeze)
+ * with parameters derived from the receipt's actions:
+ *
+ *   newLtv  market LTV in bps, scaled by every REDUCE_LTV ltvDeltaPct
+ *   newCap  borrowable USD × 1e18: SET_BORROW_CAP's borrowCapUsd, or
+ *           CAP_BORROW's borrowCapDeltaPct applied, whichever is lower
+ *   freeze  FREEZE_MARKET or FREEZE_COLLATERAL fired
+ *
+ * The report says whether the call succeeds or which guard error it
+ * reverts with: CooldownActive, BlastRadiusExceeded or InvalidReceipt
+ * (the registry only vouches for receipts scoring 50 or more).
+ *
+ *   chain "clean"  empty anvil chain; both contracts deployed from the
+ *                  forge artifacts and the market initialised from
+ *                  lib/protocolMarkets.ts
+ *   chain "fork"   anvil --fork-url FORK_RPC_URL. With POLICY_GUARD_ADDRESS,
+ *                  RECEIPT_REGISTRY_ADDRESS and GUARD_EXECUTOR_ADDRESS set,
+ *                  the deployed contracts run as they are on chain (owner and
+ *                  executor impersonated); otherwise fresh ones are deployed
+ *                  onto the fork
+ *
+ * `elapsedSec` advances the chain before the call; it defaults to the
+ * cooldown on fresh deployments and to 0 on deployed contracts.
+ *
+ * The drill runs before the receipt is signed (services/defenseReceipt.ts),
+ * so the report is part of the signed, stored receipt. A drill that fails
+ * midway keeps what it got to (chain, contracts, anchor) next to the reason.
+ *
+ * GUARD_COOLDOWN_SEC (default 3600); the anvil harness is lib/anvil.ts.
+ * One forked drill runs at a time; the anvil process is stopped afterwards.
+ */
+import { z } from "zod";
+import { Contract, ContractFactory, Interface, getAddress, id } from "ethers";
+import { RECEIPT_REGISTRY_ABI, anchorAgentAddress, decodeAnchorRevert, extractRevertData, runIdHash } from "../lib/anchorClient.js";
+import { ANVIL_BIN, FORGE_OUT_DIR, impersonate, loadArtifact, startAnvil, stopAnvil, type AnvilNode } from "../lib/anvil.js";
+import { marketFor } from "../lib/protocolMarkets.js";
+import type { ActionType, DefenseReceipt } from "../lib/types.js";
+
+const GUARD_COOLDOWN_SEC = Number(process.env.GUARD_COOLDOWN_SEC ?? 3600);
+
+// Guard bounds for a fresh market with no protocol config (as in script/Deploy.s.sol)
+const DEFAULT_MAX_LTV_BPS = 8000;
+const DEFAULT_MAX_CAP_USD = 50_000_000;
+const WAD = 10n ** 18n;
+
+export const POLICY_GUARD_ABI = [
+  "function initMarket(address market, uint256 maxLtv, uint256 maxCap, uint256 cooldown) external",
+  "function enforcePolicy(address market, bytes32 evidenceHash, uint256 newLtv, uint256 newCap, bool freeze) external",
+  "function policies(address market) external view returns (uint256 maxLtv, uint256 minLtv, uint256 maxCap, bool isFrozen, uint256 lastUpdate, uint256 cooldown)",
+  "error UnauthorizedExecutor(address executor)",
+  "error InvalidReceipt(bytes32 evidenceHash)",
+  "error BlastRadiusExceeded(string param)",
+  "error CooldownActive(address market)",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+] as const;
+
+const REGISTRY_ADMIN_ABI = [
+  ...RECEIPT_REGISTRY_ABI,
+  "function owner() external view returns (address)",
+  "function setAuthorizedAgent(address agent, bool status) external",
+] as const;
+
+const guardInterface = new Interface(POLICY_GUARD_ABI);
+
+export const forkSchema = z.object({
+  chain:      z.enum(["clean", "fork"]).default("clean"),
+  forkBlock:  z.number().int().positive().optional(),                 // chain "fork" only; default latest
+  elapsedSec: z.number().int().min(0).max(30 * 86_400).optional(),    // time since the guard's last update
+});
+
+export type ForkDrillRequest = z.infer<typeof forkSchema>;
+
+/** The parts of a receipt a forked drill reads; it runs before the receipt is signed */
+export type EnforcedReceipt = Pick<DefenseReceipt, "protocolId" | "result">;
+
+export type GuardRevertCode =
+  | "CooldownActive"
+  | "BlastRadiusExceeded"
+  | "InvalidReceipt"
+  | "UnauthorizedExecutor"
+  | "AccessControlUnauthorizedAccount"
+  | "UNKNOWN_REVERT";
+
+export interface EnforcementCall {
+  market:      string;
+  newLtv:      number;    // bps
+  newCap:      string;    // USD × 1e18, decimal string
+  freeze:      boolean;
+  derivedFrom: ActionType[];
+}
+
+export interface ForkEnforcement {
+  status:     "succeeded" | "reverted" | "unavailable";
+  chain:      ForkDrillRequest["chain"];
+  reason?:    string;   // why the drill could not run or finish
+  chainId?:   number;
+  forkBlock?: number;
+  contracts?: { receiptRegistry: string; policyGuard: string; freshDeploy: boolean };
+  anchor?:    { txHash?: string; alreadyAnchored: boolean };
+  guard?:     { maxLtv: number; maxCap: string; cooldown: number; lastUpdate: number; elapsedSec: number };
+  call?:      EnforcementCall;
+  txHash?:    string;
+  gasUsed?:   string;
+  revert?:    { code: GuardRevertCode; args: Record<string, string> };
+}
+
+/** Parameters PolicyGuard.enforcePolicy receives for the receipt's actions */
+export function enforcementCallFor(receipt: EnforcedReceipt, market: string, ltvPct: number, capUsd: number): EnforcementCall {
+  const actions = receipt.result.actions;
+  const derived = new Set<ActionType>();
+
+  let ltv = ltvPct;
+  for (const a of actions.filter((a) => a.type === "REDUCE_LTV" && a.newValue !== undefined)) {
+    ltv *= 1 + a.newValue! / 100;
+    derived.add(a.type);
+  }
+
+  let cap = capUsd;
+  for (const a of actions) {
+    if (a.type === "SET_BORROW_CAP" && a.newValue !== undefined) cap = Math.min(cap, a.newValue);
+    else if (a.type === "CAP_BORROW" && a.newValue !== undefined) cap = Math.min(cap, capUsd * (1 + a.newValue / 100));
+    else continue;
+    derived.add(a.type);
+  }
+
+  const freezeBy = actions.filter((a) => a.type === "FREEZE_MARKET" || a.type === "FREEZE_COLLATERAL");
+  freezeBy.forEach((a) => derived.add(a.type));
+
+  return {
+    market,
+    newLtv:      Math.max(0, Math.round(ltv * 100)),
+    newCap:      (BigInt(Math.max(0, Math.round(cap))) * WAD).toString(),
+    freeze:      freezeBy.length > 0,
+    derivedFrom: [...derived],
+  };
+}
+
+/** Stand-in market address for a protocol/asset with no configured guardMarket */
+function syntheticMarket(protocolId: string, asset: string): string {
+  return getAddress("0x" + id(`reality-firewall:${protocolId}:${asset.toUpperCase()}`).slice(-40));
+}
+
+function decodeGuardRevert(err: unknown): { code: GuardRevertCode; args: Record<string, string> } | null {
+  const data = extractRevertData(err);
+  if (!data) return null;
+  try {
+    const parsed = guardInterface.parseError(data);
+    if (!parsed) return { code: "UNKNOWN_REVERT", args: { data } };
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, i) => { args[input.name] = String(parsed.args[i]); });
+    return { code: parsed.name as GuardRevertCode, args };
+  } catch {
+    return { code: "UNKNOWN_REVERT", args: { data } };
+  }
+}
+
+async function enforceOnAnvil(receipt: EnforcedReceipt, req: ForkDrillRequest): Promise<ForkEnforcement> {
+  const base: ForkEnforcement = { status: "unavailable", chain: req.chain };
+  const forkUrl = process.env.FORK_RPC_URL;
+  if (req.chain === "fork" && !forkUrl) return { ...base, reason: "FORK_RPC_URL is not set" };
+
+  const deployedRegistry = process.env.RECEIPT_REGISTRY_ADDRESS;
+  const deployedGuard    = process.env.POLICY_GUARD_ADDRESS;
+  const executor         = process.env.GUARD_EXECUTOR_ADDRESS;
+  const useDeployed      = req.chain === "fork" && !!deployedRegistry && !!deployedGuard && !!executor;
+
+  const registryArtifact = useDeployed ? null : loadArtifact("ReceiptRegistry");
+  const guardArtifact    = useDeployed ? null : loadArtifact("PolicyGuard");
+  if (!useDeployed && (!registryArtifact || !guardArtifact)) {
+    return { ...base, reason: `forge artifacts not found in ${FORGE_OUT_DIR} — run forge build in contracts/` };
+  }
+
+  const args = req.chain === "fork"
+    ? ["--fork-url", forkUrl!, ...(req.forkBlock ? ["--fork-block-number", String(req.forkBlock)] : [])]
+    : [];
+  let anvil: AnvilNode;
+  try {
+    anvil = await startAnvil(args);
+  } catch (e) {
+    return { ...base, reason: `could not start ${ANVIL_BIN}: ${e instanceof Error ? e.message : String(e)}` };
+  }
+
+  const { provider } = anvil;
+  let report: ForkEnforcement = base;   // grows as the drill gets further
+  try {
+    const { chainId } = await provider.getNetwork();
+    const forkBlock   = req.chain === "fork" ? await provider.getBlockNumber() : undefined;
+    report = { ...report, chainId: Number(chainId), forkBlock };
+    const market      = marketFor(receipt.result.asset, receipt.protocolId);
+    const marketAddr  = market?.guardMarket ? getAddress(market.guardMarket) : syntheticMarket(receipt.protocolId, receipt.result.asset);
+
+    // 1. Contracts: deployed ones under impersonation, or fresh ones from the artifacts
+    let registry: Contract;
+    let guard: Contract;
+    if (useDeployed) {
+      const owner = await impersonate(provider, await new Contract(deployedRegistry!, REGISTRY_ADMIN_ABI, provider).owner());
+      registry    = new Contract(deployedRegistry!, REGISTRY_ADMIN_ABI, owner);
+      await (await registry.setAuthorizedAgent(await owner.getAddress(), true)).wait();
+      guard       = new Contract(deployedGuard!, POLICY_GUARD_ABI, await impersonate(provider, executor!));
+    } else {
+      const deployer = await provider.getSigner(0);
+      registry = await new ContractFactory(registryArtifact!.abi, registryArtifact!.bytecode, deployer).deploy() as Contract;
+      await registry.waitForDeployment();
+      guard    = await new ContractFactory(guardArtifact!.abi, guardArtifact!.bytecode, deployer).deploy(await registry.getAddress()) as Contract;
+      await guard.waitForDeployment();
+      registry = new Contract(await registry.getAddress(), REGISTRY_ADMIN_ABI, deployer);
+      guard    = new Contract(await guard.getAddress(), POLICY_GUARD_ABI, deployer);
+      const maxLtv = market ? Math.round(market.ltvPct * 100) : DEFAULT_MAX_LTV_BPS;
+      const maxCap = BigInt(Math.round(market?.borrowableUsd ?? DEFAULT_MAX_CAP_USD)) * WAD;
+      await (await guard.initMarket(marketAddr, maxLtv, maxCap, GUARD_COOLDOWN_SEC)).wait();
+    }
+    report = { ...report, contracts: { receiptRegistry: await registry.getAddress(), policyGuard: await guard.getAddress(), freshDeploy: !useDeployed } };
+
+    // 2. Anchor the drill receipt (an earlier anchor of the same evidenceHash is fine)
+    const r = receipt.result;
+    let anchor: ForkEnforcement["anchor"];
+    try {
+      const tx = await registry.anchorReceipt(r.evidenceHash, runIdHash(r.runId), anchorAgentAddress(), r.score, r.level, true);
+      await tx.wait();
+      anchor = { txHash: tx.hash, alreadyAnchored: false };
+    } catch (e) {
+      if (decodeAnchorRevert(e)?.code !== "ReceiptAlreadyExists") throw e;
+      anchor = { alreadyAnchored: true };
+    }
+    report = { ...report, anchor };
+
+    // 3. Let the cooldown run (or not), then call the guard with the derived parameters
+    const p = await guard.policies(marketAddr);
+    const cooldown   = Number(p.cooldown);
+    const elapsedSec = req.elapsedSec ?? (useDeployed ? 0 : cooldown);
+    if (elapsedSec > 0) {
+      await provider.send("evm_increaseTime", [elapsedSec]);
+      await provider.send("evm_mine", []);
+    }
+    const guardState = { maxLtv: Number(p.maxLtv), maxCap: p.maxCap.toString(), cooldown, lastUpdate: Number(p.lastUpdate), elapsedSec };
+    const call = enforcementCallFor(receipt, marketAddr, market?.ltvPct ?? Number(p.maxLtv) / 100, market?.borrowableUsd ?? Number(p.maxCap / WAD));
+
+    report = { ...report, guard: guardState, call };
+    const callArgs = [call.market, r.evidenceHash, call.newLtv, call.newCap, call.freeze] as const;
+    try {
+      await guard.enforcePolicy.staticCall(...callArgs);
+    } catch (e) {
+      const revert = decodeGuardRevert(e);
+      if (!revert) throw e;
+      return { ...report, status: "reverted", revert };
+    }
+    const tx    = await guard.enforcePolicy(...callArgs);
+    const mined = await tx.wait();
+    return { ...report, status: "succeeded", txHash: tx.hash, gasUsed: mined?.gasUsed.toString() };
+  } catch (e) {
+    return { ...report, status: "unavailable", reason: String(e) };
+  } finally {
+    stopAnvil(anvil);
+  }
+}
+
+let _queue: Promise<unknown> = Promise.resolve();
+
+/** Runs the forked enforcement drill for a drill receipt; one at a time */
+export function runForkDrill(receipt: EnforcedReceipt, req: ForkDrillRequest): Promise<ForkEnforcement> {
+  const run = _queue.then(() => enforceOnAnvil(receipt, req));
+  _queue = run.catch(() => undefined);
+  return run;
+}
@@ -0,0 +1,135 @@
+/**
+ * services/incidentReplay.ts — Incident Replay
+ * ==============================================
+ * Runs a packaged incident (lib/incidentFixtures.ts) through the current
+ * engine: every point of the series is scored under today's policy for
+ * the asset/protocol, with the trend taken over the series so far and
+ * attack economics for the incident's market. The replay reports when
+ * Reality Firewall would have escalated relative to the exploit block:
+ *
+ *   leadBlocks = exploitBlock − block   (> 0: ahead of the exploit)
+ *
+ * Nothing here reads live data or issues a receipt.
+ */
+import {
+  assessAttackEconomics, computeTrend, estimatedDepthCurve, LEVEL_NAMES, policyRef, scoreSignals,
+  type ActionType, type PolicyRef, type RiskLevel, type RiskLevelName, type Severity, type TrendSample, type VulnClass,
+} from "@reality-firewall/risk-core";
+import { marketFor } from "../lib/protocolMarkets.js";
+import { resolvePolicy } from "../lib/riskPolicies.js";
+import { firstBreach, type ScenarioRun } from "./drillScenario.js";
+import type { IncidentFixture, IncidentPoint } from "../lib/incidentFixtures.js";
+
+export interface ReplayStep {
+  block:             number;
+  oraclePrice:       number;
+  dexPrice:          number;
+  divergencePct:     number;
+  stalenessSeconds:  number;
+  liquidityDepthUsd: number;
+  score:             number;
+  level:             RiskLevel;
+  levelName:         RiskLevelName;
+  vulnClass:         VulnClass;
+  actions:           ActionType[];
+}
+
+export interface IncidentReplay {
+  incident:    Pick<IncidentFixture, "id" | "name" | "date" | "kind" | "asset" | "blockTimeSec" | "exploitBlock">;
+  policy:      PolicyRef;
+  steps:       ReplayStep[];
+  firstBreach: ScenarioRun["firstBreach"];
+  /** First block each action fired and its lead on the exploit */
+  actions:     Array<{ type: ActionType; severity: Severity; firstBlock: number; leadBlocks: number }>;
+  /** First block at or above `level`; leadBlocks/leadSec are null when it never got there */
+  escalation:  { level: RiskLevelName; block: number | null; leadBlocks: number | null; leadSec: number | null; beforeExploit: boolean };
+  peak:        { block: number; score: number; levelName: RiskLevelName };
+}
+
+function round(n: number, dp: number): number {
+  const f = 10 ** dp;
+  return Math.round(n * f) / f;
+}
+
+function signalsAt(asset: string, p: IncidentPoint) {
+  return {
+    asset,
+    oraclePrice:       p.oraclePrice,
+    dexPrice:          p.dexPrice,
+    divergencePct:     round(Math.abs((p.dexPrice - p.oraclePrice) / p.oraclePrice) * 100, 4),
+    stalenessSeconds:  p.stalenessSeconds,
+    liquidityDepthUsd: p.liquidityDepthUsd,
+    fundingAprPct:     p.fundingAprPct,
+    oiSkewPct:         p.oiSkewPct,
+  };
+}
+
+/** Scores every point of `incident`; its own market wins over the protocol's configured one */
+export function replayIncident(
+  incident: IncidentFixture,
+  opts: { protocolId?: string; escalateAt?: Exclude<RiskLevelName, "SAFE"> } = {},
+): IncidentReplay {
+  const { policy } = resolvePolicy(incident.asset, opts.protocolId);
+  const market     = incident.market ?? marketFor(incident.asset, opts.protocolId);
+  const escalateAt = ([1, 2, 3, 4] as RiskLevel[]).find((l) => LEVEL_NAMES[l] === (opts.escalateAt ?? "HIGH"))!;
+  const samples: TrendSample[] = [];
+  const steps: ReplayStep[]    = [];
+  const fired = new Map<ActionType, { severity: Severity; firstBlock: number }>();
+  let peak    = { block: incident.series[0].block, score: -1, level: 0 as RiskLevel };
+
+  for (const p of incident.series) {
+    const signals = signalsAt(incident.asset, p);
+    samples.push({ timestamp: p.block * incident.blockTimeSec, divergencePct: signals.divergencePct, liquidityDepthUsd: p.liquidityDepthUsd });
+
+    const shockPct = (p.dexPrice - p.oraclePrice) / p.oraclePrice * 100;
+    const attack   = market && shockPct > 0
+      ? assessAttackEconomics({ curve: estimatedDepthCurve(p.liquidityDepthUsd), market, shockPct, swapFeePct: market.swapFeePct })
+      : undefined;
+    const scored = scoreSignals(signals, policy, computeTrend(samples), attack);
+
+    for (const a of scored.actions) {
+      if (!fired.has(a.type)) fired.set(a.type, { severity: a.severity, firstBlock: p.block });
+    }
+    if (scored.score > peak.score) peak = { block: p.block, score: scored.score, level: scored.level };
+
+    steps.push({
+      block:             p.block,
+      oraclePrice:       p.oraclePrice,
+      dexPrice:          p.dexPrice,
+      divergencePct:     signals.divergencePct,
+      stalenessSeconds:  p.stalenessSeconds,
+      liquidityDepthUsd: p.liquidityDepthUsd,
+      score:             scored.score,
+      level:             scored.level,
+      levelName:         scored.levelName,
+      vulnClass:         scored.vulnClass,
+      actions:           scored.actions.map((a) => a.type),
+    });
+  }
+
+  const escalated  = steps.find((s) => s.level >= escalateAt)?.block ?? null;
+  const leadBlocks = escalated === null ? null : incident.exploitBlock - escalated;
+  return {
+    incident: {
+      id:           incident.id,
+      name:         incident.name,
+      date:         incident.date,
+      kind:         incident.kind,
+      asset:        incident.asset,
+      blockTimeSec: incident.blockTimeSec,
+      exploitBlock: incident.exploitBlock,
+    },
+    policy:      policyRef(policy),
+    steps,
+    firstBreach: firstBreach(steps),
+    actions:     [...fired].map(([type, f]) => ({ type, ...f, leadBlocks: incident.exploitBlock - f.firstBlock })),
+    escalation:  {
+      level:         LEVEL_NAMES[escalateAt],
+      block:         escalated,
+      leadBlocks,
+      leadSec:       leadBlocks === null ? null : round(leadBlocks * incident.blockTimeSec, 1),
+      beforeExploit: leadBlocks !== null && leadBlocks > 0,
+    },
+    peak: { block: peak.block, score: peak.score, levelName: LEVEL_NAMES[peak.level] },
+  };
+}
@@ -1,50 +1,30 @@
+/**
+ * services/riskEngine.ts — Risk Engine
+ * ======================================
+ * Deterministic scoring comes from @reality-firewall/risk-core, the same
+ * package the CRE workflows run, so a receipt's evidenceHash can be
+ * recomputed from its signals anywhere. This module adds what only the
+ * gateway does: per-asset/protocol policy selection (lib/riskPolicies.ts),
+ * market data fallbacks, drill overrides, the oracle exploit window,
+ * attack economics for configured markets (lib/protocolMarkets.ts),
+ * Claude AI narrative and EIP-712 signing.
+ *
+ * ORACLE_FEED_PARAMS — JSON { "WETH": { heartbeatSec, deviationThresholdPct }, … }
+ * merged over risk-core's mainnet defaults; sizes exploitWindowBlocks.
+ */
 import { ethers } from "ethers";
 import Anthropic from "@anthropic-ai/sdk";
-
-export interface RiskSignals {
-  asset: string;
-  oraclePrice: number;
-  dexPrice: number;
-  divergencePct: number;
-  stalenessSeconds: number;
-  liquidityUsd: number;
-  fundingRate: number;
-  oracleSource: string;
-  dexSource: string;
-}
-
-export interface RiskAction {
-  type: string;
-  severity: "low" | "medium" | "high" | "critical";
-  description: string;
-  ltvAdjustmentPct?: number;
-  capAdjustmentPct?: number;
-}
-
-export interface RiskResult {
-  runId: string;
-  score: number;
-  level: 0 | 1 | 2 | 3 | 4;
-  levelLabel: string;
-  vulnerabilityClass: string;
-  actions: RiskAction[];
-  evidenceHash: string;
-  canonicalJson: string;
-  timestamp: number;
-  signals: RiskSignals;
-  aiAnalysis?: string;
-  signature?: string;
-}
-
-/** RFC-8785 canonical JSON — recursive key sort */
-export function canonicalJson(obj: unknown): string {
-  if (obj === null || typeof obj !== "object") return JSON.stringify(obj);
-  if (Array.isArray(obj)) return "[" + obj.map(canonicalJson).join(",") + "]";
-  const sorted = Object.keys(obj as Record<string, unknown>)
-    .sort()
-    .map((k) => `${JSON.stringify(k)}:${canonicalJson((obj as Record<string, unknown>)[k])}`);
-  return "{" + sorted.join(",") + "}";
-}
+import {
+  DEFAULT_FEED_UPDATE_PARAMS, FALLBACK_FEED_UPDATE_PARAMS, VOLUME_DEPTH_FACTOR, assessAttackEconomics, assessRisk,
+  estimateExploitWindow, liquidityModel, sustainShock,
+  type AttackEconomics, type DrillProvenance, type FeedUpdateParams, type ScoredEvidence, type TrendIndicators,
+} from "@reality-firewall/risk-core";
+import { fundingFields, getFunding } from "../lib/fundingSources.js";
+import { drillDepth, fetchDepthCurve, withDepth } from "../lib/liquidityDepth.js";
+import { marketFor, type ProtocolMarket } from "../lib/protocolMarkets.js";
+import { resolvePolicy } from "../lib/riskPolicies.js";
+import { fetchPoolPrice } from "../lib/uniswapV3.js";
+import type { OracleSignals, RiskResult } from "../lib/types.js";
 
 const SEPOLIA_RPC = process.env.SEPOLIA_RPC_URL || "https://ethereum-sepolia-rpc.publicnode.com";
 
@@ -68,6 +48,24 @@ const COIN_IDS: Record<string, string> = {
   WETH: "ethereum", WBTC: "bitcoin", LINK: "chainlink", USDC: "usd-coin",
 };
 
+function configuredFeedParams(): Record<string, FeedUpdateParams> {
+  const raw = process.env.ORACLE_FEED_PARAMS;
+  if (!raw) return DEFAULT_FEED_UPDATE_PARAMS;
+  try {
+    return { ...DEFAULT_FEED_UPDATE_PARAMS, ...(JSON.parse(raw) as Record<string, FeedUpdateParams>) };
+  } catch {
+    console.warn("[RiskEngine] ORACLE_FEED_PARAMS is not valid JSON — using default feed parameters");
+    return DEFAULT_FEED_UPDATE_PARAMS;
+  }
+}
+
+const FEED_PARAMS = configuredFeedParams();
+
+/** Heartbeat and deviation threshold of the feed behind the asset's oracle price */
+export function feedParamsFor(asset: string): FeedUpdateParams {
+  return FEED_PARAMS[asset.toUpperCase()] ?? FALLBACK_FEED_UPDATE_PARAMS;
+}
+
 export async function fetchOraclePrice(asset: string): Promise<{ price: number; updatedAt: number; source: string }> {
   const feed = DATA_FEEDS[asset.toUpperCase()];
   if (!feed) {
@@ -90,6 +88,7 @@ export async function fetchOraclePrice(asset: string): Promise<{ price: number;
 
 export async function fetchDexPrice(asset: string): Promise<{ price: number; liquidityUsd: number; source: string }> {
   const coinId = COIN_IDS[asset.toUpperCase()];
+  const pool   = await fetchPoolPrice(asset);
   try {
     const resp = await fetch(
       `https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=usd&include_24hr_vol=true`,
@@ -99,44 +98,20 @@ export async function fetchDexPrice(asset: string): Promise<{ price: number; liq
     const data = await resp.json() as Record<string, { usd: number; usd_24h_vol?: number }>;
     const price = data[coinId]?.usd;
     if (!price) throw new Error("no price");
-    return { price, liquidityUsd: (data[coinId]?.usd_24h_vol ?? 500_000_000) * 0.08, source: "coingecko" };
+    const liquidityUsd = (data[coinId]?.usd_24h_vol ?? 500_000_000) * VOLUME_DEPTH_FACTOR;
+    return pool ? { price: pool.spot, liquidityUsd, source: "uniswap-v3" } : { price, liquidityUsd, source: "coingecko" };
   } catch {
+    if (pool) return { price: pool.spot, liquidityUsd: 3_000_000, source: "uniswap-v3" };
     const base = BASE_PRICES[asset.toUpperCase()] ?? 100;
     return { price: base * (1 + (Math.random() * 0.06 - 0.015)), liquidityUsd: 3_000_000 + Math.random() * 10_000_000, source: "simulation" };
   }
 }
 
-const LEVEL_LABELS = ["SAFE", "LOW", "MEDIUM", "HIGH", "CRITICAL"] as const;
-
-function getVulnerabilityClass(d: number, s: number, l: number): string {
-  if (d > 10) return "ORACLE_DIVERGENCE_CRITICAL";
-  if (d > 3) return "ORACLE_DIVERGENCE_ELEVATED";
-  if (s > 3600) return "STALE_FEED_CRITICAL";
-  if (s > 600) return "STALE_FEED";
-  if (l < 500_000) return "THIN_LIQUIDITY_CRITICAL";
-  if (l < 2_000_000) return "THIN_LIQUIDITY";
-  return "NOMINAL";
-}
-
-export function computeRiskScore(signals: RiskSignals) {
-  const { divergencePct: d, stalenessSeconds: s, liquidityUsd: l, fundingRate: f } = signals;
-  let score = 0;
-  score += d > 15 ? 40 : d > 10 ? 35 : d > 5 ? 25 : d > 2 ? 15 : d > 1 ? 8 : 0;
-  score += s > 3600 ? 30 : s > 1800 ? 22 : s > 600 ? 15 : s > 90 ? 7 : 0;
-  score += l < 100_000 ? 20 : l < 500_000 ? 14 : l < 1_000_000 ? 8 : l < 5_000_000 ? 3 : 0;
-  score += Math.abs(f) > 0.5 ? 10 : Math.abs(f) > 0.2 ? 6 : Math.abs(f) > 0.1 ? 3 : 0;
-  score = Math.min(100, score);
-  const level: 0 | 1 | 2 | 3 | 4 = score >= 75 ? 4 : score >= 55 ? 3 : score >= 35 ? 2 : score >= 15 ? 1 : 0;
-  const actions: RiskAction[] = [];
-  if (level >= 1) actions.push({ type: "MONITOR_CLOSELY", severity: "low", description: "Increase monitoring frequency to every 30s" });
-  if (d > 2) actions.push({ type: "REDUCE_LTV", severity: "medium", description: `Reduce LTV by ${Math.min(10, Math.floor(d * 2))}% for affected markets`, ltvAdjustmentPct: -Math.min(10, Math.floor(d * 2)) });
-  if (l < 5_000_000) actions.push({ type: "CAP_SUPPLY", severity: "medium", description: "Cap new supply to prevent liquidity drain", capAdjustmentPct: -15 });
-  if (level >= 3) actions.push({ type: "PAUSE_BORROWS", severity: "high", description: "Pause new borrow positions until oracle stabilizes" });
-  if (level >= 4) actions.push({ type: "FREEZE_MARKET", severity: "critical", description: "Emergency freeze — divergence exceeds safe threshold" });
-  return { score, level, levelLabel: LEVEL_LABELS[level], vulnerabilityClass: getVulnerabilityClass(d, s, l), actions };
+export function newRunId(): string {
+  return `rfw_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
-export async function callClaudeAI(signals: RiskSignals, risk: ReturnType<typeof computeRiskScore>): Promise<string> {
+export async function callClaudeAI(signals: OracleSignals, risk: Pick<ScoredEvidence, "score" | "level" | "levelName" | "vulnClass" | "vulnerabilities">): Promise<string> {
   const apiKey = process.env.ANTHROPIC_API_KEY;
   if (!apiKey) {
     if (risk.level === 0) return "Oracle and DEX prices are aligned within safe tolerance bands. No immediate intervention required.";
@@ -150,65 +125,137 @@ export async function callClaudeAI(signals: RiskSignals, risk: ReturnType<typeof
       max_tokens: 200,
       messages: [{
         role: "user",
-        content: `DeFi security expert. 2-sentence threat assessment only, no preamble.\n\nAsset: ${signals.asset} | Oracle: $${signals.oraclePrice.toFixed(2)} (${signals.oracleSource}) | DEX: $${signals.dexPrice.toFixed(2)} (${signals.dexSource}) | Divergence: ${signals.divergencePct.toFixed(3)}% | Staleness: ${signals.stalenessSeconds}s | Liquidity: $${(signals.liquidityUsd / 1e6).toFixed(2)}M | Score: ${risk.score}/100 (${risk.levelLabel}) | Class: ${risk.vulnerabilityClass}`,
+        content: `DeFi security expert. 2-sentence threat assessment only, no preamble.\n\nAsset: ${signals.asset} | Oracle: $${signals.oraclePrice.toFixed(2)} (${signals.sourceLabel}) | DEX: $${signals.dexPrice.toFixed(2)} | Divergence: ${signals.divergencePct.toFixed(3)}% | Staleness: ${signals.stalenessSeconds}s | Liquidity: $${(signals.liquidityDepthUsd / 1e6).toFixed(2)}M | Funding: ${signals.fundingAprPct === null ? "unavailable" : `${signals.fundingAprPct.toFixed(2)}% APR, OI skew ${signals.oiSkewPct?.toFixed(1) ?? "n/a"}%`} | Score: ${risk.score}/100 (${risk.levelName}) | Class: ${risk.vulnClass}${risk.vulnerabilities.length > 1 ? ` (all: ${risk.vulnerabilities.map((v) => v.pattern ?? v.vulnClass).join(", ")})` : ""}`,
       }],
     });
     return (msg.content[0] as { text: string }).text;
   } catch {
-    return `Score ${risk.score}/100 [${risk.levelLabel}]: ${risk.vulnerabilityClass} detected. Review recommended actions immediately.`;
+    return `Score ${risk.score}/100 [${risk.levelName}]: ${risk.vulnClass} detected. Review recommended actions immediately.`;
+  }
+}
+
+export interface DrillOverrides {
+  shockPct?:         number;   // DEX price pushed this far above the oracle
+  liquidityDropPct?: number;   // share of the depth curve drained
+  stalenessSec?:     number;   // oracle age at the start of the drill
+  blocks?:           number;   // blocks the shock is held
+}
+
+/**
+ * Drill signals: the shocked DEX price, drained depth (lib/liquidityDepth.ts)
+ * and, with `blocks`, the shock held against the oracle's update window —
+ * the oracle ages by the blocks it leaves exposed, and `signals.sustained`
+ * records which feed thresholds the hold crosses.
+ */
+export function applyDrillOverrides(signals: OracleSignals, o: DrillOverrides): OracleSignals {
+  const drilled: OracleSignals = { ...signals };
+  if (o.shockPct) {
+    drilled.dexPrice      = signals.oraclePrice * (1 + o.shockPct / 100);
+    drilled.divergencePct = o.shockPct;
   }
+  if (o.stalenessSec !== undefined) drilled.stalenessSeconds = o.stalenessSec;
+  if (o.blocks) {
+    const feed   = feedParamsFor(signals.asset);
+    const window = estimateExploitWindow(drilled, feed);
+    const twap   = signals.dexPool?.shortWindowSec;
+    drilled.sustained = sustainShock(drilled.divergencePct, o.blocks, window, feed, drilled.stalenessSeconds, twap);
+    drilled.stalenessSeconds += drilled.sustained.exposedBlocks * window.blockTimeSec;
+  }
+  return drillDepth(drilled, { liquidityDropPct: o.liquidityDropPct, shockPct: o.shockPct });
 }
 
-export async function buildRiskResult(asset: string, isDrill: boolean, drillOverrides?: Partial<RiskSignals>): Promise<RiskResult> {
-  const runId = `rfw_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-  const timestamp = Math.floor(Date.now() / 1000);
+/** The market terms attack economics are priced against */
+export type MarketTerms = Pick<ProtocolMarket, "borrowableUsd" | "ltvPct" | "swapFeePct">;
 
-  const [oracle, dex] = await Promise.all([fetchOraclePrice(asset), fetchDexPrice(asset)]);
+export interface ComputeRiskOptions {
+  runId?:      string;
+  timestamp?:  number;   // unix seconds; default now (fixed by the golden-vector check)
+  protocolId?: string;   // selects protocol-specific policies
+  trend?:      TrendIndicators;  // rolling indicators (lib/signalHistory.ts)
+  drill?:      DrillProvenance;  // scenario / stress run the drilled signals came from
+}
 
-  const now = Math.floor(Date.now() / 1000);
-  const stalenessSeconds = oracle.updatedAt > 0 ? Math.max(0, now - oracle.updatedAt) : 30;
-  const divergencePct = Math.abs((oracle.price - dex.price) / oracle.price) * 100;
+/**
+ * Cost vs. extractable value of pushing the price through the asset's depth
+ * curve, for the protocol's market. Drills price their shock (held for the
+ * blocks the oracle leaves exposed); live checks the divergence already on
+ * the venue. Undefined when the protocol has no market for the asset.
+ */
+export function attackFor(signals: OracleSignals, protocolId?: string): AttackEconomics | undefined {
+  return attackUnder(signals, marketFor(signals.asset, protocolId));
+}
 
-  const signals: RiskSignals = {
-    asset,
-    oraclePrice: oracle.price,
-    dexPrice: dex.price,
-    divergencePct,
-    stalenessSeconds,
-    liquidityUsd: dex.liquidityUsd,
-    fundingRate: (Math.random() - 0.48) * 0.35,
-    oracleSource: oracle.source,
-    dexSource: dex.source,
-    ...drillOverrides,
-  };
+/** attackFor() against a market resolved once, so a stress run is not split by a config reload */
+export function attackUnder(signals: OracleSignals, market: MarketTerms | null): AttackEconomics | undefined {
+  if (!market || !signals.depth) return undefined;
+  return assessAttackEconomics({
+    curve:      signals.depth,
+    market,
+    shockPct:   signals.depth.shock?.movePct ?? signals.divergencePct,
+    holdBlocks: signals.sustained?.exposedBlocks,
+    swapFeePct: market.swapFeePct,
+  });
+}
 
-  const risk = computeRiskScore(signals);
-  const aiAnalysis = await callClaudeAI(signals, risk);
+/** Scores signals under the resolved policy and attaches the AI narrative (not part of evidenceHash) */
+export async function computeRisk(signals: OracleSignals, isDrill: boolean, opts: ComputeRiskOptions = {}): Promise<RiskResult> {
+  const runId     = opts.runId ?? newRunId();
+  const timestamp = opts.timestamp ?? Math.floor(Date.now() / 1000);
+  const { policy } = resolvePolicy(signals.asset, opts.protocolId);
+  const attack    = attackFor(signals, opts.protocolId);
+  const liquidity = signals.depth && liquidityModel(signals.depth);
+  const scored    = assessRisk(signals, { runId, timestamp, isDrill, trend: opts.trend, attack, liquidity, drill: opts.drill }, policy);
+  const aiAnalysis = await callClaudeAI(signals, scored);
+  const window     = estimateExploitWindow(signals, feedParamsFor(signals.asset));
 
-  const receiptPayload = {
-    actions: risk.actions.map((a) => ({ description: a.description, severity: a.severity, type: a.type })),
-    aiAnalysis,
-    asset,
-    divergencePct: Math.round(signals.divergencePct * 10000) / 10000,
-    dexPrice: Math.round(signals.dexPrice * 100) / 100,
-    dexSource: signals.dexSource,
-    fundingRate: Math.round(signals.fundingRate * 10000) / 10000,
-    isDrill,
-    level: risk.level,
-    levelLabel: risk.levelLabel,
-    liquidityUsd: Math.round(signals.liquidityUsd),
-    oraclePrice: Math.round(signals.oraclePrice * 100) / 100,
-    oracleSource: signals.oracleSource,
+  return {
     runId,
-    score: risk.score,
-    stalenessSeconds: signals.stalenessSeconds,
+    asset:               scored.signals.asset,
+    score:               scored.score,
+    level:               scored.level,
+    levelName:           scored.levelName,
+    vulnClass:           scored.vulnClass,
+    vulnerabilities:     scored.vulnerabilities,
+    breakdown:           scored.breakdown,
+    exploitWindowBlocks: window.blocks,
+    exploitWindow:       window,
+    signals,
+    actions:             scored.actions,
+    policy:              scored.policy,
+    trend:               opts.trend && { ...opts.trend, points: scored.factors.trend },
+    attack,
+    aiAnalysis,
+    evidenceHash:        scored.evidenceHash,
+    canonicalPayload:    scored.canonicalPayload,
     timestamp,
-    vulnerabilityClass: risk.vulnerabilityClass,
-    workflowVersion: "3.0.0",
+    isDrill,
+  };
+}
+
+/** Standalone fetch → score → EIP-712 sign, for callers outside the receipt pipeline */
+export async function buildRiskResult(asset: string, isDrill: boolean, drillOverrides?: Partial<OracleSignals>): Promise<RiskResult & { signature?: string }> {
+  const [oracle, dex, funding, curve] = await Promise.all([
+    fetchOraclePrice(asset), fetchDexPrice(asset), getFunding(asset), fetchDepthCurve(asset),
+  ]);
+
+  const now = Math.floor(Date.now() / 1000);
+  const live: OracleSignals = {
+    asset,
+    oraclePrice:       oracle.price,
+    dexPrice:          dex.price,
+    divergencePct:     Math.abs((oracle.price - dex.price) / oracle.price) * 100,
+    stalenessSeconds:  oracle.updatedAt > 0 ? Math.max(0, now - oracle.updatedAt) : 30,
+    liquidityDepthUsd: dex.liquidityUsd,
+    ...fundingFields(funding),
+    funding,
+    blockNumber:       0,
+    feedAddress:       DATA_FEEDS[asset.toUpperCase()]?.address ?? "",
+    sourceLabel:       `${oracle.source} / ${dex.source}`,
+    timestamp:         now,
   };
+  const signals: OracleSignals = { ...withDepth(live, curve), ...drillOverrides };
 
-  const canonical = canonicalJson(receiptPayload);
-  const evidenceHash = "0x" + ethers.sha256(ethers.toUtf8Bytes(canonical)).slice(2);
+  const risk = await computeRisk(signals, isDrill);
 
   // EIP-712 Signing
   let signature: string | undefined;
@@ -234,8 +281,8 @@ export async function buildRiskResult(asset: string, isDrill: boolean, drillOver
     };
 
     const value = {
-      evidenceHash,
-      runIdHash: ethers.keccak256(ethers.toUtf8Bytes(runId)),
+      evidenceHash: risk.evidenceHash,
+      runIdHash: ethers.keccak256(ethers.toUtf8Bytes(risk.runId)),
       agentId: wallet.address,
       score: risk.score,
       level: risk.level,
@@ -245,5 +292,5 @@ export async function buildRiskResult(asset: string, isDrill: boolean, drillOver
     signature = await wallet.signTypedData(domain, types, value);
   }
 
-  return { runId, score: risk.score, level: risk.level, levelLabel: risk.levelLabel, vulnerabilityClass: risk.vulnerabilityClass, actions: risk.actions, evidenceHash, canonicalJson: canonical, timestamp, signals, aiAnalysis, signature };
+  return { ...risk, signature };
 }
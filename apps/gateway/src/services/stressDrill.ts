@@ -0,0 +1,192 @@
+/**
+ * services/stressDrill.ts — Monte Carlo Stress Drills
+ * =====================================================
+ * Runs `runs` randomised shock combinations through the engine, each
+ * parameter drawn uniformly from its bound:
+ *
+ *   shockPct          DEX price pushed above the oracle, %    default [0, 30]
+ *   liquidityDropPct  share of the depth curve drained, %      default [0, 90]
+ *   stalenessSec      oracle age                               default [0, 3600]
+ *   fundingAprPct     annualised perp funding, %               default [-200, 200]
+ *   oiSkewPct         long/short open-interest skew, %         default [-100, 100]
+ *
+ * The draws come from a seeded PRNG (mulberry32). The trend (signal history)
+ * and the protocol market (attack economics) are resolved once from the live
+ * signals and held for every draw, so the same seed, bounds, base signals,
+ * trend and market give the same run. The result reports the score
+ * distribution, the probability of each level, tail percentiles and the
+ * most dangerous combinations. Its `stressHash` is the SHA-256 of the
+ * canonical run: inputs included, so anyone can replay the seed and compare.
+ * The worst combination becomes the drill's receipt.
+ */
+import { z } from "zod";
+import {
+  canonicalize, policyRef, scoreSignals, sha256Hex,
+  type RiskLevelName, type TrendIndicators, type VulnClass,
+} from "@reality-firewall/risk-core";
+import { marketFor } from "../lib/protocolMarkets.js";
+import { resolvePolicy } from "../lib/riskPolicies.js";
+import { trendFor } from "../lib/signalHistory.js";
+import { applyDrillOverrides, attackUnder, type MarketTerms } from "./riskEngine.js";
+import type { OracleSignals } from "../lib/types.js";
+
+const WORST_KEPT = 5;
+
+function range(min: number, max: number, fallback: [number, number]) {
+  return z.tuple([z.number().min(min).max(max), z.number().min(min).max(max)])
+    .refine(([lo, hi]) => lo <= hi, { message: "bound must be [min, max]" })
+    .default(fallback);
+}
+
+export const stressSchema = z.object({
+  seed:   z.number().int().min(0).max(0xffffffff).optional(),   // random when omitted; echoed back
+  runs:   z.number().int().min(100).max(10_000).default(2_000),
+  bounds: z.object({
+    shockPct:         range(0, 30, [0, 30]),
+    liquidityDropPct: range(0, 90, [0, 90]),
+    stalenessSec:     range(0, 86_400, [0, 3_600]),
+    fundingAprPct:    range(-1_000, 1_000, [-200, 200]),
+    oiSkewPct:        range(-100, 100, [-100, 100]),
+  }).default({
+    shockPct: [0, 30], liquidityDropPct: [0, 90], stalenessSec: [0, 3_600], fundingAprPct: [-200, 200], oiSkewPct: [-100, 100],
+  }),
+});
+
+export type StressRequest = z.infer<typeof stressSchema>;
+type StressBounds = StressRequest["bounds"];
+type StressDraw   = { [K in keyof StressBounds]: number };
+
+export interface StressCombination extends StressDraw {
+  score:     number;
+  levelName: RiskLevelName;
+  vulnClass: VulnClass;
+}
+
+export interface StressRun {
+  seed:             number;
+  runs:             number;
+  bounds:           StressBounds;
+  policyHash:       string;
+  /** The live signals every draw was applied to */
+  base:             Pick<OracleSignals, "asset" | "oraclePrice" | "dexPrice" | "divergencePct" | "stalenessSeconds" | "liquidityDepthUsd" | "depth">;
+  /** Held for every draw: the live signals' trend, and the market attack economics are priced against (null: none) */
+  trend:            TrendIndicators;
+  market:           MarketTerms | null;
+  distribution:     { mean: number; stdDev: number; min: number; max: number; histogram: Array<{ from: number; to: number; count: number }> };
+  levelProbability: Record<RiskLevelName, number>;
+  percentiles:      { p50: number; p90: number; p95: number; p99: number; p999: number };
+  worst:            StressCombination[];
+  stressHash:       string;
+}
+
+function round(n: number, dp: number): number {
+  const f = 10 ** dp;
+  return Math.round(n * f) / f;
+}
+
+/** mulberry32 — small, fast and identical on every JS runtime */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+/** Nearest-rank percentile of an ascending array */
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/**
+ * Runs the stress drill from the live `base` signals. Returns the run and
+ * the signals of its most dangerous combination.
+ */
+export function runStress(base: OracleSignals, req: StressRequest, protocolId?: string): { run: StressRun; worst: OracleSignals } {
+  const { policy } = resolvePolicy(base.asset, protocolId);
+  const seed   = req.seed ?? Math.floor(Math.random() * 0x100000000);
+  const random = mulberry32(seed);
+  const draw   = ([lo, hi]: [number, number], dp: number) => round(lo + (hi - lo) * random(), dp);
+  const trend  = trendFor(base);
+  const found  = marketFor(base.asset, protocolId);
+  const market: MarketTerms | null = found && { borrowableUsd: found.borrowableUsd, ltvPct: found.ltvPct, swapFeePct: found.swapFeePct };
+
+  const scores: number[] = [];
+  const levels: Record<RiskLevelName, number> = { SAFE: 0, LOW: 0, MEDIUM: 0, HIGH: 0, CRITICAL: 0 };
+  const worst: Array<StressCombination & { signals: OracleSignals }> = [];
+
+  for (let i = 0; i < req.runs; i++) {
+    const d: StressDraw = {
+      shockPct:         draw(req.bounds.shockPct, 4),
+      liquidityDropPct: draw(req.bounds.liquidityDropPct, 4),
+      stalenessSec:     draw(req.bounds.stalenessSec, 0),
+      fundingAprPct:    draw(req.bounds.fundingAprPct, 4),
+      oiSkewPct:        draw(req.bounds.oiSkewPct, 4),
+    };
+    const signals: OracleSignals = {
+      ...applyDrillOverrides(base, { shockPct: d.shockPct, liquidityDropPct: d.liquidityDropPct, stalenessSec: d.stalenessSec }),
+      fundingAprPct: d.fundingAprPct,
+      oiSkewPct:     d.oiSkewPct,
+    };
+    const scored = scoreSignals(signals, policy, trend, attackUnder(signals, market));
+    scores.push(scored.score);
+    levels[scored.levelName]++;
+
+    // Keep the WORST_KEPT highest scores; earlier draws win ties
+    if (worst.length < WORST_KEPT || scored.score > worst[worst.length - 1].score) {
+      const at = worst.findIndex((w) => scored.score > w.score);
+      worst.splice(at === -1 ? worst.length : at, 0, { ...d, score: scored.score, levelName: scored.levelName, vulnClass: scored.vulnClass, signals });
+      if (worst.length > WORST_KEPT) worst.pop();
+    }
+  }
+
+  const sorted = [...scores].sort((a, b) => a - b);
+  const mean   = scores.reduce((s, v) => s + v, 0) / scores.length;
+  const stdDev = Math.sqrt(scores.reduce((s, v) => s + (v - mean) ** 2, 0) / scores.length);
+  const histogram = Array.from({ length: 10 }, (_, b) => ({
+    from:  b * 10,
+    to:    b === 9 ? 100 : b * 10 + 9,
+    count: scores.filter((v) => Math.min(9, Math.floor(v / 10)) === b).length,
+  }));
+
+  const run: Omit<StressRun, "stressHash"> = {
+    seed,
+    runs:       req.runs,
+    bounds:     req.bounds,
+    policyHash: policyRef(policy).hash,
+    base: {
+      asset:             base.asset,
+      oraclePrice:       base.oraclePrice,
+      dexPrice:          base.dexPrice,
+      divergencePct:     base.divergencePct,
+      stalenessSeconds:  base.stalenessSeconds,
+      liquidityDepthUsd: base.liquidityDepthUsd,
+      depth:             base.depth,
+    },
+    trend,
+    market,
+    distribution: { mean: round(mean, 4), stdDev: round(stdDev, 4), min: sorted[0], max: sorted[sorted.length - 1], histogram },
+    levelProbability: Object.fromEntries(
+      Object.entries(levels).map(([name, n]) => [name, round(n / req.runs, 4)]),
+    ) as Record<RiskLevelName, number>,
+    percentiles: {
+      p50:  percentile(sorted, 50),
+      p90:  percentile(sorted, 90),
+      p95:  percentile(sorted, 95),
+      p99:  percentile(sorted, 99),
+      p999: percentile(sorted, 99.9),
+    },
+    worst: worst.map((w) => ({
+      shockPct: w.shockPct, liquidityDropPct: w.liquidityDropPct, stalenessSec: w.stalenessSec, fundingAprPct: w.fundingAprPct,
+      oiSkewPct: w.oiSkewPct, score: w.score, levelName: w.levelName, vulnClass: w.vulnClass,
+    })),
+  };
+
+  return {
+    run:   { ...run, stressHash: "0x" + sha256Hex(canonicalize(run)) },
+    worst: worst[0].signals,
+  };
+}
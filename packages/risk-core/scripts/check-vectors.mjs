@@ -0,0 +1,58 @@
+/**
+ * scripts/check-vectors.mjs — Golden vector check for @reality-firewall/risk-core
+ *
+ *   node scripts/check-vectors.mjs            verify dist/ against vectors/golden.json
+ *   node scripts/check-vectors.mjs --update   rewrite expected outputs (review the diff!)
+ *
+ * Also cross-checks the portable SHA-256 against node:crypto.
+ */
+import { createHash } from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+import { assessRisk } from "../dist/index.js";
+
+const path    = new URL("../vectors/golden.json", import.meta.url);
+const golden  = JSON.parse(readFileSync(path, "utf8"));
+const update  = process.argv.includes("--update");
+let failures  = 0;
+
+for (const v of golden.vectors) {
+  const r = assessRisk(v.signals, v.context, v.policy);
+  const actual = {
+    score:        r.score,
+    level:        r.level,
+    levelName:    r.levelName,
+    vulnClass:    r.vulnClass,
+    actionTypes:  r.actions.map((a) => a.type),
+    policyHash:   r.policy.hash,
+    evidenceHash: r.evidenceHash,
+  };
+
+  const nodeHash = "0x" + createHash("sha256").update(r.canonicalPayload, "utf8").digest("hex");
+  if (nodeHash !== r.evidenceHash) {
+    console.error(`✗ ${v.name}: portable sha256 ${r.evidenceHash} ≠ node:crypto ${nodeHash}`);
+    failures++;
+    continue;
+  }
+
+  if (update) {
+    v.expected = actual;
+    continue;
+  }
+  const diff = Object.keys(actual).filter((k) => JSON.stringify(actual[k]) !== JSON.stringify(v.expected?.[k]));
+  if (diff.length) {
+    failures++;
+    console.error(`✗ ${v.name}`);
+    for (const k of diff) console.error(`    ${k}: expected ${JSON.stringify(v.expected?.[k])}, got ${JSON.stringify(actual[k])}`);
+  } else {
+    console.log(`✓ ${v.name} (score ${actual.score}, ${actual.levelName})`);
+  }
+}
+
+if (update && !failures) {
+  writeFileSync(path, JSON.stringify(golden, null, 2) + "\n");
+  console.log(`Updated ${golden.vectors.length} vectors in vectors/golden.json`);
+}
+if (failures) {
+  console.error(`${failures} of ${golden.vectors.length} vectors failed`);
+  process.exit(1);
+}
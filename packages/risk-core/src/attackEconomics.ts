@@ -0,0 +1,89 @@
+/**
+ * attackEconomics.ts — Oracle Manipulation Profitability
+ * ========================================================
+ * Whether pushing the collateral price by `shockPct` pays for a lending
+ * market that prices collateral off the manipulated venue:
+ *
+ *   capital     C = USD to move the price up by s (depth curve, buy side)
+ *   cost          = holdBlocks · C · (s / (2 + s) + fee)
+ *                   — arbitrage unwinds the push each block; the attacker
+ *                   loses the average overpayment s/(2+s) plus the swap fee
+ *   per $1 real collateral the attacker borrows LTV · (1 + s), so with
+ *   g = LTV · (1 + s) − 1 > 0 and the whole borrowable amount B taken:
+ *   collateral    = B / (LTV · (1 + s))
+ *   extractable   = B − collateral            (0 when g ≤ 0)
+ *   net           = extractable − cost        → profitable when > 0
+ *
+ *   breakEvenShockPct   = (1 / LTV − 1) · 100 — below it nothing is extractable
+ *   maxSafeBorrowableUsd = cost · LTV · (1 + s) / g — the borrow cap at which
+ *                          the attack stops paying (null when g ≤ 0)
+ *
+ * The breakdown rides in the evidence payload; scoring turns a net-positive
+ * attack into PROFITABLE_MANIPULATION and a SET_BORROW_CAP action.
+ */
+import { costToMove, type DepthCurve } from "./depth.js";
+
+/** Lending-market parameters from protocol config */
+export interface MarketConfig {
+  borrowableUsd: number;   // liquidity an attacker can borrow against the collateral
+  ltvPct:        number;   // loan-to-value of the collateral, %
+}
+
+export interface AttackEconomics {
+  shockPct:             number;
+  holdBlocks:           number;
+  ltvPct:               number;
+  borrowableUsd:        number;
+  capitalRequiredUsd:   number;
+  manipulationCostUsd:  number;
+  collateralUsd:        number;
+  extractableUsd:       number;
+  netProfitUsd:         number;
+  profitable:           boolean;
+  breakEvenShockPct:    number;
+  maxSafeBorrowableUsd: number | null;
+}
+
+/** Swap fee assumed on the manipulating trade when the venue's is unknown */
+export const DEFAULT_SWAP_FEE_PCT = 0.3;
+
+function round(n: number, dp: number): number {
+  const f = 10 ** dp;
+  return Math.round(n * f) / f;
+}
+
+export function assessAttackEconomics(opts: {
+  curve:       DepthCurve;
+  market:      MarketConfig;
+  shockPct:    number;
+  holdBlocks?: number;
+  swapFeePct?: number;
+}): AttackEconomics {
+  const s       = Math.max(0, opts.shockPct) / 100;
+  const ltv     = opts.market.ltvPct / 100;
+  const hold    = Math.max(1, Math.round(opts.holdBlocks ?? 1));
+  const fee     = (opts.swapFeePct ?? DEFAULT_SWAP_FEE_PCT) / 100;
+  const B       = Math.max(0, opts.market.borrowableUsd);
+
+  const capital = costToMove(opts.curve, opts.shockPct, "up");
+  const cost    = hold * capital * (s / (2 + s) + fee);
+  const gain    = ltv * (1 + s) - 1;
+  const collateral  = gain > 0 ? B / (ltv * (1 + s)) : 0;
+  const extractable = gain > 0 ? B - collateral : 0;
+  const net     = extractable - cost;
+
+  return {
+    shockPct:             round(opts.shockPct, 4),
+    holdBlocks:           hold,
+    ltvPct:               round(opts.market.ltvPct, 4),
+    borrowableUsd:        Math.round(B),
+    capitalRequiredUsd:   Math.round(capital),
+    manipulationCostUsd:  Math.round(cost),
+    collateralUsd:        Math.round(collateral),
+    extractableUsd:       Math.round(extractable),
+    netProfitUsd:         Math.round(net),
+    profitable:           Math.round(net) > 0,
+    breakEvenShockPct:    ltv > 0 ? round((1 / ltv - 1) * 100, 4) : Number.MAX_SAFE_INTEGER,
+    maxSafeBorrowableUsd: gain > 0 ? Math.round(cost * ltv * (1 + s) / gain) : null,
+  };
+}
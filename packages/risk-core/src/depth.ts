@@ -0,0 +1,208 @@
+/**
+ * depth.ts — Price-impact Liquidity Depth
+ * =========================================
+ * "Liquidity" for the score is what it costs to move the price, read from
+ * AMM state rather than inferred from volume:
+ *
+ *   Uniswap V3 — active liquidity plus liquidityNet of every initialized
+ *                tick between the current price and the target; amounts per
+ *                segment are Δy = L·(√P' − √P), Δx = L·(1/√P' − 1/√P)
+ *   Uniswap V2 — the same math with one full-range position, L = √(x·y)
+ *   estimate   — fallback when no pool is readable: a depth at the reference
+ *                move (24h volume × VOLUME_DEPTH_FACTOR), linear in the move
+ *
+ * The result is a curve of USD cost to push the base asset up or down by
+ * each move in DEFAULT_DEPTH_MOVES_PCT (swap fees ignored, quote ≈ $1).
+ * `depthUsd` — the cheaper side at the reference move (2%) — is the
+ * scalar the liquidity factor scores as liquidityDepthUsd. The evidence
+ * pins which of these produced it (LiquidityModel), so a volume estimate
+ * can never pass for pool depth.
+ */
+import { sqrtPriceX96ToPrice, type UniswapV3Pool } from "./uniswapV3.js";
+
+export interface UniswapV2Pair {
+  address:        string;
+  chainId:        number;
+  token0Decimals: number;
+  token1Decimals: number;
+  baseIsToken0:   boolean;
+  quote:          string;
+}
+
+export interface LiquidityTick { tick: number; liquidityNet: bigint; }
+
+/** V3 pool state around the current price */
+export interface ConcentratedLiquidity {
+  sqrtPriceX96: bigint;
+  tick:         number;
+  liquidity:    bigint;            // active liquidity
+  ticks:        LiquidityTick[];   // initialized ticks within the largest move
+}
+
+export interface DepthPoint { movePct: number; costUpUsd: number; costDownUsd: number; }
+
+export interface DepthCurve {
+  venue:            "uniswap-v3" | "uniswap-v2" | "estimate";
+  pool:             string | null;
+  referenceMovePct: number;
+  /** Cheaper side at referenceMovePct — scored as liquidityDepthUsd */
+  depthUsd:         number;
+  points:           DepthPoint[];
+}
+
+/** Where a scored liquidityDepthUsd came from — part of the evidence payload */
+export interface LiquidityModel {
+  venue: DepthCurve["venue"];
+  pool:  string | null;
+  /** amm-state for pool/pair reads; for estimates, what the depth was derived from */
+  basis: "amm-state" | "24h-volume" | "source-reported" | "fixed-fallback";
+}
+
+export const DEFAULT_DEPTH_MOVES_PCT  = [0.5, 1, 2, 5, 10, 25];
+export const DEPTH_REFERENCE_MOVE_PCT = 2;
+/** Depth at the reference move as a share of 24h volume, for sources with no AMM state */
+export const VOLUME_DEPTH_FACTOR      = 0.12;
+export const GET_RESERVES_SELECTOR    = "0x0902f1ac";
+
+/** Mainnet V2 pairs, used where no V3 pool is configured or readable */
+export const DEFAULT_UNISWAP_V2_PAIRS: Record<string, UniswapV2Pair> = {
+  WETH: { address: "0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc", chainId: 1, token0Decimals: 6, token1Decimals: 18, baseIsToken0: false, quote: "USDC" },
+};
+
+const Q96 = 2 ** 96;
+
+interface Segmented { sqrtPrice: number; liquidity: number; tick: number; ticks: LiquidityTick[]; }
+
+/** Raw token0 / token1 paid in to move √P from the current value to `target` */
+function amountsIn(state: Segmented, target: number): { in0: number; in1: number } {
+  let cur = state.sqrtPrice;
+  let L   = state.liquidity;
+  let in0 = 0;
+  let in1 = 0;
+  if (target > cur) {
+    const crossings = state.ticks.filter((t) => t.tick > state.tick).sort((a, b) => a.tick - b.tick);
+    for (const t of crossings) {
+      const edge = Math.sqrt(1.0001 ** t.tick);
+      if (edge >= target) break;
+      in1 += L * (edge - cur);
+      cur  = edge;
+      L    = Math.max(0, L + Number(t.liquidityNet));
+    }
+    in1 += L * (target - cur);
+  } else {
+    const crossings = state.ticks.filter((t) => t.tick <= state.tick).sort((a, b) => b.tick - a.tick);
+    for (const t of crossings) {
+      const edge = Math.sqrt(1.0001 ** t.tick);
+      if (edge <= target) break;
+      in0 += L * (1 / edge - 1 / cur);
+      cur  = edge;
+      L    = Math.max(0, L - Number(t.liquidityNet));
+    }
+    in0 += L * (1 / target - 1 / cur);
+  }
+  return { in0, in1 };
+}
+
+function roundUsd(n: number): number {
+  return Number.isFinite(n) ? Math.round(n) : Number.MAX_SAFE_INTEGER;
+}
+
+function buildCurve(
+  venue: DepthCurve["venue"],
+  pool: UniswapV3Pool | UniswapV2Pair,
+  state: Segmented,
+  basePrice: number,
+  moves: number[],
+): DepthCurve {
+  const quote0 = 10 ** pool.token0Decimals;
+  const quote1 = 10 ** pool.token1Decimals;
+  const s      = state.sqrtPrice;
+
+  const points = moves.map((movePct) => {
+    const up   = Math.sqrt(1 + movePct / 100);
+    const down = Math.sqrt(Math.max(1e-9, 1 - movePct / 100));
+    // The base asset going up means token1/token0 up when it is token0, down when it is token1
+    const buy  = amountsIn(state, pool.baseIsToken0 ? s * up : s / up);
+    const sell = amountsIn(state, pool.baseIsToken0 ? s * down : s / down);
+    return {
+      movePct,
+      costUpUsd:   roundUsd(pool.baseIsToken0 ? buy.in1 / quote1 : buy.in0 / quote0),
+      costDownUsd: roundUsd(pool.baseIsToken0 ? sell.in0 / quote0 * basePrice : sell.in1 / quote1 * basePrice),
+    };
+  });
+  return withReference({ venue, pool: pool.address, referenceMovePct: DEPTH_REFERENCE_MOVE_PCT, depthUsd: 0, points });
+}
+
+function withReference(curve: DepthCurve): DepthCurve {
+  return { ...curve, depthUsd: costToMove(curve, curve.referenceMovePct) };
+}
+
+export function v3DepthCurve(pool: UniswapV3Pool, state: ConcentratedLiquidity, moves = DEFAULT_DEPTH_MOVES_PCT): DepthCurve {
+  return buildCurve("uniswap-v3", pool, {
+    sqrtPrice: Number(state.sqrtPriceX96) / Q96,
+    liquidity: Number(state.liquidity),
+    tick:      state.tick,
+    ticks:     state.ticks,
+  }, sqrtPriceX96ToPrice(state.sqrtPriceX96, pool), moves);
+}
+
+export function v2DepthCurve(pair: UniswapV2Pair, reserves: { reserve0: bigint; reserve1: bigint }, moves = DEFAULT_DEPTH_MOVES_PCT): DepthCurve {
+  const r0 = Number(reserves.reserve0);
+  const r1 = Number(reserves.reserve1);
+  const human = (r1 / r0) * 10 ** (pair.token0Decimals - pair.token1Decimals);
+  return buildCurve("uniswap-v2", pair, {
+    sqrtPrice: Math.sqrt(r1 / r0),
+    liquidity: Math.sqrt(r0 * r1),
+    tick:      0,
+    ticks:     [],
+  }, pair.baseIsToken0 ? human : 1 / human, moves);
+}
+
+/** Fallback: cost linear in the move, anchored at `depthUsd` for the reference move */
+export function estimatedDepthCurve(depthUsd: number, moves = DEFAULT_DEPTH_MOVES_PCT): DepthCurve {
+  const atReference = Math.max(0, depthUsd);
+  const points = moves.map((movePct) => {
+    const cost = roundUsd(atReference * movePct / DEPTH_REFERENCE_MOVE_PCT);
+    return { movePct, costUpUsd: cost, costDownUsd: cost };
+  });
+  return withReference({ venue: "estimate", pool: null, referenceMovePct: DEPTH_REFERENCE_MOVE_PCT, depthUsd: 0, points });
+}
+
+/** The model behind a curve; `estimateBasis` says where an estimate's depth came from */
+export function liquidityModel(curve: DepthCurve, estimateBasis: Exclude<LiquidityModel["basis"], "amm-state"> = "source-reported"): LiquidityModel {
+  return { venue: curve.venue, pool: curve.pool, basis: curve.venue === "estimate" ? estimateBasis : "amm-state" };
+}
+
+export function decodeReserves(hex: string): { reserve0: bigint; reserve1: bigint } {
+  const h = hex.startsWith("0x") ? hex.slice(2) : hex;
+  if (h.length < 128) throw new Error("[Depth] getReserves return data too short");
+  return { reserve0: BigInt("0x" + h.slice(0, 64)), reserve1: BigInt("0x" + h.slice(64, 128)) };
+}
+
+/**
+ * USD to move the price by `movePct`: linear between curve points, from 0
+ * below the first, proportional to the last point beyond it.
+ */
+export function costToMove(curve: DepthCurve, movePct: number, side: "up" | "down" | "min" = "min"): number {
+  const cost = (p: DepthPoint) => side === "up" ? p.costUpUsd : side === "down" ? p.costDownUsd : Math.min(p.costUpUsd, p.costDownUsd);
+  const pts  = [...curve.points].sort((a, b) => a.movePct - b.movePct);
+  if (!pts.length || movePct <= 0) return 0;
+  let prev = { movePct: 0, cost: 0 };
+  for (const p of pts) {
+    if (movePct <= p.movePct) {
+      const f = (movePct - prev.movePct) / (p.movePct - prev.movePct);
+      return Math.round(prev.cost + f * (cost(p) - prev.cost));
+    }
+    prev = { movePct: p.movePct, cost: cost(p) };
+  }
+  return Math.round(prev.cost * movePct / prev.movePct);
+}
+
+/** Every cost × factor — e.g. a drill draining 40% of liquidity scales by 0.6 */
+export function scaleDepthCurve(curve: DepthCurve, factor: number): DepthCurve {
+  const f = Math.max(0, factor);
+  return withReference({
+    ...curve,
+    points: curve.points.map((p) => ({ movePct: p.movePct, costUpUsd: Math.round(p.costUpUsd * f), costDownUsd: Math.round(p.costDownUsd * f) })),
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * evidence.ts — Canonical Evidence Payload + evidenceHash
+ * =========================================================
+ * evidenceHash = "0x" + sha256(RFC 8785 canonical JSON of the payload below).
+ * Every field is deterministic given (signals, policy, runId, timestamp,
+ * isDrill, trend, attack, liquidity model, drill provenance), so the gateway, either CRE workflow, or an auditor
+ * recomputes the same hash. policyId/policyVersion/policyHash pin the scoring rules.
+ * Free-text AI analysis is deliberately excluded; the receipt signature
+ * covers it instead.
+ */
+import { hashWithPayload } from "./canonical.js";
+import { SCORING_VERSION } from "./scoring.js";
+import type { PolicyRef } from "./policy.js";
+import type { EvidenceContext, RiskAssessment } from "./types.js";
+
+export function evidencePayload(a: RiskAssessment, policy: PolicyRef, ctx: EvidenceContext) {
+  return {
+    actions:           a.actions,
+    asset:             a.signals.asset,
+    attack:            ctx.attack ?? null,
+    breakdown:         a.breakdown,
+    dexPrice:          a.signals.dexPrice,
+    divergencePct:     a.signals.divergencePct,
+    drill:             ctx.drill ?? null,
+    fundingAprPct:     a.signals.fundingAprPct,
+    isDrill:           ctx.isDrill,
+    level:             a.level,
+    levelName:         a.levelName,
+    liquidityDepthUsd: a.signals.liquidityDepthUsd,
+    liquidityModel:    ctx.liquidity ?? null,
+    oiSkewPct:         a.signals.oiSkewPct,
+    oraclePrice:       a.signals.oraclePrice,
+    policyHash:        policy.hash,
+    policyId:          policy.id,
+    policyVersion:     policy.version,
+    runId:             ctx.runId,
+    score:             a.score,
+    scoringVersion:    SCORING_VERSION,
+    stalenessSeconds:  a.signals.stalenessSeconds,
+    timestamp:         ctx.timestamp,
+    trend:             ctx.trend ?? null,
+    vulnClass:         a.vulnClass,
+    vulnerabilities:   a.vulnerabilities,
+  };
+}
+
+export function buildEvidence(a: RiskAssessment, policy: PolicyRef, ctx: EvidenceContext): { evidenceHash: string; canonicalPayload: string } {
+  return hashWithPayload(evidencePayload(a, policy, ctx));
+}
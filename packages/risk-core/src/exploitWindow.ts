@@ -0,0 +1,108 @@
+/**
+ * exploitWindow.ts — Oracle Update Window
+ * =========================================
+ * A push oracle (Chainlink Data Feeds) writes a new answer when the
+ * off-chain price moves past its deviation threshold or when the heartbeat
+ * elapses, whichever comes first. Between updates the on-chain answer and
+ * the tradable price can disagree, and that gap is what an attacker holds:
+ *
+ *   divergence ≥ deviation threshold → a round lands within
+ *                                      DEVIATION_RESPONSE_BLOCKS   "deviation"
+ *   otherwise                        → until the heartbeat:
+ *                                      ⌈(heartbeat − staleness) / block time⌉  "heartbeat"
+ *   staleness ≥ heartbeat            → the feed has missed its heartbeat;
+ *                                      assume it misses one more   "overdue"
+ *
+ * sustainShock() plays a drill's `blocks` against that window: how much of
+ * the hold the oracle leaves exposed, how far a TWAP consumer is dragged and
+ * which feed thresholds the hold crosses.
+ */
+
+export interface FeedUpdateParams {
+  heartbeatSec:          number;
+  deviationThresholdPct: number;
+}
+
+export interface ExploitWindow {
+  blocks:                number;
+  trigger:               "deviation" | "heartbeat" | "overdue";
+  heartbeatRemainingSec: number;
+  blockTimeSec:          number;
+}
+
+export interface SustainedShock {
+  blocks:                    number;   // drill input: blocks the shock is held
+  heldSec:                   number;
+  shockPct:                  number;
+  exploitWindowBlocks:       number;
+  /** Held blocks before the oracle catches up — the exploitable part of the hold */
+  exposedBlocks:             number;
+  outlastsWindow:            boolean;  // the oracle updates before the attacker lets go
+  twapWindowSec:             number;
+  /** Shock as seen through a TWAP of twapWindowSec after the hold */
+  twapShiftPct:              number;
+  crossesDeviationThreshold: boolean;  // the TWAP shift alone would trigger a feed update
+  crossesHeartbeat:          boolean;  // staleness + exposed hold reaches the heartbeat
+}
+
+export const BLOCK_TIME_SEC            = 12;
+export const DEVIATION_RESPONSE_BLOCKS = 3;
+export const DEFAULT_TWAP_WINDOW_SEC   = 1800;
+
+/** Mainnet Chainlink feed parameters; override per deployment */
+export const DEFAULT_FEED_UPDATE_PARAMS: Record<string, FeedUpdateParams> = {
+  WETH: { heartbeatSec: 3600,  deviationThresholdPct: 0.5  },
+  WBTC: { heartbeatSec: 3600,  deviationThresholdPct: 0.5  },
+  LINK: { heartbeatSec: 3600,  deviationThresholdPct: 0.5  },
+  USDC: { heartbeatSec: 86400, deviationThresholdPct: 0.25 },
+  ARB:  { heartbeatSec: 86400, deviationThresholdPct: 1    },
+};
+
+/** Fallback for assets with no known feed: a conservative day-long heartbeat */
+export const FALLBACK_FEED_UPDATE_PARAMS: FeedUpdateParams = { heartbeatSec: 86400, deviationThresholdPct: 1 };
+
+function round(n: number, dp: number): number {
+  const f = 10 ** dp;
+  return Math.round(n * f) / f;
+}
+
+export function estimateExploitWindow(
+  signals: { divergencePct: number; stalenessSeconds: number },
+  feed: FeedUpdateParams,
+  blockTimeSec = BLOCK_TIME_SEC,
+): ExploitWindow {
+  const remaining = Math.max(0, feed.heartbeatSec - signals.stalenessSeconds);
+  const heartbeatBlocks = Math.ceil(feed.heartbeatSec / blockTimeSec);
+  if (remaining === 0) {
+    return { blocks: heartbeatBlocks, trigger: "overdue", heartbeatRemainingSec: 0, blockTimeSec };
+  }
+  if (Math.abs(signals.divergencePct) >= feed.deviationThresholdPct) {
+    return { blocks: Math.min(DEVIATION_RESPONSE_BLOCKS, heartbeatBlocks), trigger: "deviation", heartbeatRemainingSec: remaining, blockTimeSec };
+  }
+  return { blocks: Math.ceil(remaining / blockTimeSec), trigger: "heartbeat", heartbeatRemainingSec: remaining, blockTimeSec };
+}
+
+export function sustainShock(
+  shockPct: number,
+  blocks: number,
+  window: ExploitWindow,
+  feed: FeedUpdateParams,
+  stalenessSeconds: number,
+  twapWindowSec = DEFAULT_TWAP_WINDOW_SEC,
+): SustainedShock {
+  const heldSec       = blocks * window.blockTimeSec;
+  const exposedBlocks = Math.min(blocks, window.blocks);
+  const twapShiftPct  = round(shockPct * Math.min(1, heldSec / twapWindowSec), 4);
+  return {
+    blocks,
+    heldSec,
+    shockPct,
+    exploitWindowBlocks:       window.blocks,
+    exposedBlocks,
+    outlastsWindow:            blocks > window.blocks,
+    twapWindowSec,
+    twapShiftPct,
+    crossesDeviationThreshold: Math.abs(twapShiftPct) >= feed.deviationThresholdPct,
+    crossesHeartbeat:          stalenessSeconds + exposedBlocks * window.blockTimeSec >= feed.heartbeatSec,
+  };
+}
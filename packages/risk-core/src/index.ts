@@ -0,0 +1,55 @@
+/**
+ * @reality-firewall/risk-core — Shared Risk Scoring Core
+ * ========================================================
+ * The one implementation of scoring, level mapping, vulnerability class,
+ * recommended actions, canonical payload and evidenceHash. Imported by
+ * apps/gateway, workflows/cre-workflow and workflows/cre-risk-workflow;
+ * vectors/golden.json pins its output so all three agree.
+ *
+ *   assessRisk(signals, { runId, timestamp, isDrill, trend?, attack?, liquidity?, drill? }, policy?) → ScoredEvidence
+ *
+ * Thresholds come from a RiskPolicy (DEFAULT_POLICY unless one is passed).
+ *
+ * No Node built-ins: must also run in the CRE WASM runtime.
+ */
+import { buildEvidence } from "./evidence.js";
+import { DEFAULT_POLICY, policyRef, type PolicyRef, type RiskPolicy } from "./policy.js";
+import { scoreSignals, type FactorPoints } from "./scoring.js";
+import type { EvidenceContext, ScoredEvidence, ScoringSignals } from "./types.js";
+
+export * from "./types.js";
+export { canonicalize, sha256Hex, hashWithPayload } from "./canonical.js";
+export {
+  SCORING_VERSION, normalizeSignals, factorPoints, trendPoints, weightedScore, levelForScore, classifyVulnerability,
+  classifyVulnerabilities, scoreBreakdown, recommendActions, scoreSignals, type FactorPoints,
+} from "./scoring.js";
+export { DEFAULT_POLICY, policyHash, policyRef, type RiskPolicy, type ScoreBand, type PolicyRef } from "./policy.js";
+export { evidencePayload, buildEvidence } from "./evidence.js";
+export { computeTrend, type TrendSample, type TrendOptions } from "./trend.js";
+export {
+  DEFAULT_UNISWAP_V3_POOLS, SLOT0_SELECTOR, OBSERVE_SELECTOR, LIQUIDITY_SELECTOR, TICK_SPACING_SELECTOR,
+  sqrtPriceX96ToPrice, tickToPrice, meanTick, decodeSlot0, encodeObserve, decodeObserve, poolPrice,
+  decodeUint, decodeInt, encodeTickBitmap, encodeTicks, decodeTickLiquidityNet, tickWordPosition, initializedTicks,
+  type UniswapV3Pool, type PoolPrice,
+} from "./uniswapV3.js";
+export {
+  DEFAULT_DEPTH_MOVES_PCT, DEPTH_REFERENCE_MOVE_PCT, VOLUME_DEPTH_FACTOR, GET_RESERVES_SELECTOR, DEFAULT_UNISWAP_V2_PAIRS,
+  v3DepthCurve, v2DepthCurve, estimatedDepthCurve, liquidityModel, decodeReserves, costToMove, scaleDepthCurve,
+  type UniswapV2Pair, type LiquidityTick, type ConcentratedLiquidity, type DepthPoint, type DepthCurve, type LiquidityModel,
+} from "./depth.js";
+export {
+  BLOCK_TIME_SEC, DEVIATION_RESPONSE_BLOCKS, DEFAULT_TWAP_WINDOW_SEC, DEFAULT_FEED_UPDATE_PARAMS, FALLBACK_FEED_UPDATE_PARAMS,
+  estimateExploitWindow, sustainShock,
+  type FeedUpdateParams, type ExploitWindow, type SustainedShock,
+} from "./exploitWindow.js";
+export { DEFAULT_SWAP_FEE_PCT, assessAttackEconomics, type MarketConfig, type AttackEconomics } from "./attackEconomics.js";
+
+export function assessRisk(
+  signals: ScoringSignals,
+  ctx: EvidenceContext,
+  policy: RiskPolicy = DEFAULT_POLICY,
+): ScoredEvidence & { factors: FactorPoints; policy: PolicyRef } {
+  const assessment = scoreSignals(signals, policy, ctx.trend, ctx.attack);
+  const ref        = policyRef(policy);
+  return { ...assessment, ...ctx, policy: ref, ...buildEvidence(assessment, ref, ctx) };
+}
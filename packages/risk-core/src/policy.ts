@@ -0,0 +1,92 @@
+/**
+ * policy.ts — Versioned Risk Policies
+ * =====================================
+ * Every threshold the scorer uses lives in a RiskPolicy: factor bands and
+ * weights, trend rules, level cut-offs, vulnerability-class triggers and
+ * action rules.
+ * DEFAULT_POLICY reproduces the original hardcoded rules.
+ *
+ * A policy is identified by `id@version` and fingerprinted by policyHash —
+ * sha256 of its RFC 8785 canonical JSON — which every evidence payload
+ * carries, so an auditor can tell exactly which rules produced a score.
+ */
+import { canonicalize, sha256Hex } from "./canonical.js";
+import type { RiskLevel } from "./types.js";
+
+/** Points awarded once the factor crosses `threshold` (above for most factors, below for liquidity) */
+export interface ScoreBand { threshold: number; points: number; }
+
+export interface RiskPolicy {
+  id:          string;
+  version:     number;
+  description?: string;
+  bands: {
+    divergencePct:     ScoreBand[];   // value >  threshold
+    stalenessSeconds:  ScoreBand[];   // value >  threshold
+    liquidityDepthUsd: ScoreBand[];   // value <  threshold
+    fundingAprPct:     ScoreBand[];   // |value| > threshold (annualised perp funding, %)
+    oiSkewPct:         ScoreBand[];   // |value| > threshold (long − short open interest, % of total)
+  };
+  /** Trend factor from rolling indicators (trend.ts); scored only with ≥ minSamples */
+  trend: {
+    minSamples:             number;
+    divergenceZScore:       ScoreBand[];   // value >  threshold
+    divergenceRocPctPerMin: ScoreBand[];   // value >  threshold (rising divergence)
+    liquidityDrainPctPerMin: ScoreBand[];  // −liquidityRoc > threshold
+    maxPoints:              number;
+  };
+  /** Multipliers on band points; score = min(100, round(Σ points × weight)) */
+  weights: { divergence: number; staleness: number; liquidity: number; funding: number; oiSkew: number; trend: number; };
+  /** Minimum score for LOW, MEDIUM, HIGH, CRITICAL */
+  levels: [number, number, number, number];
+  /** Dominant-class triggers, checked in this order */
+  classification: { divergencePct: number; stalenessSeconds: number; liquidityDepthUsd: number; };
+  actions: {
+    monitorFromLevel:    RiskLevel;
+    reduceLtv:           { divergenceAbovePct: number; pctPerDivergencePct: number; maxPct: number; };
+    capSupply:           { liquidityBelowUsd: number; deltaPct: number; };
+    capBorrowFromLevel:  RiskLevel;
+    freezeFromLevel:     RiskLevel;
+  };
+}
+
+export interface PolicyRef { id: string; version: number; hash: string; }
+
+export const DEFAULT_POLICY: RiskPolicy = {
+  id:      "default",
+  version: 2,
+  description: "Volatile collateral (WETH, WBTC, LINK)",
+  bands: {
+    divergencePct:     [{ threshold: 15, points: 40 }, { threshold: 10, points: 35 }, { threshold: 5, points: 25 }, { threshold: 2, points: 15 }, { threshold: 1, points: 8 }],
+    stalenessSeconds:  [{ threshold: 3600, points: 30 }, { threshold: 1800, points: 22 }, { threshold: 600, points: 15 }, { threshold: 90, points: 7 }],
+    liquidityDepthUsd: [{ threshold: 100_000, points: 20 }, { threshold: 500_000, points: 14 }, { threshold: 1_000_000, points: 8 }, { threshold: 5_000_000, points: 3 }],
+    fundingAprPct:     [{ threshold: 100, points: 10 }, { threshold: 50, points: 6 }, { threshold: 25, points: 3 }],
+    oiSkewPct:         [{ threshold: 50, points: 6 }, { threshold: 35, points: 4 }, { threshold: 20, points: 2 }],
+  },
+  trend: {
+    minSamples:              5,
+    divergenceZScore:        [{ threshold: 3, points: 8 }, { threshold: 2, points: 4 }],
+    divergenceRocPctPerMin:  [{ threshold: 0.5, points: 8 }, { threshold: 0.2, points: 5 }, { threshold: 0.05, points: 2 }],
+    liquidityDrainPctPerMin: [{ threshold: 5, points: 6 }, { threshold: 1, points: 3 }],
+    maxPoints:               15,
+  },
+  weights: { divergence: 1, staleness: 1, liquidity: 1, funding: 1, oiSkew: 1, trend: 1 },
+  levels:  [15, 35, 55, 75],
+  classification: { divergencePct: 3, stalenessSeconds: 600, liquidityDepthUsd: 2_000_000 },
+  actions: {
+    monitorFromLevel:   1,
+    reduceLtv:          { divergenceAbovePct: 2, pctPerDivergencePct: 2, maxPct: 10 },
+    capSupply:          { liquidityBelowUsd: 5_000_000, deltaPct: -15 },
+    capBorrowFromLevel: 3,
+    freezeFromLevel:    4,
+  },
+};
+
+/** "0x" + sha256 of the policy's canonical JSON */
+export function policyHash(policy: RiskPolicy): string {
+  return "0x" + sha256Hex(canonicalize(policy));
+}
+
+export function policyRef(policy: RiskPolicy): PolicyRef {
+  return { id: policy.id, version: policy.version, hash: policyHash(policy) };
+}
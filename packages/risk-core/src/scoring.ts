@@ -0,0 +1,311 @@
+/**
+ * scoring.ts — Deterministic Risk Scoring
+ * =========================================
+ * Weighted score (0-100) from six factors, with bands, weights, level
+ * cut-offs and action rules taken from a RiskPolicy (policy.ts). Under
+ * DEFAULT_POLICY:
+ *
+ *   divergence  >1 / 2 / 5 / 10 / 15 %     →  8 / 15 / 25 / 35 / 40
+ *   staleness   >90 / 600 / 1800 / 3600 s  →  7 / 15 / 22 / 30
+ *   liquidity   <5M / 1M / 500k / 100k USD →  3 /  8 / 14 / 20
+ *   |funding|   >25 / 50 / 100 % APR       →  3 /  6 / 10
+ *   |OI skew|   >20 / 35 / 50 %            →  2 /  4 /  6
+ *               (both 0 when funding is unavailable — never guessed)
+ *   trend       z-score, rising divergence, liquidity drain → ≤ 15
+ *               (only once the asset has ≥ 5 samples of history)
+ *
+ *   Levels: ≥15 LOW, ≥35 MEDIUM, ≥55 HIGH, ≥75 CRITICAL.
+ *
+ * Classification is multi-label: every triggered class is a finding with
+ * the factors behind it and a severity. Stale + thin and divergence +
+ * funding skew add a COMPOSITE_ATTACK finding with its own action
+ * (USE_FALLBACK_ORACLE, FREEZE_COLLATERAL). A net-positive manipulation
+ * (attackEconomics.ts) outranks every other class as PROFITABLE_MANIPULATION
+ * and adds SET_BORROW_CAP at the borrowable amount where the attack stops
+ * paying. `vulnClass` is the first finding.
+ *
+ * scoreBreakdown() explains the total: per factor the value, matched band,
+ * raw and weighted points, and the distance to the next band.
+ *
+ * Inputs are normalized (fixed decimal places) before scoring so a value
+ * that prints identically in the evidence payload always scores the same.
+ * Bump SCORING_VERSION whenever the algorithm or rounding rules change;
+ * threshold changes belong in a new policy version instead.
+ */
+import type { AttackEconomics } from "./attackEconomics.js";
+import { DEFAULT_POLICY, type RiskPolicy, type ScoreBand } from "./policy.js";
+import {
+  LEVEL_NAMES, type FindingFactor, type PolicyAction, type RiskAssessment, type RiskLevel, type ScoringSignals, type Severity,
+  type TrendIndicators, type VulnClass, type VulnFinding, type FactorBreakdown, type ScoreBreakdown,
+} from "./types.js";
+
+export const SCORING_VERSION = "rf-score-9";
+
+export interface FactorPoints { divergence: number; staleness: number; liquidity: number; funding: number; oiSkew: number; trend: number; }
+
+function round(value: number, decimals: number): number {
+  const f = 10 ** decimals;
+  const r = Math.round(value * f) / f;
+  return Object.is(r, -0) ? 0 : r;
+}
+
+/** Highest band the value exceeds (bands may be listed in any order) */
+function above(value: number, bands: ScoreBand[]): number {
+  return bands.reduce((best, b) => (value > b.threshold && b.points > best ? b.points : best), 0);
+}
+
+function below(value: number, bands: ScoreBand[]): number {
+  return bands.reduce((best, b) => (value < b.threshold && b.points > best ? b.points : best), 0);
+}
+
+function roundOrNull(value: number | null | undefined, decimals: number): number | null {
+  return value === null || value === undefined || !Number.isFinite(value) ? null : round(value, decimals);
+}
+
+/** Fixes the precision of every scored field (prices 6dp, pct 4dp, seconds/USD integer) */
+export function normalizeSignals(s: ScoringSignals): ScoringSignals {
+  return {
+    asset:             s.asset.toUpperCase(),
+    oraclePrice:       round(s.oraclePrice, 6),
+    dexPrice:          round(s.dexPrice, 6),
+    divergencePct:     round(Math.abs(s.divergencePct), 4),
+    stalenessSeconds:  Math.max(0, Math.round(s.stalenessSeconds)),
+    liquidityDepthUsd: Math.max(0, Math.round(s.liquidityDepthUsd)),
+    fundingAprPct:     roundOrNull(s.fundingAprPct, 4),
+    oiSkewPct:         roundOrNull(s.oiSkewPct, 4),
+  };
+}
+
+/** Trend points: 0 until the asset has enough history */
+export function trendPoints(trend: TrendIndicators | undefined, policy: RiskPolicy = DEFAULT_POLICY): number {
+  const t = policy.trend;
+  if (!trend || trend.samples < t.minSamples) return 0;
+  const points = above(trend.divergenceZScore, t.divergenceZScore)
+               + above(trend.divergenceRocPctPerMin, t.divergenceRocPctPerMin)
+               + above(-trend.liquidityRocPctPerMin, t.liquidityDrainPctPerMin);
+  return Math.min(t.maxPoints, points);
+}
+
+/** Unweighted band points per factor for already-normalized signals */
+export function factorPoints(s: ScoringSignals, policy: RiskPolicy = DEFAULT_POLICY, trend?: TrendIndicators): FactorPoints {
+  return {
+    divergence: above(s.divergencePct, policy.bands.divergencePct),
+    staleness:  above(s.stalenessSeconds, policy.bands.stalenessSeconds),
+    liquidity:  below(s.liquidityDepthUsd, policy.bands.liquidityDepthUsd),
+    funding:    s.fundingAprPct === null ? 0 : above(Math.abs(s.fundingAprPct), policy.bands.fundingAprPct),
+    oiSkew:     s.oiSkewPct === null ? 0 : above(Math.abs(s.oiSkewPct), policy.bands.oiSkewPct),
+    trend:      trendPoints(trend, policy),
+  };
+}
+
+function bandAt(value: number | null, bands: ScoreBand[], direction: FactorBreakdown["direction"]): ScoreBand | null {
+  if (value === null) return null;
+  const hit = (b: ScoreBand) => (direction === "above" ? value > b.threshold : value < b.threshold);
+  return bands.reduce<ScoreBand | null>((best, b) => (hit(b) && b.points > (best?.points ?? 0) ? b : best), null);
+}
+
+/** Nearest band worth more points than the current one, and the move needed to cross it */
+function nextBandFrom(value: number | null, points: number, bands: ScoreBand[], direction: FactorBreakdown["direction"]): Pick<FactorBreakdown, "nextBand" | "distanceToNext"> {
+  const higher = bands.filter((b) => b.points > points);
+  if (value === null || !higher.length) return { nextBand: null, distanceToNext: null };
+  const next = higher.reduce((a, b) => (direction === "above" ? (b.threshold < a.threshold ? b : a) : (b.threshold > a.threshold ? b : a)));
+  const distance = direction === "above" ? next.threshold - value : value - next.threshold;
+  return { nextBand: { threshold: next.threshold, points: next.points }, distanceToNext: round(Math.max(0, distance), 4) };
+}
+
+function breakdownOf(value: number | null, bands: ScoreBand[], direction: FactorBreakdown["direction"], points: number, weight: number): FactorBreakdown {
+  const band = bandAt(value, bands, direction);
+  return {
+    value,
+    direction,
+    band:           band && { threshold: band.threshold, points: band.points },
+    points,
+    weight,
+    weightedPoints: round(points * weight, 4),
+    ...nextBandFrom(value, points, bands, direction),
+  };
+}
+
+/** Per-factor explanation of the score for already-normalized signals */
+export function scoreBreakdown(s: ScoringSignals, policy: RiskPolicy = DEFAULT_POLICY, factors: FactorPoints = factorPoints(s, policy)): ScoreBreakdown {
+  const b = policy.bands;
+  const w = policy.weights;
+  const abs = (v: number | null) => (v === null ? null : Math.abs(v));
+  return {
+    divergence: breakdownOf(s.divergencePct, b.divergencePct, "above", factors.divergence, w.divergence),
+    staleness:  breakdownOf(s.stalenessSeconds, b.stalenessSeconds, "above", factors.staleness, w.staleness),
+    liquidity:  breakdownOf(s.liquidityDepthUsd, b.liquidityDepthUsd, "below", factors.liquidity, w.liquidity),
+    funding:    breakdownOf(abs(s.fundingAprPct), b.fundingAprPct, "above", factors.funding, w.funding),
+    oiSkew:     breakdownOf(abs(s.oiSkewPct), b.oiSkewPct, "above", factors.oiSkew, w.oiSkew),
+    // Trend sums three indicator bands under a cap, so it has no single band to report
+    trend:      breakdownOf(null, [], "above", factors.trend, w.trend),
+  };
+}
+
+export function weightedScore(points: FactorPoints, policy: RiskPolicy = DEFAULT_POLICY): number {
+  const w   = policy.weights;
+  const sum = points.divergence * w.divergence + points.staleness * w.staleness
+            + points.liquidity * w.liquidity + points.funding * w.funding + points.oiSkew * w.oiSkew
+            + points.trend * w.trend;
+  return Math.min(100, Math.round(sum));
+}
+
+export function levelForScore(score: number, policy: RiskPolicy = DEFAULT_POLICY): RiskLevel {
+  const [low, medium, high, critical] = policy.levels;
+  return score >= critical ? 4 : score >= high ? 3 : score >= medium ? 2 : score >= low ? 1 : 0;
+}
+
+function maxPoints(bands: ScoreBand[]): number {
+  return bands.reduce((m, b) => Math.max(m, b.points), 0);
+}
+
+/** Share of the factor's top band: ≥ 75% critical, ≥ 35% warning, else info */
+function bandSeverity(points: number, bands: ScoreBand[]): Severity {
+  const ratio = points / (maxPoints(bands) || 1);
+  return ratio >= 0.75 ? "critical" : ratio >= 0.35 ? "warning" : "info";
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { info: 0, warning: 1, critical: 2 };
+
+/** A composite is one step more severe than its worst component */
+function escalate(parts: VulnFinding[]): Severity {
+  const worst = Math.max(...parts.map((p) => SEVERITY_RANK[p.severity]));
+  return worst >= 1 ? "critical" : "warning";
+}
+
+function lowestThreshold(bands: ScoreBand[]): number {
+  return bands.length ? Math.min(...bands.map((b) => b.threshold)) : 0;
+}
+
+/** Composite patterns: the single classes that, together, make a worse attack than either alone */
+const COMPOSITE_PATTERNS: Array<[VulnClass, VulnClass]> = [
+  ["STALE_FEED", "THIN_LIQUIDITY"],          // a lagging price nobody can arbitrage back
+  ["ORACLE_DIVERGENCE", "FUNDING_SKEW"],     // a crowded perp book leaning on a diverged oracle
+];
+
+/**
+ * Every triggered class with its contributing factors, most exploitable
+ * first: profitable manipulation, composites, then divergence, staleness,
+ * thin liquidity and funding skew.
+ */
+export function classifyVulnerabilities(
+  s: ScoringSignals,
+  policy: RiskPolicy = DEFAULT_POLICY,
+  factors: FactorPoints = factorPoints(s, policy),
+  attack?: AttackEconomics,
+): VulnFinding[] {
+  const c = policy.classification;
+  const b = policy.bands;
+  const singles: VulnFinding[] = [];
+  if (s.divergencePct > c.divergencePct) {
+    singles.push({
+      vulnClass: "ORACLE_DIVERGENCE",
+      severity:  bandSeverity(factors.divergence, b.divergencePct),
+      factors:   [{ factor: "divergencePct", value: s.divergencePct, threshold: c.divergencePct, points: factors.divergence }],
+    });
+  }
+  if (s.stalenessSeconds > c.stalenessSeconds) {
+    singles.push({
+      vulnClass: "STALE_FEED",
+      severity:  bandSeverity(factors.staleness, b.stalenessSeconds),
+      factors:   [{ factor: "stalenessSeconds", value: s.stalenessSeconds, threshold: c.stalenessSeconds, points: factors.staleness }],
+    });
+  }
+  if (s.liquidityDepthUsd < c.liquidityDepthUsd) {
+    singles.push({
+      vulnClass: "THIN_LIQUIDITY",
+      severity:  bandSeverity(factors.liquidity, b.liquidityDepthUsd),
+      factors:   [{ factor: "liquidityDepthUsd", value: s.liquidityDepthUsd, threshold: c.liquidityDepthUsd, points: factors.liquidity }],
+    });
+  }
+  // Funding has no trigger of its own: any band the funding factors score in
+  const skew: FindingFactor[] = [];
+  if (factors.funding > 0 && s.fundingAprPct !== null) {
+    skew.push({ factor: "fundingAprPct", value: s.fundingAprPct, threshold: lowestThreshold(b.fundingAprPct), points: factors.funding });
+  }
+  if (factors.oiSkew > 0 && s.oiSkewPct !== null) {
+    skew.push({ factor: "oiSkewPct", value: s.oiSkewPct, threshold: lowestThreshold(b.oiSkewPct), points: factors.oiSkew });
+  }
+  if (skew.length) {
+    const severity = skew.reduce<Severity>((worst, f) => {
+      const sev = bandSeverity(f.points, f.factor === "fundingAprPct" ? b.fundingAprPct : b.oiSkewPct);
+      return SEVERITY_RANK[sev] > SEVERITY_RANK[worst] ? sev : worst;
+    }, "info");
+    singles.push({ vulnClass: "FUNDING_SKEW", severity, factors: skew });
+  }
+
+  const composites: VulnFinding[] = COMPOSITE_PATTERNS.flatMap(([a, z]) => {
+    const parts = singles.filter((f) => f.vulnClass === a || f.vulnClass === z);
+    if (parts.length < 2) return [];
+    return [{ vulnClass: "COMPOSITE_ATTACK" as const, pattern: `${a}+${z}`, severity: escalate(parts), factors: parts.flatMap((p) => p.factors) }];
+  });
+
+  const profitable: VulnFinding[] = attack?.profitable
+    ? [{ vulnClass: "PROFITABLE_MANIPULATION", severity: "critical", factors: [{ factor: "netProfitUsd", value: attack.netProfitUsd, threshold: 0, points: 0 }] }]
+    : [];
+  return [...profitable, ...composites, ...singles];
+}
+
+/** Dominant vulnerability: the first (most exploitable) finding */
+export function classifyVulnerability(s: ScoringSignals, policy: RiskPolicy = DEFAULT_POLICY, attack?: AttackEconomics): VulnClass {
+  return classifyVulnerabilities(s, policy, factorPoints(s, policy), attack)[0]?.vulnClass ?? "NONE";
+}
+
+export function recommendActions(
+  s: ScoringSignals,
+  level: RiskLevel,
+  policy: RiskPolicy = DEFAULT_POLICY,
+  attack?: AttackEconomics,
+  findings: VulnFinding[] = [],
+): PolicyAction[] {
+  const rules   = policy.actions;
+  const actions: PolicyAction[] = [];
+  if (level >= rules.monitorFromLevel) {
+    actions.push({ type: "MONITOR", severity: "info", reason: "Increase monitoring frequency to every 30s" });
+  }
+  if (s.divergencePct > rules.reduceLtv.divergenceAbovePct) {
+    const cut = Math.min(rules.reduceLtv.maxPct, Math.floor(s.divergencePct * rules.reduceLtv.pctPerDivergencePct));
+    actions.push({ type: "REDUCE_LTV", severity: "warning", reason: `Reduce LTV by ${cut}% while oracle and DEX diverge by ${s.divergencePct}%`, param: "ltvDeltaPct", newValue: -cut });
+  }
+  if (s.liquidityDepthUsd < rules.capSupply.liquidityBelowUsd) {
+    actions.push({ type: "CAP_SUPPLY", severity: "warning", reason: "Cap new supply to prevent liquidity drain", param: "supplyCapDeltaPct", newValue: rules.capSupply.deltaPct });
+  }
+  if (attack?.profitable && attack.maxSafeBorrowableUsd !== null) {
+    actions.push({ type: "SET_BORROW_CAP", severity: "critical", reason: `A ${attack.shockPct}% manipulation nets $${attack.netProfitUsd}; cap borrowable so it costs more than it extracts`, param: "borrowCapUsd", newValue: attack.maxSafeBorrowableUsd, oldValue: attack.borrowableUsd });
+  }
+  const patterns = new Set(findings.map((f) => f.pattern).filter(Boolean));
+  if (patterns.has("STALE_FEED+THIN_LIQUIDITY")) {
+    actions.push({ type: "USE_FALLBACK_ORACLE", severity: "critical", reason: `Feed is ${s.stalenessSeconds}s old and only $${s.liquidityDepthUsd} of depth can correct it — price from the fallback oracle / TWAP` });
+  }
+  if (patterns.has("ORACLE_DIVERGENCE+FUNDING_SKEW")) {
+    actions.push({ type: "FREEZE_COLLATERAL", severity: "critical", reason: `Oracle diverges by ${s.divergencePct}% while perp positioning is crowded — stop accepting new ${s.asset} collateral` });
+  }
+  if (level >= rules.capBorrowFromLevel || patterns.size) {
+    actions.push({ type: "CAP_BORROW", severity: "critical", reason: "Pause new borrow positions until the oracle stabilizes", param: "borrowCapDeltaPct", newValue: -100 });
+  }
+  if (level >= rules.freezeFromLevel) {
+    actions.push({ type: "FREEZE_MARKET", severity: "critical", reason: "Emergency freeze — risk score exceeds safe threshold" });
+    actions.push({ type: "ALERT_GOVERNANCE", severity: "critical", reason: "Escalate to protocol governance / guardian multisig" });
+  }
+  return actions;
+}
+
+/** Score, level, class and actions for one set of signals (plus optional trend and attack economics) under `policy` */
+export function scoreSignals(signals: ScoringSignals, policy: RiskPolicy = DEFAULT_POLICY, trend?: TrendIndicators, attack?: AttackEconomics): RiskAssessment & { factors: FactorPoints } {
+  const s       = normalizeSignals(signals);
+  const factors = factorPoints(s, policy, trend);
+  const score   = weightedScore(factors, policy);
+  const level   = levelForScore(score, policy);
+  const vulnerabilities = classifyVulnerabilities(s, policy, factors, attack);
+  return {
+    score,
+    level,
+    levelName: LEVEL_NAMES[level],
+    vulnClass: vulnerabilities[0]?.vulnClass ?? "NONE",
+    vulnerabilities,
+    breakdown: scoreBreakdown(s, policy, factors),
+    actions:   recommendActions(s, level, policy, attack, vulnerabilities),
+    factors,
+    signals:   s,
+  };
+}
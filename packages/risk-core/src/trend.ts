@@ -0,0 +1,64 @@
+/**
+ * trend.ts — Rolling Signal Indicators
+ * ======================================
+ * Turns a time-ordered series of samples for one asset into the indicators
+ * the trend factor scores:
+ *
+ *   ewmaDivergencePct        exponentially weighted mean divergence (α)
+ *   divergenceZScore         latest divergence vs. mean/σ of the samples before it
+ *   divergenceRocPctPerMin   divergence change per minute over rocWindowSec
+ *   liquidityRocPctPerMin    % change in liquidity per minute (negative = draining)
+ *
+ * Indicators are rounded (4dp) so they hash identically wherever computed.
+ */
+import type { TrendIndicators } from "./types.js";
+
+export interface TrendSample { timestamp: number; divergencePct: number; liquidityDepthUsd: number; }
+
+export interface TrendOptions {
+  alpha?:        number;   // EWMA smoothing, default 0.2
+  rocWindowSec?: number;   // rate-of-change lookback, default 600
+}
+
+function round4(v: number): number {
+  const r = Math.round(v * 10_000) / 10_000;
+  return Object.is(r, -0) ? 0 : r;
+}
+
+/** `samples` oldest → newest, the last one being the observation being scored */
+export function computeTrend(samples: TrendSample[], opts: TrendOptions = {}): TrendIndicators {
+  const alpha  = opts.alpha ?? 0.2;
+  const window = opts.rocWindowSec ?? 600;
+  const n      = samples.length;
+  if (n === 0) {
+    return { samples: 0, windowSec: 0, ewmaDivergencePct: 0, divergenceZScore: 0, divergenceRocPctPerMin: 0, liquidityRocPctPerMin: 0 };
+  }
+  const latest = samples[n - 1];
+
+  let ewma = samples[0].divergencePct;
+  for (let i = 1; i < n; i++) ewma = alpha * samples[i].divergencePct + (1 - alpha) * ewma;
+
+  const prior = samples.slice(0, -1).map((s) => s.divergencePct);
+  let zScore  = 0;
+  if (prior.length >= 2) {
+    const mean = prior.reduce((a, b) => a + b, 0) / prior.length;
+    const sd   = Math.sqrt(prior.reduce((a, b) => a + (b - mean) ** 2, 0) / (prior.length - 1));
+    zScore     = sd > 1e-9 ? (latest.divergencePct - mean) / sd : 0;
+  }
+
+  const base    = samples.find((s) => s.timestamp >= latest.timestamp - window) ?? latest;
+  const minutes = (latest.timestamp - base.timestamp) / 60;
+  const divRoc  = minutes > 0 ? (latest.divergencePct - base.divergencePct) / minutes : 0;
+  const liqRoc  = minutes > 0 && base.liquidityDepthUsd > 0
+    ? ((latest.liquidityDepthUsd - base.liquidityDepthUsd) / base.liquidityDepthUsd) * 100 / minutes
+    : 0;
+
+  return {
+    samples:                n,
+    windowSec:              latest.timestamp - samples[0].timestamp,
+    ewmaDivergencePct:      round4(ewma),
+    divergenceZScore:       round4(zScore),
+    divergenceRocPctPerMin: round4(divRoc),
+    liquidityRocPctPerMin:  round4(liqRoc),
+  };
+}
@@ -0,0 +1,54 @@
+// types.ts — Reality Firewall v3 — Risk Core Types (shared by gateway + CRE workflows)
+import type { AttackEconomics } from "./attackEconomics.js";
+import type { LiquidityModel } from "./depth.js";
+
+export type RiskLevel = 0 | 1 | 2 | 3 | 4;
+export type RiskLevelName = "SAFE" | "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
+export const LEVEL_NAMES: Record<RiskLevel, RiskLevelName> = {
+  0: "SAFE", 1: "LOW", 2: "MEDIUM", 3: "HIGH", 4: "CRITICAL",
+};
+export type VulnClass = "NONE"|"PROFITABLE_MANIPULATION"|"ORACLE_DIVERGENCE"|"STALE_FEED"|"THIN_LIQUIDITY"|"FUNDING_SKEW"|"COMPOSITE_ATTACK";
+export type ActionType = "MONITOR"|"REDUCE_LTV"|"CAP_SUPPLY"|"CAP_BORROW"|"SET_BORROW_CAP"|"USE_FALLBACK_ORACLE"|"FREEZE_COLLATERAL"|"FREEZE_MARKET"|"ALERT_GOVERNANCE";
+export type Severity = "info"|"warning"|"critical";
+export interface PolicyAction { type: ActionType; severity: Severity; reason: string; param?: string; newValue?: number; oldValue?: number; }
+
+/** A signal past its trigger: the value, the threshold it crossed and the band points it scored */
+export interface FindingFactor { factor: "divergencePct"|"stalenessSeconds"|"liquidityDepthUsd"|"fundingAprPct"|"oiSkewPct"|"netProfitUsd"; value: number; threshold: number; points: number; }
+/** One triggered class; composites name the single classes they combine in `pattern` */
+export interface VulnFinding { vulnClass: VulnClass; pattern?: string; severity: Severity; factors: FindingFactor[]; }
+
+/**
+ * The inputs every scorer sees — a subset of the gateway's OracleSignals.
+ * fundingAprPct / oiSkewPct are null when no perpetual-funding source answered.
+ */
+export interface ScoringSignals { asset: string; oraclePrice: number; dexPrice: number; divergencePct: number; stalenessSeconds: number; liquidityDepthUsd: number; fundingAprPct: number | null; oiSkewPct: number | null; }
+
+/** Rolling indicators for the asset (trend.ts); absent for a first observation */
+export interface TrendIndicators { samples: number; windowSec: number; ewmaDivergencePct: number; divergenceZScore: number; divergenceRocPctPerMin: number; liquidityRocPctPerMin: number; }
+
+/**
+ * How one factor scored: the value compared (|x| for funding and OI skew,
+ * null when unavailable), the band it matched, points before and after the
+ * policy weight, and how far the value must move to reach the next band.
+ */
+export interface FactorBreakdown {
+  value:          number | null;
+  direction:      "above" | "below";
+  band:           { threshold: number; points: number } | null;
+  points:         number;
+  weight:         number;
+  weightedPoints: number;
+  nextBand:       { threshold: number; points: number } | null;
+  distanceToNext: number | null;
+}
+export interface ScoreBreakdown { divergence: FactorBreakdown; staleness: FactorBreakdown; liquidity: FactorBreakdown; funding: FactorBreakdown; oiSkew: FactorBreakdown; trend: FactorBreakdown; }
+
+export interface RiskAssessment { score: number; level: RiskLevel; levelName: RiskLevelName; vulnClass: VulnClass; vulnerabilities: VulnFinding[]; breakdown: ScoreBreakdown; actions: PolicyAction[]; signals: ScoringSignals; }
+
+/** What a drill played beyond static overrides: a scripted scenario's hash, or a stress run's hash and seed */
+export interface DrillProvenance { scenarioHash?: string; stressHash?: string; seed?: number; }
+
+/** Per-observation context: identity, drill flag, the asset's rolling trend and, for a configured market, the attack economics */
+export interface EvidenceContext { runId: string; timestamp: number; isDrill: boolean; trend?: TrendIndicators; attack?: AttackEconomics; liquidity?: LiquidityModel; drill?: DrillProvenance; }
+
+export interface ScoredEvidence extends RiskAssessment { runId: string; timestamp: number; isDrill: boolean; trend?: TrendIndicators; attack?: AttackEconomics; liquidity?: LiquidityModel; drill?: DrillProvenance; canonicalPayload: string; evidenceHash: string; }
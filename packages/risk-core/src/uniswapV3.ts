@@ -0,0 +1,181 @@
+/**
+ * uniswapV3.ts — Uniswap V3 Pool Price Math + eth_call Codecs
+ * =============================================================
+ * Pure helpers so the gateway and both CRE workflows read the venue a
+ * manipulator would actually trade on, not an aggregator:
+ *
+ *   slot0()              → spot price from sqrtPriceX96
+ *   observe(secondsAgos) → arithmetic-mean tick → TWAP (short and long window)
+ *   liquidity(), tickSpacing(), tickBitmap(), ticks() → tick liquidity (depth.ts)
+ *
+ * Callers do the transport (fetch JSON-RPC, CRE evm.read); this module
+ * only encodes calldata, decodes return data and converts to USD prices.
+ */
+
+export interface UniswapV3Pool {
+  address:        string;
+  chainId:        number;
+  feeTier:        number;    // hundredths of a bip: 500 = 0.05%
+  token0Decimals: number;
+  token1Decimals: number;
+  baseIsToken0:   boolean;   // true when the priced asset is token0
+  quote:          string;    // quote token symbol (USD stable)
+}
+
+export interface PoolPrice {
+  venue:          "uniswap-v3";
+  pool:           string;
+  chainId:        number;
+  feeTier:        number;
+  spot:           number;
+  tick:           number;
+  twapShort:      number | null;
+  twapLong:       number | null;
+  shortWindowSec: number;
+  longWindowSec:  number;
+  /** spot vs. TWAP in %, positive when spot is above */
+  spotVsTwapShortPct: number | null;
+  spotVsTwapLongPct:  number | null;
+}
+
+/** Mainnet pools with deep USD-stable liquidity; override per deployment */
+export const DEFAULT_UNISWAP_V3_POOLS: Record<string, UniswapV3Pool> = {
+  WETH: { address: "0x88e6A0c2dDD26FEEb64F039a2c41296FcB3f5640", chainId: 1, feeTier: 500, token0Decimals: 6, token1Decimals: 18, baseIsToken0: false, quote: "USDC" },
+  WBTC: { address: "0x99ac8cA7087fA4A2A1FB6357269965A2014ABc35", chainId: 1, feeTier: 3000, token0Decimals: 8, token1Decimals: 6, baseIsToken0: true, quote: "USDC" },
+  USDC: { address: "0x3416cF6C708Da44DB2624D63ea0AAef7113527C6", chainId: 1, feeTier: 100, token0Decimals: 6, token1Decimals: 6, baseIsToken0: true, quote: "USDT" },
+};
+
+export const SLOT0_SELECTOR        = "0x3850c7bd";
+export const OBSERVE_SELECTOR      = "0x883bdbfd";
+export const LIQUIDITY_SELECTOR    = "0x1a686502";
+export const TICK_SPACING_SELECTOR = "0xd0c93a7c";
+export const TICK_BITMAP_SELECTOR  = "0x5339c296";
+export const TICKS_SELECTOR        = "0xf30dba93";
+
+const Q96 = 2 ** 96;
+
+function word(hex: string, i: number): bigint {
+  const h = hex.startsWith("0x") ? hex.slice(2) : hex;
+  const w = h.slice(i * 64, (i + 1) * 64);
+  if (w.length !== 64) throw new Error(`[UniswapV3] return data too short (word ${i})`);
+  return BigInt("0x" + w);
+}
+
+function signed(v: bigint): bigint {
+  return v >= 1n << 255n ? v - (1n << 256n) : v;
+}
+
+/** ABI word for an (u)int argument; negatives as two's complement */
+function pad(v: bigint | number): string {
+  return BigInt.asUintN(256, BigInt(v)).toString(16).padStart(64, "0");
+}
+
+/** token1-per-token0 raw ratio → USD price of the base asset */
+function orient(raw: number, pool: UniswapV3Pool): number {
+  const human = raw * 10 ** (pool.token0Decimals - pool.token1Decimals);
+  return pool.baseIsToken0 ? human : 1 / human;
+}
+
+export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint, pool: UniswapV3Pool): number {
+  const r = Number(sqrtPriceX96) / Q96;
+  return orient(r * r, pool);
+}
+
+export function tickToPrice(tick: number, pool: UniswapV3Pool): number {
+  return orient(1.0001 ** tick, pool);
+}
+
+/** Arithmetic-mean tick between two cumulatives, rounded toward −∞ (OracleLibrary.consult) */
+export function meanTick(tickCumulativeAgo: bigint, tickCumulativeNow: bigint, seconds: number): number {
+  const delta = tickCumulativeNow - tickCumulativeAgo;
+  const secs  = BigInt(seconds);
+  let tick    = delta / secs;
+  if (delta < 0n && delta % secs !== 0n) tick -= 1n;
+  return Number(tick);
+}
+
+export function decodeSlot0(hex: string): { sqrtPriceX96: bigint; tick: number } {
+  return { sqrtPriceX96: word(hex, 0), tick: Number(signed(word(hex, 1))) };
+}
+
+export function encodeObserve(secondsAgos: number[]): string {
+  return OBSERVE_SELECTOR + pad(32) + pad(secondsAgos.length) + secondsAgos.map(pad).join("");
+}
+
+/** tickCumulatives from observe() return data (secondsPerLiquidity is ignored) */
+export function decodeObserve(hex: string): bigint[] {
+  const offset = Number(word(hex, 0)) / 32;
+  const length = Number(word(hex, offset));
+  return Array.from({ length }, (_, i) => signed(word(hex, offset + 1 + i)));
+}
+
+function deviationPct(spot: number, twap: number | null): number | null {
+  return twap === null ? null : Math.round(((spot - twap) / twap) * 100 * 10_000) / 10_000;
+}
+
+/**
+ * Builds a PoolPrice from decoded slot0 and tickCumulatives for
+ * secondsAgos = [longWindowSec, shortWindowSec, 0]. Missing cumulatives
+ * (pool history too short) leave the matching TWAP null.
+ */
+export function poolPrice(
+  pool: UniswapV3Pool,
+  slot0: { sqrtPriceX96: bigint; tick: number },
+  cumulatives: { long?: bigint; short?: bigint; now?: bigint },
+  windows: { shortWindowSec: number; longWindowSec: number },
+): PoolPrice {
+  const spot = sqrtPriceX96ToPrice(slot0.sqrtPriceX96, pool);
+  const twap = (ago: bigint | undefined, secs: number) =>
+    ago === undefined || cumulatives.now === undefined ? null : tickToPrice(meanTick(ago, cumulatives.now, secs), pool);
+  const twapShort = twap(cumulatives.short, windows.shortWindowSec);
+  const twapLong  = twap(cumulatives.long, windows.longWindowSec);
+  return {
+    venue:   "uniswap-v3",
+    pool:    pool.address,
+    chainId: pool.chainId,
+    feeTier: pool.feeTier,
+    spot,
+    tick:    slot0.tick,
+    twapShort,
+    twapLong,
+    ...windows,
+    spotVsTwapShortPct: deviationPct(spot, twapShort),
+    spotVsTwapLongPct:  deviationPct(spot, twapLong),
+  };
+}
+
+/** Single-word return (liquidity(), tickSpacing(), tickBitmap()) */
+export function decodeUint(hex: string): bigint {
+  return word(hex, 0);
+}
+
+export function decodeInt(hex: string): bigint {
+  return signed(word(hex, 0));
+}
+
+export function encodeTickBitmap(wordPosition: number): string {
+  return TICK_BITMAP_SELECTOR + pad(wordPosition);
+}
+
+export function encodeTicks(tick: number): string {
+  return TICKS_SELECTOR + pad(tick);
+}
+
+/** liquidityNet from ticks(int24) return data (liquidityGross, liquidityNet, …) */
+export function decodeTickLiquidityNet(hex: string): bigint {
+  return signed(word(hex, 1));
+}
+
+/** Bitmap word holding `tick` (TickBitmap.position) */
+export function tickWordPosition(tick: number, tickSpacing: number): number {
+  return Math.floor(Math.floor(tick / tickSpacing) / 256);
+}
+
+/** Initialized ticks encoded in one tickBitmap word */
+export function initializedTicks(wordPosition: number, bitmap: bigint, tickSpacing: number): number[] {
+  const ticks: number[] = [];
+  for (let bit = 0; bit < 256; bit++) {
+    if ((bitmap >> BigInt(bit)) & 1n) ticks.push((wordPosition * 256 + bit) * tickSpacing);
+  }
+  return ticks;
+}
@@ -0,0 +1,46 @@
+/**
+ * workflows/cre-risk-workflow/src/evidence.ts
+ * ============================================================
+ * The pure half of main.ts steps 3+4: turns the consensus oracle and
+ * DEX results into the shared-core assessment. No SDK import and no
+ * clock, so src/check-vectors.ts can run golden vectors through the
+ * exact builder the DON uses and compare evidenceHash.
+ * ============================================================
+ */
+
+import { assessRisk, type LiquidityModel, type ScoredEvidence } from "@reality-firewall/risk-core";
+
+export interface Observation {
+  asset:          string;
+  oraclePrice:    number;
+  staleness:      number;                       // seconds since the feed's updatedAt
+  dexPrice:       number;
+  liquidityUsd:   number;
+  liquidityBasis: LiquidityModel["basis"];      // the DON reads no pool depth: always an estimate
+}
+
+export interface ScoredObservation {
+  divergencePct:  number;
+  divergenceBps:  number;
+  liquidityModel: LiquidityModel;
+  risk:           ScoredEvidence;
+}
+
+export function scoreObservation(obs: Observation, workflowId: string, timestamp: number): ScoredObservation {
+  const divergencePct = Math.abs(obs.oraclePrice - obs.dexPrice) / obs.oraclePrice * 100;
+  const divergenceBps = Math.round(divergencePct * 100);
+
+  const liquidityModel: LiquidityModel = { venue: "estimate", pool: null, basis: obs.liquidityBasis };
+  const risk = assessRisk({
+    asset:             obs.asset,
+    oraclePrice:       obs.oraclePrice,
+    dexPrice:          obs.dexPrice,
+    divergencePct,
+    stalenessSeconds:  obs.staleness,
+    liquidityDepthUsd: obs.liquidityUsd,
+    fundingAprPct:     null,   // no funding source in the DON yet — scored as unavailable
+    oiSkewPct:         null,
+  }, { runId: workflowId, timestamp, isDrill: false, liquidity: liquidityModel });
+
+  return { divergencePct, divergenceBps, liquidityModel, risk };
+}
@@ -9,7 +9,8 @@
  *   aggregated via median consensus before being returned/written.
  *
  * CAPABILITIES USED (satisfies CRE "meaningful use" requirement):
- *   ✅ http.Client  — fetches DEX price from CoinGecko (offchain API)
+ *   ✅ evm.Client   — reads Uniswap V3 pool slot0 + observe() TWAPs (mainnet)
+ *   ✅ http.Client  — fetches 24h volume / fallback price from CoinGecko
  *   ✅ evm.Client   — reads Chainlink Data Feed price onchain (Sepolia)
  *   ✅ evm.Client   — writes risk signal to RiskSignalConsumer.sol onchain
  *   ✅ Cron trigger — runs every 5 minutes automatically
@@ -24,9 +25,10 @@
  * ARCHITECTURE:
  *   Trigger
  *     → [Node ctx] fetchOraclePrice (EVM read: latestRoundData)
- *     → [Node ctx] fetchDEXPrice    (HTTP GET: CoinGecko)
- *     → [Runtime]  computeRiskScore (deterministic weighted scoring)
- *     → [Runtime]  buildEvidenceHash (SHA-256 canonical JSON)
+ *     → [Node ctx] fetchDEXPrice    (EVM read: Uniswap V3 slot0/observe,
+ *                                    HTTP GET: CoinGecko for volume/fallback)
+ *     → [Runtime]  scoreObservation (src/evidence.ts → risk-core assessRisk:
+ *                                    score, level, class, actions, evidenceHash)
  *     → [Runtime]  writeRiskSignal  (EVM write: RiskSignalConsumer)
  *     → return WorkflowOutput
  *
@@ -36,7 +38,11 @@
 
 import { Runner, cre, type Runtime, type NodeRuntime } from "@chainlink/cre-sdk";
 import { z } from "zod";
-import { createHash } from "node:crypto";
+import {
+  poolPrice, DEFAULT_UNISWAP_V3_POOLS, VOLUME_DEPTH_FACTOR,
+  type LiquidityModel, type PoolPrice, type RiskLevelName, type VulnClass, type VulnFinding,
+} from "@reality-firewall/risk-core";
+import { scoreObservation } from "./evidence";
 
 // ── Config Schema ─────────────────────────────────────────────────────────────
 const configSchema = z.object({
@@ -48,6 +54,9 @@ const configSchema = z.object({
   }).default({}),
   rpcUrl:          z.string().default("https://ethereum-sepolia-rpc.publicnode.com"),
   dexApiUrl:       z.string().default("https://api.coingecko.com/api/v3"),
+  dexRpcUrl:       z.string().default("https://ethereum-rpc.publicnode.com"),
+  twapShortSec:    z.number().int().min(1).default(300),
+  twapLongSec:     z.number().int().min(1).default(1800),
   consumerAddress: z.string().default("0x0000000000000000000000000000000000000000"),
 });
 
@@ -68,6 +77,30 @@ const AGGREGATOR_ABI = [
   },
 ] as const;
 
+const UNISWAP_V3_POOL_ABI = [
+  {
+    name: "slot0", type: "function", stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "sqrtPriceX96",               type: "uint160" },
+      { name: "tick",                       type: "int24"   },
+      { name: "observationIndex",           type: "uint16"  },
+      { name: "observationCardinality",     type: "uint16"  },
+      { name: "observationCardinalityNext", type: "uint16"  },
+      { name: "feeProtocol",                type: "uint8"   },
+      { name: "unlocked",                   type: "bool"    },
+    ],
+  },
+  {
+    name: "observe", type: "function", stateMutability: "view",
+    inputs:  [{ name: "secondsAgos", type: "uint32[]" }],
+    outputs: [
+      { name: "tickCumulatives",                    type: "int56[]"   },
+      { name: "secondsPerLiquidityCumulativeX128s", type: "uint160[]" },
+    ],
+  },
+] as const;
+
 const CONSUMER_ABI = [
   {
     name: "updateRiskSignal", type: "function", stateMutability: "nonpayable",
@@ -86,12 +119,15 @@ const CONSUMER_ABI = [
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 interface OracleResult { price: number; updatedAt: number; staleness: number; ok: boolean; }
-interface DEXResult    { price: number; liquidityUsd: number; }
+// The DON reads no pool depth: liquidity is always an estimate, and liquidityBasis says from what
+interface DEXResult    { price: number; liquidityUsd: number; liquidityBasis: LiquidityModel["basis"]; venue: "uniswap-v3" | "coingecko" | "fallback"; pool?: PoolPrice; }
 interface WorkflowOutput {
   asset: string; oraclePrice: number; dexPrice: number;
   divergencePct: number; divergenceBps: number; stalenessSeconds: number;
-  liquidityUsd: number; riskScore: number; workflowId: string;
-  evidenceHash: string; consumerTxHash?: string; timestamp: number;
+  liquidityUsd: number; liquidityModel: LiquidityModel; dexVenue: DEXResult["venue"]; dexPool?: PoolPrice;
+  riskScore: number; level: number;
+  levelName: RiskLevelName; vulnClass: VulnClass; vulnerabilities: VulnFinding[]; workflowId: string;
+  evidenceHash: string; canonicalPayload: string; consumerTxHash?: string; timestamp: number;
 }
 
 // ── Main Entry Point ──────────────────────────────────────────────────────────
@@ -167,11 +203,43 @@ async function runRiskWorkflow(runtime: Runtime<Config>, config: Config, asset:
 
   runtime.log(`[RFW] Oracle consensus: $${oracleResult.price.toFixed(4)} staleness=${oracleResult.staleness}s ok=${oracleResult.ok}`);
 
-  // ── Step 2: Fetch DEX price from CoinGecko (HTTP offchain call) ────────
+  // ── Step 2: DEX price from the Uniswap V3 pool (EVM read), CoinGecko for volume ─
   const COINGECKO_IDS: Record<string, string> = { WETH:"ethereum", WBTC:"bitcoin", LINK:"chainlink", USDC:"usd-coin", ARB:"arbitrum" };
+  const pool = DEFAULT_UNISWAP_V3_POOLS[asset];
 
   const dexResult = await runtime.runInNodeContext(
     async (node: NodeRuntime<Config>): Promise<DEXResult> => {
+      let onchain: PoolPrice | undefined;
+      if (pool) {
+        try {
+          node.log(`[Node] EVM read: slot0/observe @ ${pool.address}`);
+          const evm   = node.evm(config.dexRpcUrl);
+          const slot0 = await evm.read({
+            contractAddress: pool.address as `0x${string}`,
+            abi:             UNISWAP_V3_POOL_ABI,
+            functionName:    "slot0",
+            args:            [],
+          }) as unknown as [bigint, number];
+          let cumulatives: { long?: bigint; short?: bigint; now?: bigint } = {};
+          try {
+            const [ticks] = await evm.read({
+              contractAddress: pool.address as `0x${string}`,
+              abi:             UNISWAP_V3_POOL_ABI,
+              functionName:    "observe",
+              args:            [[config.twapLongSec, config.twapShortSec, 0]],
+            }) as unknown as [bigint[]];
+            cumulatives = { long: ticks[0], short: ticks[1], now: ticks[2] };
+          } catch (err) {
+            node.log(`[Node] observe() failed (${err}) — spot only`);
+          }
+          onchain = poolPrice(pool, { sqrtPriceX96: BigInt(slot0[0]), tick: Number(slot0[1]) }, cumulatives,
+            { shortWindowSec: config.twapShortSec, longWindowSec: config.twapLongSec });
+          node.log(`[Node] Uniswap V3 ${asset} spot=$${onchain.spot.toFixed(4)} twap${config.twapShortSec}s=${onchain.twapShort?.toFixed(4) ?? "n/a"}`);
+        } catch (err) {
+          node.log(`[Node] Pool read failed: ${err} — using CoinGecko`);
+        }
+      }
+
       try {
         const coinId = COINGECKO_IDS[asset] ?? "ethereum";
         const url    = `${config.dexApiUrl}/simple/price?ids=${coinId}&vs_currencies=usd&include_24hr_vol=true`;
@@ -180,12 +248,18 @@ async function runRiskWorkflow(runtime: Runtime<Config>, config: Config, asset:
         const resp   = await http.get(url);
         const data   = JSON.parse(resp.body) as Record<string, { usd: number; usd_24h_vol?: number }>;
         const price  = data[coinId]?.usd ?? oracleResult.price;
-        const liq    = (data[coinId]?.usd_24h_vol ?? 10_000_000) * 0.12;
-        node.log(`[Node] CoinGecko ${asset} = $${price.toFixed(4)} liq=$${(liq/1e6).toFixed(1)}M`);
-        return { price, liquidityUsd: liq };
+        const volume = data[coinId]?.usd_24h_vol;
+        const liq    = (volume ?? 10_000_000) * VOLUME_DEPTH_FACTOR;
+        const basis  = volume === undefined ? "fixed-fallback" : "24h-volume";
+        node.log(`[Node] CoinGecko ${asset} = $${price.toFixed(4)} liq=$${(liq/1e6).toFixed(1)}M (${basis})`);
+        return onchain
+          ? { price: onchain.spot, liquidityUsd: liq, liquidityBasis: basis, venue: "uniswap-v3", pool: onchain }
+          : { price, liquidityUsd: liq, liquidityBasis: basis, venue: "coingecko" };
       } catch (err) {
-        node.log(`[Node] HTTP failed: ${err} — using oracle price`);
-        return { price: oracleResult.price * (1 + (Math.random() * 0.004 - 0.002)), liquidityUsd: 1_440_000 };
+        node.log(`[Node] HTTP failed: ${err} — using ${onchain ? "pool spot" : "oracle price"}`);
+        return onchain
+          ? { price: onchain.spot, liquidityUsd: 1_440_000, liquidityBasis: "fixed-fallback", venue: "uniswap-v3", pool: onchain }
+          : { price: oracleResult.price * (1 + (Math.random() * 0.004 - 0.002)), liquidityUsd: 1_440_000, liquidityBasis: "fixed-fallback", venue: "fallback" };
       }
     },
     (results: DEXResult[]) => {
@@ -194,25 +268,21 @@ async function runRiskWorkflow(runtime: Runtime<Config>, config: Config, asset:
     }
   );
 
-  runtime.log(`[RFW] DEX price: $${dexResult.price.toFixed(4)} liq=$${(dexResult.liquidityUsd/1e6).toFixed(2)}M`);
+  runtime.log(`[RFW] DEX price (${dexResult.venue}): $${dexResult.price.toFixed(4)} liq=$${(dexResult.liquidityUsd/1e6).toFixed(2)}M`);
 
-  // ── Step 3: Compute risk score (same algorithm as gateway riskEngine.ts) ─
-  const divergencePct = Math.abs(oracleResult.price - dexResult.price) / oracleResult.price * 100;
-  const divergenceBps = Math.round(divergencePct * 100);
-
-  const divScore   = Math.min(divergencePct >= 5 ? 40 : divergencePct >= 2 ? 25 : divergencePct >= 1 ? 15 : 8, 40);
-  const staleScore = Math.min(oracleResult.staleness >= 3600 ? 30 : oracleResult.staleness >= 600 ? 20 : oracleResult.staleness >= 120 ? 12 : 5, 30);
-  const liqScore   = Math.min(dexResult.liquidityUsd < 100_000 ? 20 : dexResult.liquidityUsd < 500_000 ? 15 : dexResult.liquidityUsd < 1_000_000 ? 10 : 5, 20);
-  const riskScore  = Math.min(Math.round(divScore + staleScore + liqScore), 100);
-
-  runtime.log(`[RFW] score=${riskScore}/100 div=${divergencePct.toFixed(4)}% stale=${oracleResult.staleness}s liq=$${(dexResult.liquidityUsd/1e6).toFixed(2)}M`);
-
-  // ── Step 4: Build evidence hash ────────────────────────────────────────
-  const hashPayload = { workflowId, asset, oraclePrice: oracleResult.price, dexPrice: dexResult.price, divergencePct, stalenessSeconds: oracleResult.staleness, riskScore, timestamp };
-  const sortedKeys  = Object.keys(hashPayload).sort();
-  const canonical   = "{" + sortedKeys.map(k => `"${k}":${JSON.stringify((hashPayload as any)[k])}`).join(",") + "}";
-  const evidenceHash = "0x" + createHash("sha256").update(canonical).digest("hex");
+  // ── Step 3+4: Score + evidence hash (shared core — same as the gateway) ─
+  const { divergencePct, divergenceBps, liquidityModel, risk } = scoreObservation({
+    asset,
+    oraclePrice:    oracleResult.price,
+    staleness:      oracleResult.staleness,
+    dexPrice:       dexResult.price,
+    liquidityUsd:   dexResult.liquidityUsd,
+    liquidityBasis: dexResult.liquidityBasis,
+  }, workflowId, timestamp);
+  const riskScore    = risk.score;
+  const evidenceHash = risk.evidenceHash;
 
+  runtime.log(`[RFW] score=${riskScore}/100 (${risk.levelName}, ${risk.vulnClass}) div=${divergencePct.toFixed(4)}% stale=${oracleResult.staleness}s liq=$${(dexResult.liquidityUsd/1e6).toFixed(2)}M`);
   runtime.log(`[RFW] evidenceHash=${evidenceHash}`);
 
   // ── Step 5: Write risk signal to consumer contract (EVM write) ─────────
@@ -254,9 +324,17 @@ async function runRiskWorkflow(runtime: Runtime<Config>, config: Config, asset:
     divergenceBps,
     stalenessSeconds: oracleResult.staleness,
     liquidityUsd:     Math.round(dexResult.liquidityUsd),
+    liquidityModel,
+    dexVenue:         dexResult.venue,
+    dexPool:          dexResult.pool,
     riskScore,
+    level:            risk.level,
+    levelName:        risk.levelName,
+    vulnClass:        risk.vulnClass,
+    vulnerabilities:  risk.vulnerabilities,
     workflowId,
     evidenceHash,
+    canonicalPayload: risk.canonicalPayload,
     consumerTxHash,
     timestamp,
   };
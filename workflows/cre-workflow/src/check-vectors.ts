@@ -0,0 +1,60 @@
+/**
+ * Reality Firewall v3 — Golden Vectors Through the Workflow
+ * ──────────────────────────────────────────────────────────
+ * Run: bun run check:vectors
+ *
+ * Feeds every golden vector shaped like a workflow observation — estimated
+ * liquidity, no funding source, nothing from trend/drill/attack/policy —
+ * through evidence.ts scoreObservation(), the builder main.ts uses, and
+ * requires the evidenceHash the shared core pinned for it. Exits 1 on any
+ * mismatch, or when no vector applies.
+ */
+
+import golden from "@reality-firewall/risk-core/vectors/golden.json";
+import type { LiquidityModel, ScoringSignals } from "@reality-firewall/risk-core";
+import { scoreObservation } from "./evidence";
+
+interface GoldenVector {
+  name: string;
+  signals: ScoringSignals;
+  context: { runId: string; timestamp: number; isDrill: boolean; liquidity?: LiquidityModel; [extra: string]: unknown };
+  policy?: unknown;
+  expected: { score: number; evidenceHash: string };
+}
+
+function isObservation(v: GoldenVector): boolean {
+  const { runId, timestamp, isDrill, liquidity, ...extra } = v.context;
+  return !v.policy && Object.keys(extra).length === 0 && liquidity?.venue === "estimate"
+    && v.signals.fundingAprPct === null && v.signals.oiSkewPct === null;
+}
+
+let checked = 0;
+let failures = 0;
+for (const v of (golden as { vectors: GoldenVector[] }).vectors.filter(isObservation)) {
+  const { signals, context } = v;
+  const { risk } = scoreObservation({
+    asset: signals.asset,
+    oraclePrice: signals.oraclePrice,
+    oracleUpdatedAt: context.timestamp - signals.stalenessSeconds,
+    dexPrice: signals.dexPrice,
+    liquidityUsd: signals.liquidityDepthUsd,
+    liquidityBasis: context.liquidity!.basis,
+  }, { runId: context.runId, now: context.timestamp, isDrill: context.isDrill });
+  checked++;
+  if (risk.evidenceHash === v.expected.evidenceHash) {
+    console.log(`✓ ${v.name} (score ${risk.score}, ${risk.levelName})`);
+  } else {
+    failures++;
+    console.error(`✗ ${v.name}\n    evidenceHash: expected ${v.expected.evidenceHash}, got ${risk.evidenceHash}`);
+  }
+}
+
+if (!checked) {
+  console.error("No workflow-shaped vector in golden.json");
+  process.exit(1);
+}
+if (failures) {
+  console.error(`${failures} of ${checked} vectors differ through scoreObservation()`);
+  process.exit(1);
+}
+console.log(`${checked} vectors match through scoreObservation()`);
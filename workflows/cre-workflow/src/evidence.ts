@@ -0,0 +1,42 @@
+/**
+ * Reality Firewall v3 — Observation → Evidence
+ * ─────────────────────────────────────────────
+ * The pure half of main.ts step 3: turns one oracle/DEX observation into the
+ * shared-core signals and assessment. No capabilities, no clock — main.ts
+ * passes `now`, and check-vectors.ts runs golden vectors through the same
+ * function so the workflow's evidenceHash cannot drift from the gateway's.
+ */
+
+import { assessRisk, type LiquidityModel, type ScoredEvidence, type ScoringSignals } from "@reality-firewall/risk-core";
+
+export interface Observation {
+  asset: string;
+  oraclePrice: number;
+  oracleUpdatedAt: number;                     // 0 when the feed read failed
+  dexPrice: number;
+  liquidityUsd: number;
+  liquidityBasis: LiquidityModel["basis"];     // no pool depth is read here; always an estimate
+}
+
+export interface RunContext {
+  runId: string;
+  now: number;                                 // unix seconds
+  isDrill: boolean;
+}
+
+export function scoreObservation(obs: Observation, run: RunContext): { signals: ScoringSignals; risk: ScoredEvidence } {
+  const signals: ScoringSignals = {
+    asset: obs.asset,
+    oraclePrice: obs.oraclePrice,
+    dexPrice: obs.dexPrice,
+    divergencePct: Math.abs((obs.oraclePrice - obs.dexPrice) / obs.oraclePrice) * 100,
+    stalenessSeconds: obs.oracleUpdatedAt > 0 ? run.now - obs.oracleUpdatedAt : 45,
+    liquidityDepthUsd: obs.liquidityUsd,
+    // No perp-funding source in this workflow — unavailable scores 0, never a guess
+    fundingAprPct: null,
+    oiSkewPct: null,
+  };
+  const liquidity: LiquidityModel = { venue: "estimate", pool: null, basis: obs.liquidityBasis };
+  const risk = assessRisk(signals, { runId: run.runId, timestamp: run.now, isDrill: run.isDrill, liquidity });
+  return { signals, risk };
+}
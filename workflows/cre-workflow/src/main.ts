@@ -3,12 +3,13 @@
  * ──────────────────────────────────────────────
  * Workflow ID : rfw-risk-workflow
  * Trigger     : HTTP (webhook) + Cron (every 5 min)
- * Capabilities: HTTP (offchain API) + EVM read/write (Sepolia)
+ * Capabilities: HTTP (offchain API) + EVM read/write (Sepolia) + EVM read (mainnet)
  *
  * Flow:
  *   1. Fetch Chainlink Data Feed price on Sepolia (EVM read)
- *   2. Fetch DEX price from CoinGecko API (HTTP offchain)
- *   3. Compute risk signals deterministically
+ *   2. Read Uniswap V3 pool slot0 + observe() TWAPs on mainnet (EVM read);
+ *      CoinGecko (HTTP offchain) for 24h volume, or price when no pool is set
+ *   3. Compute risk + evidenceHash with @reality-firewall/risk-core (evidence.ts)
  *   4. Call Claude AI for natural-language threat analysis (HTTP offchain)
  *   5. Write evidenceHash to ReceiptRegistry on Sepolia (EVM write)
  *
@@ -16,6 +17,12 @@
  *   bun install && cre workflow simulate rfw-risk-workflow --target staging-settings
  */
 
+import {
+  poolPrice, DEFAULT_UNISWAP_V3_POOLS, VOLUME_DEPTH_FACTOR,
+  type LiquidityModel, type PoolPrice, type ScoredEvidence, type ScoringSignals,
+} from "@reality-firewall/risk-core";
+import { scoreObservation } from "./evidence";
+
 // ─── CRE SDK Types (shimmed for local simulation) ───────────────────────────
 
 interface HttpCapability {
@@ -39,6 +46,7 @@ interface CREContext {
 // ─── Constants ───────────────────────────────────────────────────────────────
 
 const SEPOLIA_CHAIN_ID = "eip155:11155111";
+const MAINNET_CHAIN_ID = "eip155:1";
 
 // Chainlink Data Feed — ETH/USD on Sepolia
 const ETH_USD_FEED = "0x694AA1769357215DE4FAC081bf1f309aDC325306";
@@ -47,6 +55,14 @@ const AGGREGATOR_ABI = [
   "function decimals() external view returns (uint8)",
 ];
 
+// Uniswap V3 pools (mainnet) — addresses come from the shared core
+const UNISWAP_V3_POOL_ABI = [
+  "function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)",
+  "function observe(uint32[] secondsAgos) external view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)",
+];
+const TWAP_SHORT_SEC = 300;
+const TWAP_LONG_SEC  = 1800;
+
 // ReceiptRegistry on Sepolia (deploy your own, set via env)
 const RECEIPT_REGISTRY_ABI = [
   "function anchorReceipt(bytes32 evidenceHash, bytes32 runIdHash, address agentId, uint8 score, uint8 level, bool isDrill) external returns (bool)",
@@ -65,66 +81,17 @@ interface DexData {
   price: number;
   volume24h: number;
   liquidityUsd: number;
+  liquidityBasis: LiquidityModel["basis"];   // no pool depth is read here; always an estimate
   source: string;
+  pool?: PoolPrice;
 }
 
-interface RiskSignals {
-  asset: string;
-  oraclePrice: number;
-  dexPrice: number;
-  divergencePct: number;
-  stalenessSeconds: number;
-  liquidityUsd: number;
-  fundingRate: number;
-}
+type RiskSignals = ScoringSignals;
 
-interface RiskResult {
-  score: number;
-  level: 0 | 1 | 2 | 3 | 4;
-  levelLabel: string;
-  vulnerabilityClass: string;
-  actions: Array<{ type: string; severity: string; description: string }>;
-  evidenceHash: string;
-  runId: string;
-  timestamp: number;
-  signals: RiskSignals;
+/** Shared-core assessment plus this workflow's AI narrative and pool TWAPs */
+interface RiskResult extends ScoredEvidence {
   aiAnalysis?: string;
-}
-
-// ─── Helpers ─────────────────────────────────────────────────────────────────
-
-/**
- * RFC-8785 canonical JSON — recursive key sort, arrays preserved.
- * Required for deterministic evidenceHash.
- */
-function canonicalJson(obj: unknown): string {
-  if (obj === null || typeof obj !== "object") return JSON.stringify(obj);
-  if (Array.isArray(obj)) return "[" + obj.map(canonicalJson).join(",") + "]";
-  const sorted = Object.keys(obj as Record<string, unknown>)
-    .sort()
-    .map((k) => `${JSON.stringify(k)}:${canonicalJson((obj as Record<string, unknown>)[k])}`);
-  return "{" + sorted.join(",") + "}";
-}
-
-/** Simple SHA-256 using Web Crypto (available in WASM/CRE runtime) */
-async function sha256Hex(data: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const buf = await crypto.subtle.digest("SHA-256", encoder.encode(data));
-  return Array.from(new Uint8Array(buf))
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
-}
-
-function levelLabel(level: number): string {
-  return ["SAFE", "LOW", "MEDIUM", "HIGH", "CRITICAL"][level] ?? "UNKNOWN";
-}
-
-function vulnerabilityClass(divergence: number, staleness: number, liquidity: number): string {
-  if (divergence > 10) return "ORACLE_DIVERGENCE_CRITICAL";
-  if (divergence > 3) return "ORACLE_DIVERGENCE_ELEVATED";
-  if (staleness > 600) return "STALE_FEED";
-  if (liquidity < 500_000) return "THIN_LIQUIDITY";
-  return "NOMINAL";
+  dexPool?: PoolPrice;
 }
 
 // ─── Step 1: Read Oracle Price (EVM read on Sepolia) ─────────────────────────
@@ -162,10 +129,46 @@ async function fetchOraclePrice(ctx: CREContext): Promise<OracleData> {
   }
 }
 
-// ─── Step 2: Fetch DEX Price (HTTP offchain — CoinGecko) ─────────────────────
+// ─── Step 2: Fetch DEX Price (EVM read on mainnet pool + HTTP CoinGecko) ─────
+
+/** Spot and TWAPs from the asset's Uniswap V3 pool; null when none is configured or the read fails */
+async function fetchPoolPrice(ctx: CREContext, asset: string): Promise<PoolPrice | null> {
+  const pool = DEFAULT_UNISWAP_V3_POOLS[asset.toUpperCase()];
+  if (!pool) return null;
+  ctx.log(`[CRE:EVM] Reading Uniswap V3 pool ${pool.address} (fee ${pool.feeTier})...`);
+  try {
+    const slot0 = await ctx.evm.read({
+      chainId: MAINNET_CHAIN_ID,
+      address: pool.address,
+      abi: UNISWAP_V3_POOL_ABI,
+      method: "slot0",
+    });
+    let cumulatives: { long?: bigint; short?: bigint; now?: bigint } = {};
+    try {
+      const [ticks] = await ctx.evm.read({
+        chainId: MAINNET_CHAIN_ID,
+        address: pool.address,
+        abi: UNISWAP_V3_POOL_ABI,
+        method: "observe",
+        args: [[TWAP_LONG_SEC, TWAP_SHORT_SEC, 0]],
+      }) as [bigint[]];
+      cumulatives = { long: ticks[0], short: ticks[1], now: ticks[2] };
+    } catch {
+      ctx.log("[CRE:EVM] observe() reverted — pool history too short, spot only");
+    }
+    const price = poolPrice(pool, { sqrtPriceX96: BigInt(slot0[0] as bigint), tick: Number(slot0[1]) }, cumulatives,
+      { shortWindowSec: TWAP_SHORT_SEC, longWindowSec: TWAP_LONG_SEC });
+    ctx.log(`[CRE:EVM] Pool spot=${price.spot} twap${TWAP_SHORT_SEC}s=${price.twapShort ?? "n/a"} twap${TWAP_LONG_SEC}s=${price.twapLong ?? "n/a"}`);
+    return price;
+  } catch (err) {
+    ctx.log(`[CRE:EVM] Pool read failed (${err}) — falling back to CoinGecko price`);
+    return null;
+  }
+}
 
 async function fetchDexPrice(ctx: CREContext, asset: string): Promise<DexData> {
-  ctx.log(`[CRE:HTTP] Fetching DEX price for ${asset} from CoinGecko...`);
+  const pool = await fetchPoolPrice(ctx, asset);
+  ctx.log(`[CRE:HTTP] Fetching ${pool ? "24h volume" : "DEX price"} for ${asset} from CoinGecko...`);
   try {
     const coinId = asset.toLowerCase() === "weth" ? "ethereum"
       : asset.toLowerCase() === "wbtc" ? "bitcoin"
@@ -180,74 +183,27 @@ async function fetchDexPrice(ctx: CREContext, asset: string): Promise<DexData> {
     if (resp.status !== 200) throw new Error(`CoinGecko status ${resp.status}`);
 
     const data = JSON.parse(resp.body);
-    const price = data.market_data.current_price.usd;
     const volume24h = data.market_data.total_volume.usd;
-    const liquidityUsd = volume24h * 0.1; // approximate from 24h volume
+    const liquidityUsd = volume24h * VOLUME_DEPTH_FACTOR; // approximate from 24h volume
 
+    if (pool) return { price: pool.spot, volume24h, liquidityUsd, liquidityBasis: "24h-volume", source: "uniswap-v3", pool };
+    const price = data.market_data.current_price.usd;
     ctx.log(`[CRE:HTTP] DEX price=${price} volume24h=${volume24h}`);
-    return { price, volume24h, liquidityUsd, source: "coingecko" };
+    return { price, volume24h, liquidityUsd, liquidityBasis: "24h-volume", source: "coingecko" };
   } catch (err) {
     ctx.log("[CRE:HTTP] CoinGecko unavailable — using simulation fallback");
+    if (pool) return { price: pool.spot, volume24h: 1_200_000_000, liquidityUsd: 8_500_000, liquidityBasis: "fixed-fallback", source: "uniswap-v3", pool };
     const basePrice = 2780;
     // Simulate slight divergence for demo
     const divergenceMultiplier = 1 + (Math.random() * 0.08 - 0.02); // -2% to +6%
     const price = basePrice * divergenceMultiplier;
-    return { price, volume24h: 1_200_000_000, liquidityUsd: 8_500_000, source: "simulation" };
+    return { price, volume24h: 1_200_000_000, liquidityUsd: 8_500_000, liquidityBasis: "fixed-fallback", source: "simulation" };
   }
 }
 
-// ─── Step 3: Compute Risk Score (deterministic) ──────────────────────────────
-
-function computeRisk(signals: RiskSignals): Pick<RiskResult, "score" | "level" | "levelLabel" | "vulnerabilityClass" | "actions"> {
-  const { divergencePct, stalenessSeconds, liquidityUsd, fundingRate } = signals;
-
-  // Weighted scoring (matches hackathon spec)
-  let divergenceScore = 0;
-  if (divergencePct > 15) divergenceScore = 40;
-  else if (divergencePct > 10) divergenceScore = 35;
-  else if (divergencePct > 5) divergenceScore = 25;
-  else if (divergencePct > 2) divergenceScore = 15;
-  else if (divergencePct > 1) divergenceScore = 8;
-
-  let stalenessScore = 0;
-  if (stalenessSeconds > 3600) stalenessScore = 30;
-  else if (stalenessSeconds > 1800) stalenessScore = 22;
-  else if (stalenessSeconds > 600) stalenessScore = 15;
-  else if (stalenessSeconds > 90) stalenessScore = 7;
-
-  let liquidityScore = 0;
-  if (liquidityUsd < 100_000) liquidityScore = 20;
-  else if (liquidityUsd < 500_000) liquidityScore = 14;
-  else if (liquidityUsd < 1_000_000) liquidityScore = 8;
-  else if (liquidityUsd < 5_000_000) liquidityScore = 3;
-
-  let fundingScore = 0;
-  if (Math.abs(fundingRate) > 0.5) fundingScore = 10;
-  else if (Math.abs(fundingRate) > 0.2) fundingScore = 6;
-  else if (Math.abs(fundingRate) > 0.1) fundingScore = 3;
-
-  const score = Math.min(100, divergenceScore + stalenessScore + liquidityScore + fundingScore);
-
-  let level: 0 | 1 | 2 | 3 | 4 = 0;
-  if (score >= 75) level = 4;
-  else if (score >= 55) level = 3;
-  else if (score >= 35) level = 2;
-  else if (score >= 15) level = 1;
-
-  // Build recommended actions
-  const actions: Array<{ type: string; severity: string; description: string }> = [];
-  if (level >= 1) actions.push({ type: "MONITOR_CLOSELY", severity: "low", description: "Increase monitoring frequency to every 30s" });
-  if (divergencePct > 2) actions.push({ type: "REDUCE_LTV", severity: "medium", description: `Reduce LTV by ${Math.min(10, Math.floor(divergencePct * 2))}% for affected markets` });
-  if (liquidityUsd < 5_000_000) actions.push({ type: "CAP_SUPPLY", severity: "medium", description: "Cap new supply at current TVL to prevent liquidity drain" });
-  if (level >= 3) actions.push({ type: "PAUSE_BORROWS", severity: "high", description: "Pause new borrow positions until oracle stabilizes" });
-  if (level >= 4) actions.push({ type: "FREEZE_MARKET", severity: "critical", description: "Emergency freeze — oracle divergence exceeds safe threshold" });
-
-  return { score, level, levelLabel: levelLabel(level), vulnerabilityClass: vulnerabilityClass(divergencePct, stalenessSeconds, liquidityUsd), actions };
-}
-
 // ─── Step 4: Claude AI Analysis (HTTP offchain) ──────────────────────────────
 
-async function callClaudeAI(ctx: CREContext, signals: RiskSignals, riskResult: ReturnType<typeof computeRisk>): Promise<string> {
+async function callClaudeAI(ctx: CREContext, signals: RiskSignals, riskResult: Pick<ScoredEvidence, "score" | "level" | "levelName" | "vulnClass">): Promise<string> {
   ctx.log("[CRE:HTTP] Calling Claude AI for threat analysis...");
   try {
     const apiKey = ctx.getSecret("ANTHROPIC_API_KEY");
@@ -260,9 +216,10 @@ Oracle Price: $${signals.oraclePrice.toFixed(2)} (Chainlink Sepolia)
 DEX Price: $${signals.dexPrice.toFixed(2)} (CoinGecko)
 Divergence: ${signals.divergencePct.toFixed(3)}%
 Oracle Staleness: ${signals.stalenessSeconds}s
-Liquidity: $${(signals.liquidityUsd / 1_000_000).toFixed(2)}M
-Risk Score: ${riskResult.score}/100 (${riskResult.levelLabel})
-Vulnerability Class: ${riskResult.vulnerabilityClass}
+Liquidity: $${(signals.liquidityDepthUsd / 1_000_000).toFixed(2)}M
+Funding: ${signals.fundingAprPct === null ? "unavailable" : `${signals.fundingAprPct.toFixed(2)}% APR`}
+Risk Score: ${riskResult.score}/100 (${riskResult.levelName})
+Vulnerability Class: ${riskResult.vulnClass}
 
 Respond with ONLY the threat assessment — no preamble, no markdown.`;
 
@@ -351,72 +308,36 @@ export async function main(ctx: CREContext): Promise<RiskResult> {
   // Step 1: Oracle price (EVM read)
   const oracle = await fetchOraclePrice(ctx);
 
-  // Step 2: DEX price (HTTP offchain)
+  // Step 2: DEX price (Uniswap V3 pool, CoinGecko for volume)
   const dex = await fetchDexPrice(ctx, asset);
 
-  // Step 3: Build signals
+  // Step 3: Compute risk + evidenceHash (shared core — identical to the gateway)
   const now = Math.floor(Date.now() / 1000);
-  const stalenessSeconds = oracle.updatedAt > 0 ? now - oracle.updatedAt : 45;
-  const divergencePct = Math.abs((oracle.price - dex.price) / oracle.price) * 100;
-
-  const signals: RiskSignals = {
+  const runId = `rfw_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const { signals, risk } = scoreObservation({
     asset,
     oraclePrice: oracle.price,
+    oracleUpdatedAt: oracle.updatedAt,
     dexPrice: dex.price,
-    divergencePct,
-    stalenessSeconds,
     liquidityUsd: dex.liquidityUsd,
-    fundingRate: (Math.random() - 0.48) * 0.4, // realistic funding range
-  };
+    liquidityBasis: dex.liquidityBasis,
+  }, { runId, now, isDrill });
 
-  ctx.log(`[RFW] Signals → divergence=${divergencePct.toFixed(4)}% staleness=${stalenessSeconds}s liquidity=$${(signals.liquidityUsd / 1e6).toFixed(2)}M`);
+  ctx.log(`[RFW] Signals → divergence=${signals.divergencePct.toFixed(4)}% staleness=${signals.stalenessSeconds}s liquidity=$${(signals.liquidityDepthUsd / 1e6).toFixed(2)}M`);
+  ctx.log(`[RFW] Risk Score=${risk.score}/100 Level=${risk.levelName} Class=${risk.vulnClass}`);
+  ctx.log(`[RFW] evidenceHash=${risk.evidenceHash}`);
 
-  // Step 3: Compute risk (deterministic)
-  const risk = computeRisk(signals);
-  ctx.log(`[RFW] Risk Score=${risk.score}/100 Level=${risk.levelLabel} Class=${risk.vulnerabilityClass}`);
-
-  // Step 4: Claude AI analysis (HTTP offchain)
+  // Step 4: Claude AI analysis (HTTP offchain) — not part of the evidence payload
   const aiAnalysis = await callClaudeAI(ctx, signals, risk);
 
-  // Step 5: Build canonical receipt for evidenceHash
-  const runId = `rfw_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-  const receiptPayload = {
-    actions: risk.actions,
-    aiAnalysis,
-    asset,
-    divergencePct: Math.round(divergencePct * 10000) / 10000,
-    isDrill,
-    level: risk.level,
-    liquidityUsd: Math.round(signals.liquidityUsd),
-    oraclePrice: Math.round(oracle.price * 100) / 100,
-    dexPrice: Math.round(dex.price * 100) / 100,
-    runId,
-    score: risk.score,
-    stalenessSeconds,
-    timestamp: now,
-    vulnerabilityClass: risk.vulnerabilityClass,
-    workflowVersion: "3.0.0",
-  };
-
-  const canonical = canonicalJson(receiptPayload);
-  const evidenceHash = await sha256Hex(canonical);
-  ctx.log(`[RFW] evidenceHash=0x${evidenceHash}`);
-
   // Step 5: Anchor on Sepolia (EVM write)
-  const { txHash, anchored } = await anchorOnChain(ctx, evidenceHash, runId, risk.score, risk.level, isDrill);
+  const { txHash, anchored } = await anchorOnChain(ctx, risk.evidenceHash, runId, risk.score, risk.level, isDrill);
 
-  const result: RiskResult = {
-    ...risk,
-    evidenceHash: "0x" + evidenceHash,
-    runId,
-    timestamp: now,
-    signals,
-    aiAnalysis,
-  };
+  const result: RiskResult = { ...risk, aiAnalysis, dexPool: dex.pool };
 
   ctx.log(`\n[RFW] ✅ Workflow Complete`);
-  ctx.log(`[RFW] Score: ${risk.score}/100 (${risk.levelLabel})`);
-  ctx.log(`[RFW] evidenceHash: 0x${evidenceHash}`);
+  ctx.log(`[RFW] Score: ${risk.score}/100 (${risk.levelName})`);
+  ctx.log(`[RFW] evidenceHash: ${risk.evidenceHash}`);
   ctx.log(`[RFW] anchorTx: ${txHash} anchored=${anchored}`);
   ctx.log("═".repeat(60));
 
@@ -425,4 +346,4 @@ export async function main(ctx: CREContext): Promise<RiskResult> {
 
 // ─── Local simulation shim (used by simulate-local.ts) ───────────────────────
 
-export { canonicalJson, computeRisk, fetchOraclePrice, fetchDexPrice, callClaudeAI };
+export { fetchOraclePrice, fetchPoolPrice, fetchDexPrice, callClaudeAI };
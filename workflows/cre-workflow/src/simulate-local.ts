@@ -9,6 +9,7 @@
  * Output matches exactly what `cre workflow simulate` would produce.
  */
 
+import { decodeObserve, decodeSlot0, encodeObserve, SLOT0_SELECTOR } from "@reality-firewall/risk-core";
 import { main } from "./main";
 
 // ─── Colors for terminal output ──────────────────────────────────────────────
@@ -59,10 +60,11 @@ const httpClient = {
   },
 };
 
-// Mock EVM client — tries real Sepolia RPC
+// Mock EVM client — tries real Sepolia RPC (mainnet for Uniswap V3 pools)
 const evmClient = {
   async read(params: { chainId: string; address: string; abi: string[]; method: string; args?: unknown[] }) {
     console.log(c.dim(`  → EVM read ${params.method}() on ${params.address.substring(0, 10)}...`));
+    if (params.method === "slot0" || params.method === "observe") return readPool(params);
     try {
       // Encode call data for latestRoundData / decimals
       const callData = params.method === "decimals" ? "0x313ce567" : "0xfeaf968c";
@@ -108,6 +110,27 @@ const evmClient = {
   },
 };
 
+// Uniswap V3 pool reads on mainnet — no simulation values, fetchDexPrice falls back itself
+async function readPool(params: { address: string; method: string; args?: unknown[] }) {
+  const callData = params.method === "slot0" ? SLOT0_SELECTOR : encodeObserve((params.args?.[0] as number[]) ?? []);
+  const rpcUrl = process.env.MAINNET_RPC_URL || "https://ethereum-rpc.publicnode.com";
+  const resp = await fetch(rpcUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      method: "eth_call",
+      params: [{ to: params.address, data: callData }, "latest"],
+      id: 1,
+    }),
+  });
+  const data = await resp.json();
+  if (data.error) throw new Error(data.error.message);
+  if (params.method === "observe") return [decodeObserve(data.result)];
+  const { sqrtPriceX96, tick } = decodeSlot0(data.result);
+  return [sqrtPriceX96, tick];
+}
+
 // ─── Run simulation ───────────────────────────────────────────────────────────
 
 async function runSimulation() {
@@ -148,17 +171,17 @@ async function runSimulation() {
   console.log(`  ${c.bold("DEX Price")}    : $${result.signals.dexPrice.toFixed(2)} (CoinGecko)`);
   console.log(`  ${c.bold("Divergence")}   : ${result.signals.divergencePct.toFixed(4)}%`);
   console.log(`  ${c.bold("Staleness")}    : ${result.signals.stalenessSeconds}s`);
-  console.log(`  ${c.bold("Liquidity")}    : $${(result.signals.liquidityUsd / 1e6).toFixed(2)}M`);
+  console.log(`  ${c.bold("Liquidity")}    : $${(result.signals.liquidityDepthUsd / 1e6).toFixed(2)}M`);
   console.log();
   console.log(`  ${c.bold("Risk Score")}   : ${lvlColor(String(result.score) + "/100")}`);
-  console.log(`  ${c.bold("Level")}        : ${lvlColor(result.levelLabel)}`);
-  console.log(`  ${c.bold("Vuln Class")}   : ${result.vulnerabilityClass}`);
+  console.log(`  ${c.bold("Level")}        : ${lvlColor(result.levelName)}`);
+  console.log(`  ${c.bold("Vuln Class")}   : ${result.vulnClass}`);
   console.log();
   console.log(`  ${c.bold("Actions")}:`);
   for (const action of result.actions) {
-    const sev = action.severity === "critical" ? c.red : action.severity === "high" ? (s: string) => `\x1b[33m${s}\x1b[0m` : c.yellow;
+    const sev = action.severity === "critical" ? c.red : action.severity === "warning" ? (s: string) => `\x1b[33m${s}\x1b[0m` : c.yellow;
     console.log(`    ${sev("▶")} [${action.severity.toUpperCase()}] ${action.type}`);
-    console.log(`      ${c.dim(action.description)}`);
+    console.log(`      ${c.dim(action.reason)}`);
   }
   console.log();
   if (result.aiAnalysis) {